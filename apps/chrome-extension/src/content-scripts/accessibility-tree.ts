@@ -4,7 +4,7 @@
  * Builds a lightweight a11y tree with WeakRef element references.
  */
 
-const REF_PATTERN = /^(find_|page_)?ref_\d+$/
+const REF_PATTERN = /^(find_|page_|loc_)?ref_\d+$/
 
 let refCounter = 0
 
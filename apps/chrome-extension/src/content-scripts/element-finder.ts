@@ -3,7 +3,7 @@
  * Used by the `find` tool.
  */
 
-const REF_PATTERN = /^(find_|page_)?ref_\d+$/
+const REF_PATTERN = /^(find_|page_|loc_)?ref_\d+$/
 
 chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
   if (message.type !== 'viyv-find-elements') return false
@@ -3,7 +3,7 @@
  * Used by the `form_input` tool.
  */
 
-const REF_PATTERN = /^(find_|page_)?ref_\d+$/
+const REF_PATTERN = /^(find_|page_|loc_)?ref_\d+$/
 
 chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
   if (message.type !== 'viyv-form-input') return false
@@ -5,7 +5,8 @@
 
 chrome.runtime.onMessage.addListener((message, _sender, sendResponse) => {
   if (message.type === 'viyv-gif-encode') {
-    // GIF encoding will be implemented in Phase 5
+    // GIF encoding will be implemented in Phase 5.
+    // Progress contract: send { type: 'viyv-gif-progress', encodeId, encoded } after each frame.
     sendResponse({ status: 'not_implemented' })
     return true
   }
@@ -1,6 +1,9 @@
+import { PROFILE_NAME_KEY } from '../service-worker/browser-identity'
+
 const statusDot = document.getElementById('statusDot') as HTMLElement
 const statusText = document.getElementById('statusText') as HTMLElement
 const connectBtn = document.getElementById('connectBtn') as HTMLButtonElement
+const profileNameInput = document.getElementById('profileName') as HTMLInputElement
 
 function updateStatus(connected: boolean) {
   statusDot.className = `dot ${connected ? 'connected' : 'disconnected'}`
@@ -28,3 +31,12 @@ connectBtn.addEventListener('click', () => {
     updateStatus(response?.connected ?? false)
   })
 })
+
+// Profile name is sent to the MCP server on the next (re)connect
+chrome.storage.local.get(PROFILE_NAME_KEY).then((stored) => {
+  profileNameInput.value = (stored[PROFILE_NAME_KEY] as string | undefined) ?? ''
+})
+
+profileNameInput.addEventListener('change', () => {
+  chrome.storage.local.set({ [PROFILE_NAME_KEY]: profileNameInput.value.trim() })
+})
@@ -0,0 +1,155 @@
+/**
+ * Actionability checks for ref clicks and hovers.
+ * The element is scrolled into view and probed until it is visible, enabled, stable (same box
+ * on consecutive probes) and the topmost element at its center, so the click can be dispatched
+ * through CDP at that point like a real mouse. Probes back off like Playwright's
+ * (0, 20, 100, 100, then every 500ms).
+ */
+
+import { ViyvBrowserError } from '@viyv-browser/shared'
+import { delay } from './cancellation'
+
+type ProbeResult =
+  | { state: 'ready'; x: number; y: number }
+  | { state: 'missing' | 'hidden' | 'disabled' | 'unstable' }
+  | { state: 'intercepted'; x: number; y: number; interceptedBy: string }
+  /** The page could not be scripted, e.g. while a navigation commits */
+  | { state: 'unavailable' }
+
+const PROBE_DELAYS = [0, 20, 100, 100, 500]
+
+/**
+ * Resolves with the element's center in viewport CSS pixels once it can be clicked.
+ * Throws ELEMENT_NOT_FOUND when the ref is gone, ELEMENT_NOT_ACTIONABLE after `timeout`.
+ */
+export async function waitForActionable(
+  tabId: number,
+  ref: string,
+  timeout: number,
+  signal?: AbortSignal,
+  requireEnabled = true,
+): Promise<{ x: number; y: number }> {
+  const deadline = Date.now() + timeout
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted()
+    const probe = await runProbe(tabId, ref, requireEnabled)
+    if (probe.state === 'ready') return { x: probe.x, y: probe.y }
+    if (probe.state === 'missing') {
+      throw new ViyvBrowserError('ELEMENT_NOT_FOUND', `Element ref ${ref} not found`, { ref })
+    }
+
+    const remaining = deadline - Date.now()
+    if (remaining <= 0) {
+      // A page that never became scriptable again has most likely replaced the element
+      if (probe.state === 'unavailable') {
+        throw new ViyvBrowserError(
+          'ELEMENT_NOT_FOUND',
+          `Element ref ${ref} not found: the page did not finish loading within ${timeout}ms`,
+          { ref },
+        )
+      }
+      throw notActionableError(ref, probe, timeout)
+    }
+    const backoff = PROBE_DELAYS[Math.min(attempt, PROBE_DELAYS.length - 1)]
+    await delay(Math.min(backoff, remaining), signal)
+  }
+}
+
+async function runProbe(tabId: number, ref: string, requireEnabled: boolean): Promise<ProbeResult> {
+  try {
+    const [injection] = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: probeElement,
+      args: [ref, requireEnabled],
+    })
+    return (injection?.result as ProbeResult | undefined) ?? { state: 'unavailable' }
+  } catch (error) {
+    // A closed tab is gone for good; frames come and go while a page loads
+    if (String(error).includes('No tab with id')) throw error
+    return { state: 'unavailable' }
+  }
+}
+
+function notActionableError(ref: string, probe: ProbeResult, timeout: number): ViyvBrowserError {
+  const after = `after ${timeout}ms`
+  if (probe.state === 'intercepted') {
+    return new ViyvBrowserError(
+      'ELEMENT_NOT_ACTIONABLE',
+      `Element ref ${ref} would not receive the click: ${probe.interceptedBy} is on top of it at (${probe.x}, ${probe.y}) ${after}`,
+      {
+        ref,
+        reason: 'intercepted',
+        interceptedBy: probe.interceptedBy,
+        coordinate: [probe.x, probe.y],
+      },
+    )
+  }
+  const reasons: Record<string, string> = {
+    hidden: 'is not visible',
+    disabled: 'is disabled',
+    unstable: 'is still moving',
+  }
+  return new ViyvBrowserError(
+    'ELEMENT_NOT_ACTIONABLE',
+    `Element ref ${ref} ${reasons[probe.state]} ${after}`,
+    { ref, reason: probe.state },
+  )
+}
+
+/** Runs in the page; must be self-contained */
+async function probeElement(ref: string, requireEnabled: boolean): Promise<ProbeResult> {
+  const el = document.querySelector(`[data-viyv-ref="${ref}"]`)
+  if (!el) return { state: 'missing' }
+
+  el.scrollIntoView({ block: 'center', inline: 'center', behavior: 'instant' })
+  const before = el.getBoundingClientRect()
+  const style = getComputedStyle(el)
+  if (before.width === 0 || before.height === 0 || style.visibility !== 'visible') {
+    return { state: 'hidden' }
+  }
+  if (requireEnabled && (el.matches(':disabled') || el.getAttribute('aria-disabled') === 'true')) {
+    return { state: 'disabled' }
+  }
+
+  // Timers instead of animation frames: frames do not run in background tabs
+  await new Promise((resolve) => setTimeout(resolve, 50))
+  const box = el.getBoundingClientRect()
+  if (
+    box.x !== before.x ||
+    box.y !== before.y ||
+    box.width !== before.width ||
+    box.height !== before.height
+  ) {
+    return { state: 'unstable' }
+  }
+
+  const x = Math.round(box.left + box.width / 2)
+  const y = Math.round(box.top + box.height / 2)
+  // Follow open shadow roots down to the innermost element at the point
+  let hit = document.elementFromPoint(x, y)
+  while (hit?.shadowRoot) {
+    const inner = hit.shadowRoot.elementFromPoint(x, y)
+    if (!inner || inner === hit) break
+    hit = inner
+  }
+  if (!hit) return { state: 'hidden' }
+
+  // The element itself or anything inside it receives the click
+  let node: Node | null = hit
+  while (node && node !== el) {
+    node = node.parentNode instanceof ShadowRoot ? node.parentNode.host : node.parentNode
+  }
+  if (node === el) return { state: 'ready', x, y }
+
+  const id = hit.id ? `#${hit.id}` : ''
+  const classes = [...hit.classList]
+    .slice(0, 3)
+    .map((name) => `.${name}`)
+    .join('')
+  return {
+    state: 'intercepted',
+    x,
+    y,
+    interceptedBy: `<${hit.tagName.toLowerCase()}${id}${classes}>`,
+  }
+}
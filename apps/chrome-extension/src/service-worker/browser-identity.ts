@@ -0,0 +1,26 @@
+/**
+ * Browser identity sent in the session_init handshake.
+ * The MCP server keeps one connection per browserId, so the ID must survive service worker
+ * restarts and reconnects: it is generated once and persisted in chrome.storage.local
+ * (which is per Chrome profile). The profile name is set by the user in the popup.
+ */
+
+import type { BrowserInfo } from '@viyv-browser/shared'
+
+const BROWSER_ID_KEY = 'viyvBrowserId'
+export const PROFILE_NAME_KEY = 'viyvProfileName'
+
+export async function getBrowserIdentity(): Promise<BrowserInfo> {
+  const stored = await chrome.storage.local.get([BROWSER_ID_KEY, PROFILE_NAME_KEY])
+  let browserId = stored[BROWSER_ID_KEY] as string | undefined
+  if (!browserId) {
+    browserId = crypto.randomUUID()
+    await chrome.storage.local.set({ [BROWSER_ID_KEY]: browserId })
+  }
+  const profileName = (stored[PROFILE_NAME_KEY] as string | undefined)?.trim()
+  return {
+    browserId,
+    profileName: profileName || undefined,
+    extensionVersion: chrome.runtime.getManifest().version,
+  }
+}
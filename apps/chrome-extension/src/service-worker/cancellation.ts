@@ -0,0 +1,82 @@
+/**
+ * Tool call cancellation.
+ * The MCP server sends `tool_cancel` when a client cancels a request. The matching
+ * AbortController is aborted so handlers stop waiting on tab listeners, page observers
+ * and CDP commands, and handleToolCall releases its TabLock right away.
+ */
+
+import { ViyvBrowserError } from '@viyv-browser/shared'
+
+const activeToolCalls = new Map<string, AbortController>()
+
+export function beginToolCall(requestId: string): AbortSignal {
+  const controller = new AbortController()
+  activeToolCalls.set(requestId, controller)
+  return controller.signal
+}
+
+export function endToolCall(requestId: string) {
+  activeToolCalls.delete(requestId)
+}
+
+export function isToolCallActive(requestId: string): boolean {
+  return activeToolCalls.has(requestId)
+}
+
+export function cancelToolCall(requestId: string): boolean {
+  const controller = activeToolCalls.get(requestId)
+  if (!controller) return false
+  activeToolCalls.delete(requestId)
+  controller.abort(cancelledError())
+  return true
+}
+
+export function cancelledError(): ViyvBrowserError {
+  return new ViyvBrowserError('CANCELLED', 'Tool call was cancelled')
+}
+
+/** Rejects as soon as `signal` aborts, without waiting for `promise` to settle */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise
+  return new Promise<T>((resolve, reject) => {
+    const removeAbortHandler = onAbort(signal, () => reject(signal.reason))
+    promise.then(
+      (value) => {
+        removeAbortHandler()
+        resolve(value)
+      },
+      (error) => {
+        removeAbortHandler()
+        reject(error)
+      },
+    )
+  })
+}
+
+/**
+ * Runs `cleanup` once when `signal` aborts (immediately if it already has).
+ * Returns a function that unregisters the handler.
+ */
+export function onAbort(signal: AbortSignal | undefined, cleanup: () => void): () => void {
+  if (!signal) return () => {}
+  if (signal.aborted) {
+    cleanup()
+    return () => {}
+  }
+  signal.addEventListener('abort', cleanup, { once: true })
+  return () => signal.removeEventListener('abort', cleanup)
+}
+
+/** Resolves after `ms`; rejects with CANCELLED when `signal` aborts first */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => {
+      removeAbortHandler()
+      resolve()
+    }, ms)
+    const removeAbortHandler = onAbort(signal, () => {
+      clearTimeout(timer)
+      reject(cancelledError())
+    })
+  })
+}
@@ -4,8 +4,8 @@
  * FIX #5: Atomic lock (Promise-based) for ensureAttached to prevent race conditions.
  */
 
-const CDP_COMMAND_TIMEOUT = 10_000
-const CDP_IDLE_DETACH_DELAY = 5_000
+import { ViyvBrowserError } from '@viyv-browser/shared'
+import { getSettings } from './settings'
 
 const attachedTabs = new Set<number>()
 const domainsEnabled = new Set<number>()
@@ -49,7 +49,11 @@ async function doAttach(tabId: number): Promise<void> {
       attachedTabs.add(tabId)
       return
     }
-    throw new Error(`Debugger attach failed for tab ${tabId}: ${message}`)
+    // Chrome allows a single debugger client per tab (e.g. DevTools)
+    const code = message.includes('Another debugger') ? 'DEBUGGER_IN_USE' : 'DEBUGGER_ATTACH_FAILED'
+    throw new ViyvBrowserError(code, `Debugger attach failed for tab ${tabId}: ${message}`, {
+      tabId,
+    })
   }
 }
 
@@ -69,23 +73,43 @@ export async function sendCdpCommand<T = unknown>(
   tabId: number,
   method: string,
   params?: Record<string, unknown>,
+  signal?: AbortSignal,
 ): Promise<T> {
+  signal?.throwIfAborted()
   await ensureAttached(tabId)
 
   // FIX #4: Increment active command count
   activeCommandCounts.set(tabId, (activeCommandCounts.get(tabId) ?? 0) + 1)
 
+  const commandTimeout = getSettings().timeouts.cdpCommand
   try {
     const result = await new Promise<T>((resolve, reject) => {
       const timer = setTimeout(() => {
-        reject(new Error(`CDP command '${method}' timed out after ${CDP_COMMAND_TIMEOUT}ms`))
-      }, CDP_COMMAND_TIMEOUT)
+        signal?.removeEventListener('abort', onAbort)
+        reject(
+          new ViyvBrowserError(
+            'TIMEOUT',
+            `CDP command '${method}' timed out after ${commandTimeout}ms`,
+            { tabId, method },
+          ),
+        )
+      }, commandTimeout)
+
+      // Cancelled tool call: stop awaiting (Chrome has no way to abort a sent command)
+      const onAbort = () => {
+        clearTimeout(timer)
+        reject(signal?.reason)
+      }
+      signal?.addEventListener('abort', onAbort, { once: true })
 
       chrome.debugger.sendCommand({ tabId }, method, params, (result) => {
         clearTimeout(timer)
+        signal?.removeEventListener('abort', onAbort)
         const error = chrome.runtime.lastError
         if (error) {
-          reject(new Error(`CDP error: ${error.message}`))
+          reject(
+            new ViyvBrowserError('CDP_ERROR', `CDP error: ${error.message}`, { tabId, method }),
+          )
         } else {
           resolve(result as T)
         }
@@ -139,7 +163,7 @@ function resetIdleTimer(tabId: number) {
     tabId,
     setTimeout(() => {
       detach(tabId)
-    }, CDP_IDLE_DETACH_DELAY),
+    }, getSettings().timeouts.cdpIdleDetach),
   )
 }
 
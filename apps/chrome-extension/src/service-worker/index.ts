@@ -1,4 +1,13 @@
-import { PROTOCOL_VERSION } from '@viyv-browser/shared'
+import {
+  BROWSER_EVENT_TYPES,
+  PROTOCOL_VERSION,
+  type ProtocolCapabilities,
+  type RuntimeSettings,
+  type ToolPolicy,
+  ViyvBrowserError,
+} from '@viyv-browser/shared'
+import { getBrowserIdentity } from './browser-identity'
+import { beginToolCall, cancelToolCall, endToolCall } from './cancellation'
 import { setupDialogHandler } from './dialog-handler'
 import { startKeepAlive } from './keep-alive'
 import {
@@ -7,10 +16,22 @@ import {
   isConnected,
   sendMessage,
   setMessageHandler,
+  setPeerCapabilities,
   setStatusHandler,
 } from './native-messaging'
-import { getAgentGroup, initTabManager, removeAgentGroup } from './tab-manager'
+import { setToolPolicy } from './permission-controller'
+import { createProgressReporter, noopProgress } from './progress'
+import {
+  type ToolResultMessage,
+  cacheToolResult,
+  completeToolCall,
+  resolveReplay,
+  trackToolCall,
+} from './request-replay'
+import { applySettings } from './settings'
+import { getAgentForTab, getAgentGroup, initTabManager, removeAgentGroup } from './tab-manager'
 import {
+  SUPPORTED_TOOLS,
   addConsoleMessage,
   addNetworkRequest,
   cleanupAgentState,
@@ -28,12 +49,21 @@ initTabManager().catch((err) => {
   console.warn('[viyv-browser:SW] Failed to restore tab manager state:', err)
 })
 
+// Advertised in the session_init reply; the MCP server only exposes these tools
+const CAPABILITIES: ProtocolCapabilities = {
+  tools: [...SUPPORTED_TOOLS],
+  chunking: true,
+  compression: false,
+  cancellation: true,
+  progress: true,
+  eventTypes: [...BROWSER_EVENT_TYPES],
+}
+
 // Connect native messaging at startup (auto-reconnect handles retries if host is not ready)
 connectNative()
 
 // ── Native Messaging ──
 
-// FIX #13: Wrap async handler to ensure SW stays alive during tool execution
 setMessageHandler((message) => {
   const msg = message as {
     id: string
@@ -41,46 +71,34 @@ setMessageHandler((message) => {
     agentId: string
     tool?: string
     input?: Record<string, unknown>
+    requestId?: string
+    reportProgress?: boolean
+    replay?: boolean
+    capabilities?: ProtocolCapabilities
+    settings?: RuntimeSettings
+    toolPolicy?: ToolPolicy
   }
 
   if (msg.type === 'tool_call' && msg.tool && msg.input) {
-    console.log(`[viyv-browser:SW] Tool call: ${msg.tool}`, msg.id)
-    // Use chrome.storage.session write to keep SW alive during async execution
-    const keepAlive = setInterval(() => {
-      chrome.storage.session.set({ _keepAlive: Date.now() }).catch(() => {})
-    }, 25_000)
-
-    handleToolCall(msg.agentId, msg.tool, msg.input)
-      .then((result) => {
-        try {
-          sendMessage({
-            id: msg.id,
-            type: 'tool_result',
-            agentId: msg.agentId,
-            ...result,
-            timestamp: Date.now(),
-          })
-        } catch (sendErr) {
-          console.warn('[viyv-browser:SW] Failed to send tool result:', sendErr)
-        }
-      })
-      .catch((error) => {
-        try {
-          sendMessage({
-            id: msg.id,
-            type: 'tool_result',
-            agentId: msg.agentId,
-            success: false,
-            error: { code: 'INTERNAL_ERROR', message: String(error) },
-            timestamp: Date.now(),
-          })
-        } catch (sendErr) {
-          console.warn('[viyv-browser:SW] Failed to send error result:', sendErr)
-        }
+    if (!msg.replay) {
+      runToolCall(msg as ToolCallMessage)
+      return
+    }
+    // Re-sent after a reconnect: never run a call twice
+    resolveReplay(msg.id, msg.agentId)
+      .then((decision) => {
+        console.log(`[viyv-browser:SW] Replayed tool call ${msg.id}: ${decision.action}`)
+        if (decision.action === 'run') runToolCall(msg as ToolCallMessage)
+        else if (decision.action === 'resend') sendToolResult(decision.message)
       })
-      .finally(() => {
-        clearInterval(keepAlive)
+      .catch((err) => {
+        console.warn('[viyv-browser:SW] Failed to resolve replayed tool call:', err)
       })
+  } else if (msg.type === 'tool_cancel' && msg.requestId) {
+    // MCP client cancelled the request: abort the in-flight handler
+    if (cancelToolCall(msg.requestId)) {
+      console.log(`[viyv-browser:SW] Tool call cancelled: ${msg.requestId}`)
+    }
   } else if (msg.type === 'session_init') {
     // NM3: Check protocol version compatibility
     const remoteVersion = (msg as Record<string, unknown>).protocolVersion as string | undefined
@@ -90,13 +108,26 @@ setMessageHandler((message) => {
       )
     }
     console.log(`[viyv-browser:SW] Session init: ${msg.agentId}`)
-    sendMessage({
-      id: msg.id,
-      type: 'session_init',
-      agentId: msg.agentId,
-      protocolVersion: PROTOCOL_VERSION,
-      timestamp: Date.now(),
-    })
+    setPeerCapabilities(msg.capabilities)
+    applySettings(msg.settings)
+    setToolPolicy(msg.toolPolicy)
+    // Identify this browser so the MCP server can keep several browsers connected
+    getBrowserIdentity()
+      .catch((err) => {
+        console.warn('[viyv-browser:SW] Failed to load browser identity:', err)
+        return undefined
+      })
+      .then((browser) => {
+        sendMessage({
+          id: msg.id,
+          type: 'session_init',
+          agentId: msg.agentId,
+          protocolVersion: PROTOCOL_VERSION,
+          browser,
+          capabilities: CAPABILITIES,
+          timestamp: Date.now(),
+        })
+      })
   } else if (msg.type === 'session_close') {
     // NH2: Clean up agent resources on session close
     // L5 FIX: Await cleanup before sending response to prevent race conditions
@@ -171,10 +202,37 @@ chrome.runtime.onMessage.addListener(
 
 // ── chrome.runtime.onConnect handler (NM1) ──
 
+// Ordering hint for the MCP server (which re-sequences events for poll cursors)
+let eventSequence = 0
+
 chrome.runtime.onConnect.addListener((port) => {
   if (port.name === 'viyv-event-observer') {
     port.onMessage.addListener((msg: unknown) => {
-      sendMessage(msg)
+      const event = msg as {
+        eventType?: string
+        data?: Record<string, unknown>
+        url?: string
+        timestamp?: number
+      }
+      if (!event?.eventType) return
+      const tabId = port.sender?.tab?.id ?? 0
+      const agentId =
+        (typeof event.data?.agentId === 'string' ? event.data.agentId : undefined) ??
+        getAgentForTab(tabId)
+      if (!agentId) return
+
+      // Wrap observer output as a NativeEvent
+      sendMessage({
+        id: crypto.randomUUID(),
+        type: 'browser_event',
+        agentId,
+        eventType: event.eventType,
+        payload: event.data ?? {},
+        tabId,
+        url: event.url ?? port.sender?.tab?.url ?? '',
+        timestamp: event.timestamp ?? Date.now(),
+        sequenceNumber: ++eventSequence,
+      })
     })
   }
 })
@@ -230,3 +288,64 @@ chrome.sidePanel.setPanelBehavior({ openPanelOnActionClick: false }).catch(() =>
 })
 
 console.log('[viyv-browser:SW] Service Worker initialized')
+
+// ── Tool calls ──
+
+interface ToolCallMessage {
+  id: string
+  agentId: string
+  tool: string
+  input: Record<string, unknown>
+  reportProgress?: boolean
+}
+
+// FIX #13: Wrap async handler to ensure SW stays alive during tool execution
+function runToolCall(msg: ToolCallMessage) {
+  console.log(`[viyv-browser:SW] Tool call: ${msg.tool}`, msg.id)
+  // Use chrome.storage.session write to keep SW alive during async execution
+  const keepAlive = setInterval(() => {
+    chrome.storage.session.set({ _keepAlive: Date.now() }).catch(() => {})
+  }, 25_000)
+
+  const context = {
+    signal: beginToolCall(msg.id),
+    progress: msg.reportProgress ? createProgressReporter(msg.id, msg.agentId) : noopProgress,
+  }
+  // Tracked in storage so a replay after a SW restart is not run a second time
+  trackToolCall(msg.id).catch(() => {})
+  handleToolCall(msg.agentId, msg.tool, msg.input, context)
+    .then((result) => {
+      sendToolResult({
+        id: msg.id,
+        type: 'tool_result',
+        agentId: msg.agentId,
+        ...result,
+        timestamp: Date.now(),
+      })
+    })
+    .catch((error) => {
+      sendToolResult({
+        id: msg.id,
+        type: 'tool_result',
+        agentId: msg.agentId,
+        success: false,
+        error: new ViyvBrowserError('INTERNAL_ERROR', String(error)).toJSON(),
+        timestamp: Date.now(),
+      })
+    })
+    .finally(() => {
+      clearInterval(keepAlive)
+      endToolCall(msg.id)
+      completeToolCall(msg.id).catch(() => {})
+    })
+}
+
+/** Sends a tool result and keeps it for replays (the connection may drop before it arrives) */
+function sendToolResult(message: ToolResultMessage) {
+  cacheToolResult(message)
+  try {
+    sendMessage(message)
+  } catch (sendErr) {
+    console.warn('[viyv-browser:SW] Failed to send tool result:', sendErr)
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * Resolves locator strings (see shared locator.ts) in the page at call time.
+ * The matched element gets a `loc_ref_N` ref (or keeps the ref read_page/find gave it), so
+ * handlers go on exactly as if the agent had passed that ref.
+ */
+
+import { type LocatorStep, ViyvBrowserError, parseLocator } from '@viyv-browser/shared'
+import { delay } from './cancellation'
+
+type ResolveResult =
+  | { ref: string; matches: number }
+  | { error: 'not_found'; step: number }
+  | { error: 'invalid'; step: number; message: string }
+  /** The page could not be scripted, e.g. while a navigation commits */
+  | { error: 'unavailable' }
+
+const POLL_INTERVAL = 200
+
+/** Resolves to the ref of the first match. Throws ELEMENT_NOT_FOUND when nothing matches. */
+export async function resolveLocator(tabId: number, locator: string): Promise<string> {
+  const result = await evaluateLocator(tabId, locator)
+  if ('ref' in result) return result.ref
+  throw resolveError(locator, result)
+}
+
+/**
+ * Polls until the locator matches, for wait_for. Resolves to the ref of the first match,
+ * or undefined after `timeout`. Polling goes on through navigations, so a wait right after
+ * a click that loads a new page sees that page.
+ */
+export async function waitForLocator(
+  tabId: number,
+  locator: string,
+  timeout: number,
+  signal?: AbortSignal,
+): Promise<string | undefined> {
+  const deadline = Date.now() + timeout
+  for (;;) {
+    signal?.throwIfAborted()
+    const result = await evaluateLocator(tabId, locator)
+    if ('ref' in result) return result.ref
+    if (result.error === 'invalid') throw resolveError(locator, result)
+    const remaining = deadline - Date.now()
+    if (remaining <= 0) return undefined
+    await delay(Math.min(POLL_INTERVAL, remaining), signal)
+  }
+}
+
+async function evaluateLocator(tabId: number, locator: string): Promise<ResolveResult> {
+  const steps = parseLocator(locator)
+  try {
+    const [injection] = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: resolveInPage,
+      args: [steps],
+    })
+    return (injection?.result as ResolveResult | undefined) ?? { error: 'unavailable' }
+  } catch (error) {
+    // A closed tab is not going to match; frames come and go while a page loads
+    if (String(error).includes('No tab with id')) throw error
+    return { error: 'unavailable' }
+  }
+}
+
+function resolveError(
+  locator: string,
+  result: Exclude<ResolveResult, { ref: string }>,
+): ViyvBrowserError {
+  if (result.error === 'invalid') {
+    return new ViyvBrowserError(
+      'INVALID_PARAMS',
+      `Invalid locator "${locator}": ${result.message}`,
+      { locator, step: result.step },
+    )
+  }
+  if (result.error === 'unavailable') {
+    return new ViyvBrowserError(
+      'ELEMENT_NOT_FOUND',
+      `No element matches locator "${locator}": the page is not ready (still loading?)`,
+      { locator },
+      'Wait for the page with wait_for, then retry.',
+    )
+  }
+  return new ViyvBrowserError(
+    'ELEMENT_NOT_FOUND',
+    `No element matches locator "${locator}"`,
+    { locator, step: result.step },
+    result.step > 0
+      ? `Nothing matched from part ${result.step + 1} on; check the parts after " >> ".`
+      : undefined,
+  )
+}
+
+/** Runs in the page; must be self-contained */
+function resolveInPage(steps: LocatorStep[]): ResolveResult {
+  const normalize = (value: string | null | undefined) => (value ?? '').replace(/\s+/g, ' ').trim()
+  const textMatches = (value: string | null | undefined, text: string, exact: boolean) => {
+    const actual = normalize(value)
+    return exact ? actual === text : actual.toLowerCase().includes(text.toLowerCase())
+  }
+  const isVisible = (el: Element) => el.checkVisibility({ visibilityProperty: true })
+
+  const implicitRole = (el: Element): string | null => {
+    const tag = el.tagName.toLowerCase()
+    if (/^h[1-6]$/.test(tag)) return 'heading'
+    switch (tag) {
+      case 'a':
+      case 'area':
+        return el.hasAttribute('href') ? 'link' : null
+      case 'button':
+      case 'summary':
+        return 'button'
+      case 'input': {
+        const type = (el.getAttribute('type') ?? 'text').toLowerCase()
+        const roles: Record<string, string> = {
+          button: 'button',
+          submit: 'button',
+          reset: 'button',
+          image: 'button',
+          checkbox: 'checkbox',
+          radio: 'radio',
+          range: 'slider',
+          number: 'spinbutton',
+          search: 'searchbox',
+        }
+        if (type === 'hidden' || type === 'file') return null
+        return roles[type] ?? (el.hasAttribute('list') ? 'combobox' : 'textbox')
+      }
+      case 'textarea':
+        return 'textbox'
+      case 'select':
+        return (el as HTMLSelectElement).multiple || (el as HTMLSelectElement).size > 1
+          ? 'listbox'
+          : 'combobox'
+      case 'option':
+        return 'option'
+      case 'img':
+        return el.getAttribute('alt') === '' ? 'presentation' : 'img'
+      case 'ul':
+      case 'ol':
+        return 'list'
+      case 'li':
+        return 'listitem'
+      case 'table':
+        return 'table'
+      case 'tr':
+        return 'row'
+      case 'td':
+        return 'cell'
+      case 'th':
+        return 'columnheader'
+      case 'nav':
+        return 'navigation'
+      case 'main':
+        return 'main'
+      case 'form':
+        return 'form'
+      case 'dialog':
+        return 'dialog'
+      case 'header':
+        return 'banner'
+      case 'footer':
+        return 'contentinfo'
+      case 'aside':
+        return 'complementary'
+      default:
+        return null
+    }
+  }
+  const roleOf = (el: Element) =>
+    el.getAttribute('role')?.trim().split(/\s+/)[0].toLowerCase() || implicitRole(el)
+
+  const labelledBy = (el: Element) => {
+    const ids = el.getAttribute('aria-labelledby')
+    if (!ids) return undefined
+    return ids
+      .split(/\s+/)
+      .map((id) => document.getElementById(id)?.textContent ?? '')
+      .join(' ')
+  }
+  const labelsOf = (el: Element): string[] => {
+    const labels = [labelledBy(el), el.getAttribute('aria-label')]
+    if ('labels' in el) {
+      for (const label of (el as HTMLInputElement).labels ?? []) labels.push(label.textContent)
+    }
+    return labels.filter((label): label is string => !!normalize(label))
+  }
+  const nameOf = (el: Element) => {
+    const [label] = labelsOf(el)
+    if (label) return label
+    if (el instanceof HTMLInputElement) {
+      if (['button', 'submit', 'reset'].includes(el.type)) return el.value
+      return el.placeholder || el.title
+    }
+    if (el instanceof HTMLImageElement) return el.alt || el.title
+    return el.textContent || el.getAttribute('title')
+  }
+
+  const candidates = (scope: Document | Element) => [...scope.querySelectorAll('*')]
+  const findIn = (scope: Document | Element, step: LocatorStep): Element[] => {
+    switch (step.engine) {
+      case 'css':
+        return [...scope.querySelectorAll(step.selector)]
+      case 'xpath': {
+        // parseLocator made chained xpath relative to the scope
+        const snapshot = document.evaluate(
+          step.selector,
+          scope,
+          null,
+          XPathResult.ORDERED_NODE_SNAPSHOT_TYPE,
+        )
+        const nodes: Element[] = []
+        for (let i = 0; i < snapshot.snapshotLength; i++) {
+          const node = snapshot.snapshotItem(i)
+          if (node instanceof Element) nodes.push(node)
+        }
+        return nodes
+      }
+      case 'text': {
+        // Innermost elements only: a match's ancestors contain the same text
+        const matchesText = (el: Element) =>
+          !['SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE'].includes(el.tagName) &&
+          (textMatches(el.textContent, step.text, step.exact) ||
+            (el instanceof HTMLInputElement &&
+              ['button', 'submit', 'reset'].includes(el.type) &&
+              textMatches(el.value, step.text, step.exact)))
+        return candidates(scope).filter(
+          (el) => matchesText(el) && ![...el.children].some(matchesText) && isVisible(el),
+        )
+      }
+      case 'label':
+        return candidates(scope).filter(
+          (el) =>
+            labelsOf(el).some((label) => textMatches(label, step.text, step.exact)) &&
+            isVisible(el),
+        )
+      case 'placeholder':
+        return [...scope.querySelectorAll('[placeholder]')].filter(
+          (el) =>
+            textMatches(el.getAttribute('placeholder'), step.text, step.exact) && isVisible(el),
+        )
+      case 'role':
+        return candidates(scope).filter(
+          (el) =>
+            roleOf(el) === step.role &&
+            (step.name === undefined || textMatches(nameOf(el), step.name, step.exact)) &&
+            isVisible(el),
+        )
+      default:
+        return []
+    }
+  }
+
+  let matches: Element[] = []
+  for (let index = 0; index < steps.length; index++) {
+    const step = steps[index]
+    if (step.engine === 'nth') {
+      const match = matches.at(step.index)
+      matches = match ? [match] : []
+    } else {
+      const scopes: Array<Document | Element> = index === 0 ? [document] : matches
+      const found = new Set<Element>()
+      try {
+        for (const scope of scopes) {
+          for (const el of findIn(scope, step)) found.add(el)
+        }
+      } catch (error) {
+        return { error: 'invalid', step: index, message: (error as Error).message }
+      }
+      matches = [...found]
+    }
+    if (matches.length === 0) return { error: 'not_found', step: index }
+  }
+
+  const el = matches[0] as HTMLElement
+  if (!el.dataset.viyvRef) {
+    const w = window as unknown as { __viyvLocatorRef?: number }
+    w.__viyvLocatorRef = (w.__viyvLocatorRef ?? 0) + 1
+    el.dataset.viyvRef = `loc_ref_${w.__viyvLocatorRef}`
+  }
+  return { ref: el.dataset.viyvRef, matches: matches.length }
+}
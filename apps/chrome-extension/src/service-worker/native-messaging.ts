@@ -1,3 +1,13 @@
+import {
+  type ChunkedMessage,
+  type ProtocolCapabilities,
+  TIMEOUTS,
+  ViyvBrowserError,
+  chunkMessage,
+  isChunkedMessage,
+  joinChunks,
+} from '@viyv-browser/shared'
+
 const NATIVE_HOST_NAME = 'com.viyv.browser'
 const RECONNECT_DELAYS = [1000, 2000, 4000, 8000, 16000, 30000]
 
@@ -10,6 +20,15 @@ let reconnectTimer: ReturnType<typeof setTimeout> | null = null
 let messageHandler: MessageHandler | null = null
 let statusHandler: StatusHandler | null = null
 
+// Whether the Native Host reassembles chunked messages (from the session_init capabilities)
+let peerSupportsChunking = true
+
+// Partially received chunked messages from the Native Host, by message ID
+const partialMessages = new Map<
+  string,
+  { chunks: ChunkedMessage[]; received: number; timer: ReturnType<typeof setTimeout> }
+>()
+
 export function setMessageHandler(handler: MessageHandler) {
   messageHandler = handler
 }
@@ -33,13 +52,18 @@ export function connect() {
       if (reconnectAttempt > 0) {
         reconnectAttempt = 0
       }
-      messageHandler?.(message)
+      if (isChunkedMessage(message)) {
+        receiveChunk(message)
+      } else {
+        messageHandler?.(message)
+      }
     })
 
     port.onDisconnect.addListener(() => {
       const error = chrome.runtime.lastError
       console.warn('[viyv-browser:SW] Native messaging disconnected:', error?.message)
       port = null
+      clearPartialMessages()
       statusHandler?.(false)
       scheduleReconnect()
     })
@@ -65,13 +89,39 @@ export function disconnect() {
   statusHandler?.(false)
 }
 
+/** Applies the capabilities the MCP server side advertised in session_init */
+export function setPeerCapabilities(capabilities: ProtocolCapabilities | undefined) {
+  // Hosts without capabilities predate chunked transfer
+  peerSupportsChunking = capabilities?.chunking ?? false
+}
+
 export function sendMessage(message: unknown): boolean {
   if (!port) {
     console.warn('[viyv-browser:SW] Cannot send message: port not connected')
     return false
   }
   try {
-    port.postMessage(message)
+    // Chrome rejects messages over 1MB: split them into chunks the Native Host reassembles
+    const msg = message as Record<string, unknown>
+    const chunks = chunkMessage(
+      JSON.stringify(message),
+      typeof msg.id === 'string' ? msg.id : crypto.randomUUID(),
+      typeof msg.agentId === 'string' ? msg.agentId : '',
+    )
+    if (chunks && !peerSupportsChunking) {
+      console.warn(
+        `[viyv-browser:SW] ${String(msg.type)} exceeds 1MB and the Native Host does not support chunking`,
+      )
+      return false
+    }
+    if (chunks) {
+      console.log(`[viyv-browser:SW] Sending ${String(msg.type)} in ${chunks.length} chunks`)
+      for (const chunk of chunks) {
+        port.postMessage(chunk)
+      }
+    } else {
+      port.postMessage(message)
+    }
     return true
   } catch (error) {
     console.warn('[viyv-browser:SW] sendMessage failed:', error)
@@ -95,3 +145,75 @@ function scheduleReconnect() {
     connect()
   }, delay)
 }
+
+/**
+ * Collects chunks of a message over the 1MB limit. The timeout restarts with every chunk;
+ * an incomplete or corrupt message is dropped and, if it was a tool call, answered with
+ * a CHUNK_REASSEMBLY_FAILED result.
+ */
+function receiveChunk(chunk: ChunkedMessage) {
+  const timer = setTimeout(
+    () =>
+      failChunkedMessage(
+        chunk,
+        new ViyvBrowserError(
+          'CHUNK_REASSEMBLY_FAILED',
+          `Timed out reassembling message ${chunk.requestId}`,
+          { requestId: chunk.requestId, totalChunks: chunk.totalChunks },
+        ),
+      ),
+    TIMEOUTS.CHUNK_REASSEMBLY,
+  )
+  let entry = partialMessages.get(chunk.requestId)
+  if (entry) {
+    clearTimeout(entry.timer)
+    entry.timer = timer
+  } else {
+    entry = { chunks: [], received: 0, timer }
+    partialMessages.set(chunk.requestId, entry)
+  }
+
+  if (chunk.chunkIndex < 0 || chunk.chunkIndex >= chunk.totalChunks) {
+    failChunkedMessage(
+      chunk,
+      new ViyvBrowserError('CHUNK_REASSEMBLY_FAILED', `Invalid chunk index ${chunk.chunkIndex}`, {
+        requestId: chunk.requestId,
+      }),
+    )
+    return
+  }
+  if (!entry.chunks[chunk.chunkIndex]) entry.received++
+  entry.chunks[chunk.chunkIndex] = chunk
+  if (entry.received < chunk.totalChunks) return
+
+  clearTimeout(entry.timer)
+  partialMessages.delete(chunk.requestId)
+  let message: Record<string, unknown>
+  try {
+    message = joinChunks(entry.chunks) as Record<string, unknown>
+  } catch (error) {
+    failChunkedMessage(chunk, error as ViyvBrowserError)
+    return
+  }
+  messageHandler?.(message)
+}
+
+function failChunkedMessage(chunk: ChunkedMessage, error: ViyvBrowserError) {
+  const entry = partialMessages.get(chunk.requestId)
+  if (entry) clearTimeout(entry.timer)
+  partialMessages.delete(chunk.requestId)
+  console.warn(`[viyv-browser:SW] ${error.message}`)
+  sendMessage({
+    id: chunk.requestId,
+    type: 'tool_result',
+    agentId: chunk.agentId,
+    success: false,
+    error: error.toJSON(),
+    timestamp: Date.now(),
+  })
+}
+
+function clearPartialMessages() {
+  for (const entry of partialMessages.values()) clearTimeout(entry.timer)
+  partialMessages.clear()
+}
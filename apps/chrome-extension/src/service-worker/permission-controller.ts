@@ -1,8 +1,11 @@
 /**
  * Simple permission controller for agent operations.
  * Side Panel UI can prompt user for approval on sensitive operations.
+ * Tools outside the MCP server's tool profile (session_init toolPolicy) are always refused.
  */
 
+import type { ToolPolicy } from '@viyv-browser/shared'
+
 type PermissionRequest = {
   id: string
   agentId: string
@@ -14,6 +17,20 @@ type PermissionRequest = {
 
 const pendingPermissions = new Map<string, PermissionRequest>()
 
+// Servers that predate tool profiles send none: every tool is allowed
+let toolPolicy: ToolPolicy | undefined
+
+/** Applies the tool profile of session_init */
+export function setToolPolicy(policy: ToolPolicy | undefined) {
+  toolPolicy = policy
+}
+
+/** Returns the server's profile when it excludes the tool, null when the tool is allowed */
+export function getExcludingProfile(tool: string): string | null {
+  if (!toolPolicy || toolPolicy.tools.includes(tool)) return null
+  return toolPolicy.profile
+}
+
 /** Auto-approve all for now; will integrate with Side Panel UI later */
 export async function checkPermission(
   _agentId: string,
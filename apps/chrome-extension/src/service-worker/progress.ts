@@ -0,0 +1,51 @@
+/**
+ * Tool progress reporting.
+ * Long-running tools report intermediate steps as `tool_progress` messages; the MCP server
+ * relays them as notifications/progress when the caller supplied a progressToken.
+ */
+
+import { sendMessage } from './native-messaging'
+
+export type ProgressReporter = (progress: number, total?: number, message?: string) => void
+
+/** Used when the MCP server did not ask for progress (no progressToken) */
+export const noopProgress: ProgressReporter = () => {}
+
+const ELAPSED_REPORT_INTERVAL = 2000
+
+export function createProgressReporter(requestId: string, agentId: string): ProgressReporter {
+  let lastProgress = Number.NEGATIVE_INFINITY
+  return (progress, total, message) => {
+    // MCP requires progress to increase with every notification
+    if (progress <= lastProgress) return
+    lastProgress = progress
+    sendMessage({
+      id: crypto.randomUUID(),
+      type: 'tool_progress',
+      agentId,
+      requestId,
+      progress,
+      total,
+      message,
+      timestamp: Date.now(),
+    })
+  }
+}
+
+/**
+ * Reports elapsed milliseconds (out of `timeout`) periodically while waiting.
+ * Returns a function that stops reporting.
+ */
+export function reportElapsed(
+  report: ProgressReporter,
+  timeout: number,
+  message: string,
+): () => void {
+  if (report === noopProgress) return () => {}
+  const startedAt = Date.now()
+  const timer = setInterval(() => {
+    const elapsed = Date.now() - startedAt
+    report(elapsed, timeout, `${message} (${Math.round(elapsed / 1000)}s elapsed)`)
+  }, ELAPSED_REPORT_INTERVAL)
+  return () => clearInterval(timer)
+}
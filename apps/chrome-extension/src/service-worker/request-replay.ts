@@ -0,0 +1,152 @@
+/**
+ * Idempotent replay of tool calls across brief native messaging disconnects.
+ * When the connection drops mid-call, the MCP server re-sends the same tool_call (same ID,
+ * `replay: true`) after the reconnect. A call must never run twice, so:
+ * - still running here → the result is sent once it is ready
+ * - finished → the cached result is sent again (it may have been lost with the connection)
+ * - finished, but the result is gone (evicted, or the SW restarted) → it fails instead
+ * - started before a service worker restart → its outcome is unknown, so it fails instead
+ *
+ * Request IDs, in flight and finished, are tracked in chrome.storage.session (survives SW
+ * restarts) and results in memory, all for as long as a replay can still arrive.
+ */
+
+import { LIMITS, ViyvBrowserError } from '@viyv-browser/shared'
+import { isToolCallActive } from './cancellation'
+import {
+  type CompletedRequest,
+  type PendingRequest,
+  loadSessionState,
+  updateSessionState,
+} from './session-state'
+import { getSettings } from './settings'
+
+const MAX_CACHED_RESULTS = 20
+// Request IDs are kept at least this long, whatever the settings
+const PENDING_TTL = 10 * 60_000
+
+export type ToolResultMessage = Record<string, unknown> & { id: string }
+
+const recentResults = new Map<string, { message: ToolResultMessage; expiresAt: number }>()
+
+export type ReplayDecision =
+  | { action: 'run' }
+  | { action: 'ignore' }
+  | { action: 'resend'; message: ToolResultMessage }
+
+/** Decides how to answer a replayed tool_call */
+export async function resolveReplay(requestId: string, agentId: string): Promise<ReplayDecision> {
+  if (isToolCallActive(requestId)) return { action: 'ignore' }
+
+  pruneResults()
+  const cached = recentResults.get(requestId)
+  if (cached) return { action: 'resend', message: cached.message }
+
+  const { pendingRequests, completedRequests } = await loadSessionState()
+  if (liveCompleted(completedRequests).some((entry) => entry.id === requestId)) {
+    return {
+      action: 'resend',
+      message: failedResult(
+        requestId,
+        agentId,
+        new ViyvBrowserError(
+          'INTERNAL_ERROR',
+          'This tool call already finished but its result was lost; it was not run again',
+          { requestId },
+          'Check the page state before calling the tool again.',
+        ),
+      ),
+    }
+  }
+  if (!livePending(pendingRequests).some((entry) => entry.id === requestId)) {
+    return { action: 'run' }
+  }
+
+  // Started by a previous service worker instance that died before finishing
+  await completeToolCall(requestId)
+  return {
+    action: 'resend',
+    message: failedResult(
+      requestId,
+      agentId,
+      new ViyvBrowserError(
+        'EXTENSION_SUSPENDED',
+        'The service worker restarted while this tool call was running; it was not retried to avoid running it twice',
+        { requestId },
+        'Check the page state before calling the tool again.',
+      ),
+    ),
+  }
+}
+
+export function trackToolCall(requestId: string): Promise<void> {
+  return updateSessionState(({ pendingRequests }) => ({
+    pendingRequests: [...livePending(pendingRequests), { id: requestId, startedAt: Date.now() }],
+  }))
+}
+
+/** Records that a call finished, so a replay arriving later is not run again */
+export function completeToolCall(requestId: string): Promise<void> {
+  return updateSessionState(({ pendingRequests, completedRequests }) => ({
+    pendingRequests: livePending(pendingRequests).filter((entry) => entry.id !== requestId),
+    completedRequests: [
+      ...liveCompleted(completedRequests),
+      { id: requestId, finishedAt: Date.now() },
+    ],
+  }))
+}
+
+/** Remembers a sent tool_result so a replay of the same request gets it again */
+export function cacheToolResult(message: ToolResultMessage) {
+  pruneResults()
+  recentResults.set(message.id, { message, expiresAt: Date.now() + replayWindow() })
+  // Map keeps insertion order: drop the oldest entries
+  while (recentResults.size > MAX_CACHED_RESULTS) {
+    const oldest = recentResults.keys().next().value
+    if (oldest === undefined) break
+    recentResults.delete(oldest)
+  }
+}
+
+/**
+ * How long after a call a replay of it can still arrive: the server times the call out (a batch
+ * may run longer than toolCall) and waits up to reconnectGrace for the Extension to come back.
+ */
+function replayWindow(): number {
+  const { toolCall, reconnectGrace } = getSettings().timeouts
+  return Math.max(PENDING_TTL, Math.max(toolCall, LIMITS.BATCH_MAX_DURATION) + reconnectGrace)
+}
+
+/** Drops calls that never finished here (e.g. the service worker died) and saw no replay */
+function livePending(pendingRequests: PendingRequest[] = []): PendingRequest[] {
+  const cutoff = Date.now() - replayWindow()
+  // Older versions stored bare IDs without a start time
+  return pendingRequests.filter((entry) => typeof entry === 'object' && entry.startedAt > cutoff)
+}
+
+function liveCompleted(completedRequests: CompletedRequest[] = []): CompletedRequest[] {
+  const cutoff = Date.now() - replayWindow()
+  return completedRequests.filter((entry) => entry.finishedAt > cutoff)
+}
+
+function failedResult(
+  requestId: string,
+  agentId: string,
+  error: ViyvBrowserError,
+): ToolResultMessage {
+  return {
+    id: requestId,
+    type: 'tool_result',
+    agentId,
+    success: false,
+    error: error.toJSON(),
+    timestamp: Date.now(),
+  }
+}
+
+function pruneResults() {
+  const now = Date.now()
+  for (const [id, entry] of recentResults) {
+    if (entry.expiresAt <= now) recentResults.delete(id)
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Resource change notifier.
+ * Tells the MCP server when tab-scoped data (console/network buffers, tab list, page content)
+ * changes, so it can fire notifications/resources/updated for subscribed clients.
+ * Notifications are throttled per agent + tab + resource to avoid flooding the socket.
+ */
+
+import type { ResourceKind } from '@viyv-browser/shared'
+import { sendMessage } from './native-messaging'
+
+const NOTIFY_THROTTLE_MS = 1000
+
+const pendingNotifications = new Map<string, ReturnType<typeof setTimeout>>()
+
+export function notifyResourceChanged(agentId: string, resource: ResourceKind, tabId?: number) {
+  const key = `${agentId}:${tabId ?? '*'}:${resource}`
+  if (pendingNotifications.has(key)) return
+
+  pendingNotifications.set(
+    key,
+    setTimeout(() => {
+      pendingNotifications.delete(key)
+      sendMessage({
+        id: crypto.randomUUID(),
+        type: 'resource_updated',
+        agentId,
+        resource,
+        tabId,
+        timestamp: Date.now(),
+      })
+    }, NOTIFY_THROTTLE_MS),
+  )
+}
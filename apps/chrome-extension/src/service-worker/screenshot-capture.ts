@@ -1,4 +1,5 @@
 import { sendCdpCommand } from './cdp-controller'
+import { getSettings } from './settings'
 
 interface CaptureResult {
   data: string
@@ -13,7 +14,8 @@ export async function captureScreenshot(
   },
 ): Promise<string> {
   const format = options?.format ?? 'jpeg'
-  const quality = format === 'jpeg' ? (options?.quality ?? 80) : undefined
+  const quality =
+    format === 'jpeg' ? (options?.quality ?? getSettings().screenshot.jpegQuality) : undefined
 
   const params: Record<string, unknown> = { format }
   if (quality !== undefined) params.quality = quality
@@ -2,7 +2,20 @@ interface SessionData {
   sessions: Record<string, StoredAgentSession>
   tabGroupMappings: Record<string, number>
   debuggerState: Record<number, string>
-  pendingRequests: string[]
+  pendingRequests: PendingRequest[]
+  completedRequests: CompletedRequest[]
+}
+
+/** Tool call in flight, kept for replay decisions until it finishes or expires */
+export interface PendingRequest {
+  id: string
+  startedAt: number
+}
+
+/** Finished tool call, kept so a late replay is never run again */
+export interface CompletedRequest {
+  id: string
+  finishedAt: number
 }
 
 interface StoredAgentSession {
@@ -17,11 +30,24 @@ interface StoredAgentSession {
 
 const STORAGE_KEY = 'viyvBrowserSession'
 
-export async function saveSessionState(data: Partial<SessionData>): Promise<void> {
-  const existing = await loadSessionState()
-  await chrome.storage.session.set({
-    [STORAGE_KEY]: { ...existing, ...data },
+// Read-modify-write updates run one at a time so concurrent writers don't drop each other's fields
+let writeQueue: Promise<void> = Promise.resolve()
+
+export function saveSessionState(data: Partial<SessionData>): Promise<void> {
+  return updateSessionState(() => data)
+}
+
+export function updateSessionState(
+  update: (existing: SessionData) => Partial<SessionData>,
+): Promise<void> {
+  const write = writeQueue.then(async () => {
+    const existing = await loadSessionState()
+    await chrome.storage.session.set({
+      [STORAGE_KEY]: { ...existing, ...update(existing) },
+    })
   })
+  writeQueue = write.catch(() => {})
+  return write
 }
 
 export async function loadSessionState(): Promise<SessionData> {
@@ -32,6 +58,7 @@ export async function loadSessionState(): Promise<SessionData> {
       tabGroupMappings: {},
       debuggerState: {},
       pendingRequests: [],
+      completedRequests: [],
     }
   )
 }
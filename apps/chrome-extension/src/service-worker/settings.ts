@@ -0,0 +1,21 @@
+/**
+ * Timeouts and limits from the user's config file, pushed by the MCP server in session_init.
+ * Defaults apply until then, and for servers that predate settings.
+ */
+
+import { DEFAULT_SETTINGS, type RuntimeSettings } from '@viyv-browser/shared'
+
+let settings: RuntimeSettings = DEFAULT_SETTINGS
+
+export function getSettings(): RuntimeSettings {
+  return settings
+}
+
+/** Applies the settings of session_init; values the server does not send keep their defaults */
+export function applySettings(received: Partial<RuntimeSettings> | undefined) {
+  settings = {
+    timeouts: { ...DEFAULT_SETTINGS.timeouts, ...received?.timeouts },
+    limits: { ...DEFAULT_SETTINGS.limits, ...received?.limits },
+    screenshot: { ...DEFAULT_SETTINGS.screenshot, ...received?.screenshot },
+  }
+}
@@ -1,4 +1,7 @@
+import { ViyvBrowserError } from '@viyv-browser/shared'
+import { notifyResourceChanged } from './resource-notifier'
 import { loadSessionState, saveSessionState } from './session-state'
+import { getSettings } from './settings'
 
 type TabGroupColor = chrome.tabGroups.ColorEnum
 
@@ -36,7 +39,11 @@ interface TabLockInfo {
 
 const tabLocks = new Map<number, TabLockInfo>()
 
-export function acquireTabLock(agentId: string, tabId: number, ttl = 60_000): boolean {
+export function acquireTabLock(
+  agentId: string,
+  tabId: number,
+  ttl = getSettings().timeouts.tabLock,
+): boolean {
   const existing = tabLocks.get(tabId)
   if (existing) {
     if (Date.now() - existing.acquiredAt > existing.ttl) {
@@ -125,7 +132,9 @@ export async function assignTabGroup(
 
   const color = selectColor(preferredColor)
   const tab = await chrome.tabs.create({ active: false })
-  if (tab.id === undefined) throw new Error('Tab creation failed: no tab ID')
+  if (tab.id === undefined) {
+    throw new ViyvBrowserError('INTERNAL_ERROR', 'Tab creation failed: no tab ID')
+  }
   const groupId = await chrome.tabs.group({ tabIds: tab.id })
   await chrome.tabGroups.update(groupId, { title: agentName, color })
 
@@ -140,15 +149,25 @@ export async function assignTabGroup(
   agentGroups.set(agentId, group)
   tabToAgent.set(tab.id, agentId)
   persistGroups()
+  notifyResourceChanged(agentId, 'tabs')
   return group
 }
 
 export async function createTabInGroup(agentId: string, url?: string): Promise<number> {
   let group = agentGroups.get(agentId)
-  if (!group) throw new Error(`No tab group for agent ${agentId}`)
+  if (!group) {
+    throw new ViyvBrowserError(
+      'TAB_NOT_FOUND',
+      `No tab group for agent ${agentId}`,
+      { agentId },
+      'Call tabs_context with createIfEmpty: true to create the tab group first.',
+    )
+  }
 
   const tab = await chrome.tabs.create({ url, active: false })
-  if (tab.id === undefined) throw new Error('Tab creation failed: no tab ID')
+  if (tab.id === undefined) {
+    throw new ViyvBrowserError('INTERNAL_ERROR', 'Tab creation failed: no tab ID')
+  }
 
   try {
     await chrome.tabs.group({ tabIds: tab.id, groupId: group.groupId })
@@ -163,18 +182,24 @@ export async function createTabInGroup(agentId: string, url?: string): Promise<n
   group.tabs.add(tab.id)
   tabToAgent.set(tab.id, agentId)
   persistGroups()
+  notifyResourceChanged(agentId, 'tabs')
   return tab.id
 }
 
 export async function closeTab(agentId: string, tabId: number): Promise<void> {
   const group = agentGroups.get(agentId)
   if (!group || !group.tabs.has(tabId)) {
-    throw new Error(`Tab ${tabId} does not belong to agent ${agentId}`)
+    throw new ViyvBrowserError(
+      'TAB_ACCESS_DENIED',
+      `Tab ${tabId} does not belong to agent ${agentId}`,
+      { tabId, agentId },
+    )
   }
   await chrome.tabs.remove(tabId)
   group.tabs.delete(tabId)
   tabToAgent.delete(tabId)
   persistGroups()
+  notifyResourceChanged(agentId, 'tabs')
 }
 
 export function getAgentForTab(tabId: number): string | undefined {
@@ -241,5 +266,14 @@ chrome.tabs.onRemoved.addListener((tabId) => {
     tabToAgent.delete(tabId)
     tabLocks.delete(tabId)
     persistGroups()
+    notifyResourceChanged(agentId, 'tabs')
   }
 })
+
+// Track URL/title changes and page loads of agent tabs (tab list + page content resources)
+chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+  const agentId = tabToAgent.get(tabId)
+  if (!agentId) return
+  if (changeInfo.url || changeInfo.title) notifyResourceChanged(agentId, 'tabs')
+  if (changeInfo.status === 'complete') notifyResourceChanged(agentId, 'a11y', tabId)
+})
@@ -1,7 +1,23 @@
+import {
+  type BatchInput,
+  type BatchStep,
+  type ErrorPayload,
+  LIMITS,
+  type ToolPageContext,
+  ViyvBrowserError,
+  batchDuration,
+  parseToolInput,
+} from '@viyv-browser/shared'
+import { waitForActionable } from './actionability'
+import { abortable, cancelledError, delay, onAbort } from './cancellation'
 import { sendCdpCommand } from './cdp-controller'
 import { getPendingDialog, handleDialog } from './dialog-handler'
-import { checkPermission } from './permission-controller'
+import { resolveLocator, waitForLocator } from './locator'
+import { checkPermission, getExcludingProfile } from './permission-controller'
+import { type ProgressReporter, noopProgress, reportElapsed } from './progress'
+import { notifyResourceChanged } from './resource-notifier'
 import { captureScreenshot } from './screenshot-capture'
+import { getSettings } from './settings'
 import { getShortcuts } from './shortcut-registry'
 import {
   acquireTabLock,
@@ -9,36 +25,54 @@ import {
   cleanupStaleTabs,
   closeTab,
   createTabInGroup,
+  getAgentForTab,
   getAgentGroup,
   isTabInAgentGroup,
   listAgentGroups,
   releaseTabLock,
 } from './tab-manager'
 
-type ToolResult =
+type ToolResult = (
   | { success: true; result: Record<string, unknown> }
-  | { success: false; error: { code: string; message: string } }
+  | { success: false; error: ErrorPayload }
+) & { page?: ToolPageContext }
+
+/** Per-call state threaded to handlers of long-running tools */
+export interface ToolCallContext {
+  /** Aborted when the MCP server sends tool_cancel */
+  signal?: AbortSignal
+  /** Reports tool_progress (no-op unless the caller asked for progress) */
+  progress: ProgressReporter
+}
 
 // FIX #11: Sanitize ref IDs to prevent CSS selector injection via DOM attribute manipulation
-const REF_PATTERN = /^(find_|page_)?ref_\d+$/
+const REF_PATTERN = /^(find_|page_|loc_)?ref_\d+$/
 function sanitizeRef(ref: string): string {
   if (!REF_PATTERN.test(ref)) {
-    throw new Error(`Invalid element ref format: ${ref}`)
+    throw new ViyvBrowserError('INVALID_PARAMS', `Invalid element ref format: ${ref}`, { ref })
   }
   return ref
 }
 
+/** Ref of the element a tool targets: the locator's match, else the given ref */
+async function resolveRef(
+  tabId: number,
+  input: Record<string, unknown>,
+): Promise<string | undefined> {
+  if (input.locator) return sanitizeRef(await resolveLocator(tabId, input.locator as string))
+  return input.ref ? sanitizeRef(input.ref as string) : undefined
+}
+
 // BUG-2 FIX: Screenshot storage for upload_image imageId lookup
 // M2 FIX: Reduced limit to 10 to keep Service Worker memory under ~8MB
 const screenshotStore = new Map<string, string>()
 let screenshotCounter = 0
-const MAX_STORED_SCREENSHOTS = 10
 
 function storeScreenshot(data: string): string {
   const id = `screenshot_${++screenshotCounter}_${Date.now()}`
   screenshotStore.set(id, data)
   // Evict oldest entries to stay within limit
-  while (screenshotStore.size > MAX_STORED_SCREENSHOTS) {
+  while (screenshotStore.size > getSettings().limits.storedScreenshots) {
     const oldest = screenshotStore.keys().next().value
     if (oldest) screenshotStore.delete(oldest)
     else break
@@ -67,11 +101,14 @@ function parseModifiers(modifiers?: string): number {
   return mask
 }
 
-function tabAccessCheck(agentId: string, tabId: number): string | null {
+function assertTabAccess(agentId: string, tabId: number) {
   if (!isTabInAgentGroup(agentId, tabId)) {
-    return `Tab ${tabId} does not belong to agent ${agentId}`
+    throw new ViyvBrowserError(
+      'TAB_ACCESS_DENIED',
+      `Tab ${tabId} does not belong to agent ${agentId}`,
+      { tabId, agentId },
+    )
   }
-  return null
 }
 
 // NM4: Tools that require CDP and need TabLock
@@ -95,147 +132,192 @@ const CDP_TOOLS = new Set([
   'gif_creator',
   'artifact_from_page',
   'page_data_extract',
+  'batch',
 ])
 
+type ToolHandler = (
+  agentId: string,
+  input: Record<string, unknown>,
+  context: ToolCallContext,
+) => Promise<Record<string, unknown>>
+
+/** Handler of each tool dispatchTool executes */
+const TOOL_HANDLERS = new Map<string, ToolHandler>([
+  ['navigate', handleNavigate],
+  ['screenshot', handleScreenshot],
+  ['click', handleClick],
+  ['type', handleType],
+  ['key', handleKey],
+  ['scroll', handleScroll],
+  ['hover', handleHover],
+  ['drag', handleDrag],
+  ['read_page', handleReadPage],
+  ['find', handleFind],
+  ['form_input', handleFormInput],
+  ['javascript_exec', handleJavaScriptExec],
+  ['wait_for', handleWaitFor],
+  ['get_page_text', handleGetPageText],
+  ['handle_dialog', handleHandleDialog],
+  ['tabs_context', handleTabsContext],
+  ['tabs_create', handleTabsCreate],
+  ['tab_close', handleTabClose],
+  ['select_tab', handleSelectTab],
+  ['read_console_messages', handleReadConsoleMessages],
+  ['read_network_requests', handleReadNetworkRequests],
+  ['resize_window', handleResizeWindow],
+  ['agent_tab_assign', handleAgentTabAssign],
+  ['agent_tab_list', handleAgentTabList],
+  ['browser_health', handleBrowserHealth],
+  ['gif_creator', handleGifCreator],
+  ['upload_image', handleUploadImage],
+  ['update_plan', handleUpdatePlan],
+  ['browser_event_subscribe', handleBrowserEventSubscribe],
+  ['browser_event_unsubscribe', handleBrowserEventUnsubscribe],
+  ['artifact_from_page', handleArtifactFromPage],
+  ['page_data_extract', handlePageDataExtract],
+  ['shortcuts_list', handleShortcutsList],
+  ['shortcuts_execute', handleShortcutsExecute],
+  ['batch', handleBatch],
+])
+
+/** Advertised to the MCP server in session_init */
+export const SUPPORTED_TOOLS: readonly string[] = [...TOOL_HANDLERS.keys()]
+
 export async function handleToolCall(
   agentId: string,
   tool: string,
-  input: Record<string, unknown>,
+  rawInput: Record<string, unknown>,
+  context: ToolCallContext = { progress: noopProgress },
 ): Promise<ToolResult> {
-  // NM5: Permission check before dispatching
-  const permitted = await checkPermission(agentId, tool, input)
-  if (!permitted) {
-    return {
-      success: false,
-      error: { code: 'PERMISSION_DENIED', message: `Permission denied for tool '${tool}'` },
-    }
+  // Input from the Native Host is untrusted: check it against the shared schemas before anything
+  let input: Record<string, unknown>
+  try {
+    input = parseToolInput(tool, rawInput)
+  } catch (error) {
+    return { success: false, error: toErrorPayload(error) }
   }
 
+  const denied = await checkToolAccess(agentId, tool, input)
+  if (denied) return { success: false, error: denied }
+
   // NM4: Acquire TabLock for CDP tools
   const tabId = typeof input.tabId === 'number' ? input.tabId : undefined
   const needsLock = tabId !== undefined && CDP_TOOLS.has(tool)
-  if (needsLock && !acquireTabLock(agentId, tabId)) {
+  if (needsLock && !acquireTabLock(agentId, tabId, lockTtl(tool, input))) {
     return {
       success: false,
-      error: { code: 'TAB_LOCKED', message: `Tab ${tabId} is locked by another agent` },
+      error: new ViyvBrowserError('TAB_LOCKED', `Tab ${tabId} is locked by another agent`, {
+        tabId,
+      }).toJSON(),
     }
   }
 
+  // URL before/after the call goes into the MCP server's audit trail
+  const urlBefore = tabId !== undefined ? await getTabUrl(tabId) : undefined
+  let outcome: ToolResult
   try {
-    const result = await dispatchTool(agentId, tool, input)
-    return { success: true, result }
+    // Stop awaiting on cancellation so the TabLock is released immediately
+    const result = await abortable(dispatchTool(agentId, tool, input, context), context.signal)
+    outcome = { success: true, result }
   } catch (error) {
-    const message = error instanceof Error ? error.message : String(error)
-    const code = inferErrorCode(message)
-    return { success: false, error: { code, message } }
+    outcome = { success: false, error: toErrorPayload(error) }
   } finally {
     // NM4: Release TabLock after execution
     // BUG-6 FIX: tabId is guaranteed to be number when needsLock is true
     if (needsLock && tabId !== undefined) releaseTabLock(agentId, tabId)
   }
+
+  // tabs_create reports the new tab in its result
+  const resultTabId = outcome.success ? outcome.result.tabId : undefined
+  const pageTabId = tabId ?? (typeof resultTabId === 'number' ? resultTabId : undefined)
+  if (pageTabId === undefined) return outcome
+  return { ...outcome, page: { tabId: pageTabId, urlBefore, urlAfter: await getTabUrl(pageTabId) } }
+}
+
+/** A batch holds the tab for as long as its steps may take, not the default TTL */
+function lockTtl(tool: string, input: Record<string, unknown>): number | undefined {
+  if (tool !== 'batch') return undefined
+  const { timeouts } = getSettings()
+  const duration = batchDuration(input as BatchInput, timeouts)
+  return Math.max(timeouts.tabLock, Math.min(duration, LIMITS.BATCH_MAX_DURATION))
+}
+
+/** Returns why the agent may not run the tool, or null when it may */
+async function checkToolAccess(
+  agentId: string,
+  tool: string,
+  input: Record<string, unknown>,
+): Promise<ErrorPayload | null> {
+  // The MCP server's tool profile applies whoever sends the call
+  const excludingProfile = getExcludingProfile(tool)
+  if (excludingProfile !== null) {
+    return new ViyvBrowserError(
+      'PERMISSION_DENIED',
+      `Tool '${tool}' is not enabled by the MCP server's tool profile (${excludingProfile})`,
+      { tool, profile: excludingProfile },
+    ).toJSON()
+  }
+
+  // NM5: Permission check before dispatching
+  const permitted = await checkPermission(agentId, tool, input)
+  if (!permitted) {
+    return new ViyvBrowserError('PERMISSION_DENIED', `Permission denied for tool '${tool}'`, {
+      tool,
+    }).toJSON()
+  }
+  return null
+}
+
+async function getTabUrl(tabId: number): Promise<string | undefined> {
+  try {
+    return (await chrome.tabs.get(tabId)).url
+  } catch {
+    // Tab closed or never existed
+    return undefined
+  }
 }
 
 async function dispatchTool(
   agentId: string,
   tool: string,
   input: Record<string, unknown>,
+  context: ToolCallContext,
 ): Promise<Record<string, unknown>> {
   // Basic tabId validation
   if ('tabId' in input) {
     const tabId = input.tabId
     if (typeof tabId !== 'number' || !Number.isFinite(tabId) || tabId < 0) {
-      throw new Error(`Invalid tabId: ${tabId}`)
+      throw new ViyvBrowserError('INVALID_PARAMS', `Invalid tabId: ${tabId}`, { tabId })
     }
   }
 
-  switch (tool) {
-    case 'navigate':
-      return handleNavigate(agentId, input)
-    case 'screenshot':
-      return handleScreenshot(agentId, input)
-    case 'click':
-      return handleClick(agentId, input)
-    case 'type':
-      return handleType(agentId, input)
-    case 'key':
-      return handleKey(agentId, input)
-    case 'scroll':
-      return handleScroll(agentId, input)
-    case 'hover':
-      return handleHover(agentId, input)
-    case 'drag':
-      return handleDrag(agentId, input)
-    case 'read_page':
-      return handleReadPage(agentId, input)
-    case 'find':
-      return handleFind(agentId, input)
-    case 'form_input':
-      return handleFormInput(agentId, input)
-    case 'javascript_exec':
-      return handleJavaScriptExec(agentId, input)
-    case 'wait_for':
-      return handleWaitFor(agentId, input)
-    case 'get_page_text':
-      return handleGetPageText(agentId, input)
-    case 'handle_dialog':
-      return handleHandleDialog(agentId, input)
-    case 'tabs_context':
-      return handleTabsContext(agentId, input)
-    case 'tabs_create':
-      return handleTabsCreate(agentId, input)
-    case 'tab_close':
-      return handleTabClose(agentId, input)
-    case 'select_tab':
-      return handleSelectTab(agentId, input)
-    case 'read_console_messages':
-      return handleReadConsoleMessages(agentId, input)
-    case 'read_network_requests':
-      return handleReadNetworkRequests(agentId, input)
-    case 'resize_window':
-      return handleResizeWindow(agentId, input)
-    case 'agent_tab_assign':
-      return handleAgentTabAssign(agentId, input)
-    case 'agent_tab_list':
-      return handleAgentTabList()
-    case 'browser_health':
-      return handleBrowserHealth(agentId)
-    case 'gif_creator':
-      return handleGifCreator(agentId, input)
-    case 'upload_image':
-      return handleUploadImage(agentId, input)
-    case 'update_plan':
-      return handleUpdatePlan(agentId, input)
-    case 'browser_event_subscribe':
-      return handleBrowserEventSubscribe(agentId, input)
-    case 'browser_event_unsubscribe':
-      return handleBrowserEventUnsubscribe(agentId, input)
-    case 'artifact_from_page':
-      return handleArtifactFromPage(agentId, input)
-    case 'page_data_extract':
-      return handlePageDataExtract(agentId, input)
-    case 'shortcuts_list':
-      return handleShortcutsList()
-    case 'shortcuts_execute':
-      return handleShortcutsExecute(agentId, input)
-    default:
-      throw new Error(`Unknown tool: ${tool}`)
-  }
+  const handler = TOOL_HANDLERS.get(tool)
+  if (!handler) throw new ViyvBrowserError('UNKNOWN_TOOL', `Unknown tool: ${tool}`, { tool })
+  return handler(agentId, input, context)
 }
 
 // ── Core Tools ──
 
-async function handleNavigate(agentId: string, input: Record<string, unknown>) {
+async function handleNavigate(
+  agentId: string,
+  input: Record<string, unknown>,
+  { signal, progress }: ToolCallContext,
+) {
   const tabId = input.tabId as number
   const url = input.url as string
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
 
   // Validate URL scheme
   if (url !== 'back' && url !== 'forward') {
     try {
       const parsed = new URL(url)
       if (!['http:', 'https:'].includes(parsed.protocol)) {
-        throw new Error(`Unsupported URL scheme: ${parsed.protocol}`)
+        throw new ViyvBrowserError(
+          'INVALID_PARAMS',
+          `Unsupported URL scheme: ${parsed.protocol}`,
+          { url },
+          'Only http: and https: URLs (or "back"/"forward") can be opened.',
+        )
       }
     } catch (e) {
       if (e instanceof TypeError) {
@@ -245,39 +327,83 @@ async function handleNavigate(agentId: string, input: Record<string, unknown>) {
   }
 
   // FIX #3: Register listener BEFORE triggering navigation to avoid race condition
+  const stopNavigationProgress = trackNavigationProgress(tabId, progress)
   const navigationComplete = new Promise<void>((resolve) => {
     const listener = (id: number, info: chrome.tabs.TabChangeInfo) => {
       if (id === tabId && info.status === 'complete') {
         chrome.tabs.onUpdated.removeListener(listener)
         clearTimeout(timer)
+        removeAbortHandler()
         resolve()
       }
     }
     const timer = setTimeout(() => {
       chrome.tabs.onUpdated.removeListener(listener)
+      removeAbortHandler()
       resolve()
-    }, 30_000)
+    }, getSettings().timeouts.navigation)
     chrome.tabs.onUpdated.addListener(listener)
+    // Cancelled: detach the listener and stop waiting
+    const removeAbortHandler = onAbort(signal, () => {
+      chrome.tabs.onUpdated.removeListener(listener)
+      clearTimeout(timer)
+      resolve()
+    })
   })
 
-  if (url === 'back') {
-    await chrome.tabs.goBack(tabId)
-  } else if (url === 'forward') {
-    await chrome.tabs.goForward(tabId)
-  } else {
-    await chrome.tabs.update(tabId, { url })
-  }
+  progress(1, NAVIGATION_STAGES, `Navigating to ${url}`)
+  try {
+    if (url === 'back') {
+      await chrome.tabs.goBack(tabId)
+    } else if (url === 'forward') {
+      await chrome.tabs.goForward(tabId)
+    } else {
+      await chrome.tabs.update(tabId, { url })
+    }
 
-  await navigationComplete
+    await navigationComplete
+  } finally {
+    stopNavigationProgress()
+  }
+  signal?.throwIfAborted()
+  progress(NAVIGATION_STAGES, NAVIGATION_STAGES, 'Page load complete')
 
   const tab = await chrome.tabs.get(tabId)
   return { url: tab.url, title: tab.title }
 }
 
+// Progress stages of a navigation: started, committed, DOMContentLoaded, load complete
+const NAVIGATION_STAGES = 4
+
+/**
+ * Reports main-frame navigation milestones of a tab as tool progress.
+ * Returns a function that removes the webNavigation listeners.
+ */
+function trackNavigationProgress(tabId: number, progress: ProgressReporter): () => void {
+  if (progress === noopProgress) return () => {}
+
+  const onCommitted = (details: chrome.webNavigation.WebNavigationTransitionCallbackDetails) => {
+    if (details.tabId === tabId && details.frameId === 0) {
+      progress(2, NAVIGATION_STAGES, `Navigation committed: ${details.url}`)
+    }
+  }
+  const onDomContentLoaded = (details: chrome.webNavigation.WebNavigationFramedCallbackDetails) => {
+    if (details.tabId === tabId && details.frameId === 0) {
+      progress(3, NAVIGATION_STAGES, 'DOMContentLoaded')
+    }
+  }
+  chrome.webNavigation.onCommitted.addListener(onCommitted)
+  chrome.webNavigation.onDOMContentLoaded.addListener(onDomContentLoaded)
+
+  return () => {
+    chrome.webNavigation.onCommitted.removeListener(onCommitted)
+    chrome.webNavigation.onDOMContentLoaded.removeListener(onDomContentLoaded)
+  }
+}
+
 async function handleScreenshot(agentId: string, input: Record<string, unknown>) {
   const tabId = input.tabId as number
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
 
   const region = input.region as [number, number, number, number] | undefined
   const data = await captureScreenshot(tabId, {
@@ -300,61 +426,67 @@ async function handleScreenshot(agentId: string, input: Record<string, unknown>)
   return { data, format: input.format ?? 'jpeg', imageId }
 }
 
-async function handleClick(agentId: string, input: Record<string, unknown>) {
+async function handleClick(
+  agentId: string,
+  input: Record<string, unknown>,
+  { signal }: ToolCallContext,
+) {
   const tabId = input.tabId as number
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
+  const action = (input.action as string) ?? 'left_click'
+  const modifiers = parseModifiers(input.modifiers as string)
 
-  if (input.ref) {
-    // Click via content script using element ref
-    const ref = sanitizeRef(input.ref as string)
-    const [result] = await chrome.scripting.executeScript({
-      target: { tabId },
-      func: (r: string) => {
-        const el = document.querySelector(`[data-viyv-ref="${r}"]`) as HTMLElement
-        if (!el) return { error: `Element ref ${r} not found` }
-        el.click()
-        return { clicked: true }
-      },
-      args: [ref],
-    })
-    const clickResult = result.result as Record<string, unknown>
-    if (clickResult?.error) throw new Error(String(clickResult.error))
-    return clickResult
+  const ref = await resolveRef(tabId, input)
+  if (ref) {
+    // Click the element's center once it is in view, stable and not covered
+    const { x, y } = await waitForActionable(
+      tabId,
+      ref,
+      getSettings().timeouts.actionability,
+      signal,
+    )
+    await dispatchClick(tabId, [x, y], action, modifiers)
+    return { clicked: true, ref, coordinate: [x, y] }
   }
 
-  // Click via CDP at coordinates
-  const coord = input.coordinate as [number, number]
-  const action = (input.action as string) ?? 'left_click'
+  const coord = input.coordinate as [number, number] | undefined
+  if (!coord) {
+    throw new ViyvBrowserError(
+      'INVALID_PARAMS',
+      'One of "locator", "ref" or "coordinate" must be specified',
+    )
+  }
+  await dispatchClick(tabId, coord, action, modifiers)
+  return { clicked: true, coordinate: coord }
+}
+
+/** Moves the mouse to the point, then presses and releases the button there */
+async function dispatchClick(
+  tabId: number,
+  [x, y]: [number, number],
+  action: string,
+  modifiers: number,
+) {
   const button = action === 'right_click' ? 'right' : 'left'
   const clickCount = action === 'double_click' ? 2 : action === 'triple_click' ? 3 : 1
-  const modifiers = parseModifiers(input.modifiers as string)
 
-  await sendCdpCommand(tabId, 'Input.dispatchMouseEvent', {
-    type: 'mousePressed',
-    x: coord[0],
-    y: coord[1],
-    button,
-    clickCount,
-    modifiers,
-  })
-  await sendCdpCommand(tabId, 'Input.dispatchMouseEvent', {
-    type: 'mouseReleased',
-    x: coord[0],
-    y: coord[1],
-    button,
-    clickCount,
-    modifiers,
-  })
-
-  return { clicked: true, coordinate: coord }
+  await sendCdpCommand(tabId, 'Input.dispatchMouseEvent', { type: 'mouseMoved', x, y, modifiers })
+  for (const type of ['mousePressed', 'mouseReleased']) {
+    await sendCdpCommand(tabId, 'Input.dispatchMouseEvent', {
+      type,
+      x,
+      y,
+      button,
+      clickCount,
+      modifiers,
+    })
+  }
 }
 
 async function handleType(agentId: string, input: Record<string, unknown>) {
   const tabId = input.tabId as number
   const text = input.text as string
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
 
   await sendCdpCommand(tabId, 'Input.insertText', { text })
   return { typed: text.length }
@@ -364,8 +496,7 @@ async function handleKey(agentId: string, input: Record<string, unknown>) {
   const tabId = input.tabId as number
   const keys = input.keys as string
   const repeat = (input.repeat as number) ?? 1
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
 
   for (let i = 0; i < repeat; i++) {
     for (const keyCombo of keys.split(' ')) {
@@ -391,12 +522,11 @@ async function handleKey(agentId: string, input: Record<string, unknown>) {
 
 async function handleScroll(agentId: string, input: Record<string, unknown>) {
   const tabId = input.tabId as number
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
 
-  // scroll_to mode: scroll element into view by ref
-  if (input.ref) {
-    const ref = sanitizeRef(input.ref as string)
+  // scroll_to mode: scroll element into view by ref or locator
+  const ref = await resolveRef(tabId, input)
+  if (ref) {
     const [result] = await chrome.scripting.executeScript({
       target: { tabId },
       func: (r: string) => {
@@ -413,7 +543,7 @@ async function handleScroll(agentId: string, input: Record<string, unknown>) {
       args: [ref],
     })
     const scrollResult = result.result as Record<string, unknown>
-    if (scrollResult?.error) throw new Error(String(scrollResult.error))
+    if (scrollResult?.error) throw elementError(scrollResult.error, ref)
     return scrollResult
   }
 
@@ -421,7 +551,10 @@ async function handleScroll(agentId: string, input: Record<string, unknown>) {
   const coord = input.coordinate as [number, number]
   const direction = input.direction as string
   if (!coord || !direction) {
-    throw new Error('Either "ref" or "coordinate" + "direction" must be provided')
+    throw new ViyvBrowserError(
+      'INVALID_PARAMS',
+      'Either "locator", "ref" or "coordinate" + "direction" must be provided',
+    )
   }
   const amount = (input.amount as number) ?? 3
 
@@ -439,12 +572,35 @@ async function handleScroll(agentId: string, input: Record<string, unknown>) {
   return { scrolled: true, direction, amount }
 }
 
-async function handleHover(agentId: string, input: Record<string, unknown>) {
+async function handleHover(
+  agentId: string,
+  input: Record<string, unknown>,
+  { signal }: ToolCallContext,
+) {
   const tabId = input.tabId as number
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
 
-  const coord = input.coordinate as [number, number]
+  const ref = await resolveRef(tabId, input)
+  if (ref) {
+    // Disabled elements still show tooltips, so only visibility, stability and hit-testing count
+    const { x, y } = await waitForActionable(
+      tabId,
+      ref,
+      getSettings().timeouts.actionability,
+      signal,
+      false,
+    )
+    await sendCdpCommand(tabId, 'Input.dispatchMouseEvent', { type: 'mouseMoved', x, y })
+    return { hovered: true, ref, coordinate: [x, y] }
+  }
+
+  const coord = input.coordinate as [number, number] | undefined
+  if (!coord) {
+    throw new ViyvBrowserError(
+      'INVALID_PARAMS',
+      'One of "locator", "ref" or "coordinate" must be specified',
+    )
+  }
   await sendCdpCommand(tabId, 'Input.dispatchMouseEvent', {
     type: 'mouseMoved',
     x: coord[0],
@@ -458,8 +614,7 @@ async function handleDrag(agentId: string, input: Record<string, unknown>) {
   const tabId = input.tabId as number
   const start = input.startCoordinate as [number, number]
   const end = input.endCoordinate as [number, number]
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
 
   await sendCdpCommand(tabId, 'Input.dispatchMouseEvent', {
     type: 'mousePressed',
@@ -486,8 +641,7 @@ async function handleDrag(agentId: string, input: Record<string, unknown>) {
 // Falls back to executeScript if content script is not loaded (chrome:// pages, PDFs, etc.)
 async function handleReadPage(agentId: string, input: Record<string, unknown>) {
   const tabId = input.tabId as number
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
 
   const filter = input.filter as string | undefined
   const depth = (input.depth as number) ?? 8
@@ -501,7 +655,7 @@ async function handleReadPage(agentId: string, input: Record<string, unknown>) {
       options: { filter, depth, maxChars, refId },
     })
     // M1 FIX: Content script responded — propagate its error directly, don't fallback
-    if (result?.error) throw new Error(result.error)
+    if (result?.error) throw elementError(result.error, refId)
     return result as Record<string, unknown>
   } catch (err) {
     // Only fallback for connection errors (content script not loaded)
@@ -548,7 +702,7 @@ async function handleReadPage(agentId: string, input: Record<string, unknown>) {
       args: [{ filter, depth, maxChars, refId }],
     })
     const fallbackResult = result.result as Record<string, unknown>
-    if (fallbackResult?.error) throw new Error(String(fallbackResult.error))
+    if (fallbackResult?.error) throw elementError(fallbackResult.error, refId)
     return fallbackResult
   }
 }
@@ -558,8 +712,7 @@ async function handleReadPage(agentId: string, input: Record<string, unknown>) {
 async function handleFind(agentId: string, input: Record<string, unknown>) {
   const tabId = input.tabId as number
   const query = input.query as string
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
 
   try {
     const result = await chrome.tabs.sendMessage(tabId, {
@@ -612,10 +765,13 @@ async function handleFind(agentId: string, input: Record<string, unknown>) {
 
 async function handleFormInput(agentId: string, input: Record<string, unknown>) {
   const tabId = input.tabId as number
-  const ref = sanitizeRef(input.ref as string)
   const value = input.value
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
+
+  const ref = await resolveRef(tabId, input)
+  if (!ref) {
+    throw new ViyvBrowserError('INVALID_PARAMS', 'Either "locator" or "ref" must be specified')
+  }
 
   const [result] = await chrome.scripting.executeScript({
     target: { tabId },
@@ -643,103 +799,184 @@ async function handleFormInput(agentId: string, input: Record<string, unknown>)
   return result.result as Record<string, unknown>
 }
 
-async function handleJavaScriptExec(agentId: string, input: Record<string, unknown>) {
+async function handleJavaScriptExec(
+  agentId: string,
+  input: Record<string, unknown>,
+  { signal }: ToolCallContext,
+) {
   const tabId = input.tabId as number
   const code = input.code as string
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
 
   const cdpResult = await sendCdpCommand<{
     result: { value: unknown }
     exceptionDetails?: {
       exception?: { description?: string }
       text?: string
+      lineNumber?: number
+      columnNumber?: number
     }
-  }>(tabId, 'Runtime.evaluate', {
-    expression: code,
-    returnByValue: true,
-    awaitPromise: true,
-  })
+  }>(
+    tabId,
+    'Runtime.evaluate',
+    {
+      expression: code,
+      returnByValue: true,
+      awaitPromise: true,
+    },
+    signal,
+  )
 
   if (cdpResult.exceptionDetails) {
     const desc =
       cdpResult.exceptionDetails.exception?.description ??
       cdpResult.exceptionDetails.text ??
       'Unknown error'
-    throw new Error(`JavaScript error: ${desc}`)
+    throw new ViyvBrowserError('SCRIPT_ERROR', `JavaScript error: ${desc}`, {
+      lineNumber: cdpResult.exceptionDetails.lineNumber,
+      columnNumber: cdpResult.exceptionDetails.columnNumber,
+    })
   }
 
   return { result: cdpResult.result?.value }
 }
 
-async function handleWaitFor(agentId: string, input: Record<string, unknown>) {
+async function handleWaitFor(
+  agentId: string,
+  input: Record<string, unknown>,
+  { signal, progress }: ToolCallContext,
+) {
   const tabId = input.tabId as number
   const selector = input.selector as string | undefined
+  const locator = input.locator as string | undefined
   const navigation = input.navigation as boolean | undefined
-  const timeout = (input.timeout as number) ?? 30_000
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  const timeout = (input.timeout as number) ?? getSettings().timeouts.waitFor
+  assertTabAccess(agentId, tabId)
 
   if (navigation) {
+    const stopNavigationProgress = trackNavigationProgress(tabId, progress)
     await new Promise<void>((resolve, reject) => {
       const timer = setTimeout(() => {
         chrome.tabs.onUpdated.removeListener(listener)
-        reject(new Error(`Navigation wait timed out after ${timeout}ms`))
+        removeAbortHandler()
+        reject(
+          new ViyvBrowserError('TIMEOUT', `Navigation wait timed out after ${timeout}ms`, {
+            tabId,
+            timeout,
+          }),
+        )
       }, timeout)
 
       const listener = (id: number, info: chrome.tabs.TabChangeInfo) => {
         if (id === tabId && info.status === 'complete') {
           clearTimeout(timer)
           chrome.tabs.onUpdated.removeListener(listener)
+          removeAbortHandler()
           resolve()
         }
       }
       chrome.tabs.onUpdated.addListener(listener)
-    })
+      const removeAbortHandler = onAbort(signal, () => {
+        clearTimeout(timer)
+        chrome.tabs.onUpdated.removeListener(listener)
+        reject(cancelledError())
+      })
+    }).finally(stopNavigationProgress)
+    progress(NAVIGATION_STAGES, NAVIGATION_STAGES, 'Page load complete')
     return { waited: 'navigation' }
   }
 
+  if (locator) {
+    // Locator engines like text= and role= have no selector to observe, so poll instead
+    const stopElapsedProgress = reportElapsed(progress, timeout, `Waiting for ${locator}`)
+    try {
+      const ref = await waitForLocator(tabId, locator, timeout, signal)
+      return ref ? { found: true, ref } : { found: false }
+    } finally {
+      stopElapsedProgress()
+    }
+  }
+
   if (selector) {
-    const [result] = await chrome.scripting.executeScript({
-      target: { tabId },
-      func: (sel: string, ms: number) => {
-        return new Promise<{ found: boolean }>((resolve) => {
-          const existing = document.querySelector(sel)
-          if (existing) {
-            resolve({ found: true })
-            return
-          }
-          const observer = new MutationObserver(() => {
-            if (document.querySelector(sel)) {
-              observer.disconnect()
+    // The in-page observer registers a canceller under waitId so a cancelled call can disconnect it
+    const waitId = crypto.randomUUID()
+    const stopElapsedProgress = reportElapsed(progress, timeout, `Waiting for ${selector}`)
+    const removeAbortHandler = onAbort(signal, () => {
+      chrome.scripting
+        .executeScript({
+          target: { tabId },
+          func: (id: string) => {
+            const w = window as unknown as { __viyvWaitFor?: Record<string, () => void> }
+            w.__viyvWaitFor?.[id]?.()
+          },
+          args: [waitId],
+        })
+        .catch(() => {
+          // Tab may have navigated or closed; the observer is gone with the page
+        })
+    })
+
+    try {
+      const [result] = await chrome.scripting.executeScript({
+        target: { tabId },
+        func: (sel: string, ms: number, id: string) => {
+          return new Promise<{ found: boolean; cancelled?: boolean }>((resolve) => {
+            const existing = document.querySelector(sel)
+            if (existing) {
               resolve({ found: true })
+              return
+            }
+            const w = window as unknown as { __viyvWaitFor?: Record<string, () => void> }
+            if (!w.__viyvWaitFor) w.__viyvWaitFor = {}
+            const waiters = w.__viyvWaitFor
+            const finish = (value: { found: boolean; cancelled?: boolean }) => {
+              observer.disconnect()
+              clearTimeout(timer)
+              delete waiters[id]
+              resolve(value)
             }
+            const observer = new MutationObserver(() => {
+              if (document.querySelector(sel)) finish({ found: true })
+            })
+            observer.observe(document.body, { childList: true, subtree: true })
+            const timer = setTimeout(() => finish({ found: false }), ms)
+            waiters[id] = () => finish({ found: false, cancelled: true })
           })
-          observer.observe(document.body, { childList: true, subtree: true })
-          setTimeout(() => {
-            observer.disconnect()
-            resolve({ found: false })
-          }, ms)
-        })
-      },
-      args: [selector, timeout],
-    })
-    return result.result as Record<string, unknown>
+        },
+        args: [selector, timeout, waitId],
+      })
+      return result.result as Record<string, unknown>
+    } finally {
+      removeAbortHandler()
+      stopElapsedProgress()
+    }
   }
 
   // NL2: Require explicit timeout if neither selector nor navigation is specified
   const explicitTimeout = input.timeout as number | undefined
   if (explicitTimeout === undefined) {
-    throw new Error('Either "selector", "navigation", or an explicit "timeout" must be specified')
+    throw new ViyvBrowserError(
+      'INVALID_PARAMS',
+      'One of "selector", "locator", "navigation", or an explicit "timeout" must be specified',
+    )
   }
-  await new Promise((resolve) => setTimeout(resolve, explicitTimeout))
+  const stopElapsedProgress = reportElapsed(progress, explicitTimeout, 'Waiting')
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      removeAbortHandler()
+      resolve()
+    }, explicitTimeout)
+    const removeAbortHandler = onAbort(signal, () => {
+      clearTimeout(timer)
+      reject(cancelledError())
+    })
+  }).finally(stopElapsedProgress)
   return { waited: explicitTimeout, type: 'delay' }
 }
 
 async function handleGetPageText(agentId: string, input: Record<string, unknown>) {
   const tabId = input.tabId as number
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
 
   const [result] = await chrome.scripting.executeScript({
     target: { tabId },
@@ -756,8 +993,7 @@ async function handleGetPageText(agentId: string, input: Record<string, unknown>
 
 async function handleHandleDialog(agentId: string, input: Record<string, unknown>) {
   const tabId = input.tabId as number
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
   const action = input.action as string
   const text = input.text as string | undefined
 
@@ -831,8 +1067,7 @@ async function handleTabClose(agentId: string, input: Record<string, unknown>) {
 
 async function handleSelectTab(agentId: string, input: Record<string, unknown>) {
   const tabId = input.tabId as number
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
 
   await chrome.tabs.update(tabId, { active: true })
   const tab = await chrome.tabs.get(tabId)
@@ -841,10 +1076,7 @@ async function handleSelectTab(agentId: string, input: Record<string, unknown>)
 
 // ── Debug Tools ──
 
-// FIX #10: Global buffer limits to prevent unbounded memory growth
-const MAX_ENTRIES_PER_TAB = 500
-const MAX_TOTAL_ENTRIES = 5000
-
+// FIX #10: Global buffer limits (settings.limits) to prevent unbounded memory growth
 const consoleBuffers = new Map<number, Array<{ level: string; text: string; timestamp: number }>>()
 const networkBuffers = new Map<
   number,
@@ -878,20 +1110,30 @@ export function addConsoleMessage(tabId: number, level: string, text: string) {
   if (!consoleBuffers.has(tabId)) consoleBuffers.set(tabId, [])
   const buf = consoleBuffers.get(tabId)!
   buf.push({ level, text, timestamp: Date.now() })
-  if (buf.length > MAX_ENTRIES_PER_TAB) buf.shift()
-  while (getTotalBufferSize(consoleBuffers) > MAX_TOTAL_ENTRIES) {
+  const { limits } = getSettings()
+  if (buf.length > limits.consoleBufferPerTab) buf.shift()
+  while (getTotalBufferSize(consoleBuffers) > limits.bufferTotal) {
     evictOldestEntries(consoleBuffers)
   }
+  notifyBufferChanged(tabId, 'console')
 }
 
 export function addNetworkRequest(tabId: number, url: string, method: string, status: number) {
   if (!networkBuffers.has(tabId)) networkBuffers.set(tabId, [])
   const buf = networkBuffers.get(tabId)!
   buf.push({ url, method, status, timestamp: Date.now() })
-  if (buf.length > MAX_ENTRIES_PER_TAB) buf.shift()
-  while (getTotalBufferSize(networkBuffers) > MAX_TOTAL_ENTRIES) {
+  const { limits } = getSettings()
+  if (buf.length > limits.networkBufferPerTab) buf.shift()
+  while (getTotalBufferSize(networkBuffers) > limits.bufferTotal) {
     evictOldestEntries(networkBuffers)
   }
+  notifyBufferChanged(tabId, 'network')
+}
+
+// Only agent-owned tabs are exposed as MCP resources
+function notifyBufferChanged(tabId: number, resource: 'console' | 'network') {
+  const agentId = getAgentForTab(tabId)
+  if (agentId) notifyResourceChanged(agentId, resource, tabId)
 }
 
 // FIX #10: Clean up buffers when tabs are closed
@@ -911,8 +1153,7 @@ async function handleReadConsoleMessages(agentId: string, input: Record<string,
   const onlyErrors = input.onlyErrors as boolean | undefined
   const limit = (input.limit as number) ?? 100
   const clear = input.clear as boolean | undefined
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
 
   let messages = consoleBuffers.get(tabId) ?? []
 
@@ -930,7 +1171,10 @@ async function handleReadConsoleMessages(agentId: string, input: Record<string,
   }
 
   const result = messages.slice(-limit)
-  if (clear) consoleBuffers.delete(tabId)
+  if (clear) {
+    consoleBuffers.delete(tabId)
+    notifyBufferChanged(tabId, 'console')
+  }
 
   return { messages: result, total: result.length }
 }
@@ -940,8 +1184,7 @@ async function handleReadNetworkRequests(agentId: string, input: Record<string,
   const urlPattern = input.urlPattern as string | undefined
   const limit = (input.limit as number) ?? 100
   const clear = input.clear as boolean | undefined
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
 
   let requests = networkBuffers.get(tabId) ?? []
 
@@ -950,7 +1193,10 @@ async function handleReadNetworkRequests(agentId: string, input: Record<string,
   }
 
   const result = requests.slice(-limit)
-  if (clear) networkBuffers.delete(tabId)
+  if (clear) {
+    networkBuffers.delete(tabId)
+    notifyBufferChanged(tabId, 'network')
+  }
 
   return { requests: result, total: result.length }
 }
@@ -961,8 +1207,7 @@ async function handleResizeWindow(agentId: string, input: Record<string, unknown
   const tabId = input.tabId as number
   const width = input.width as number
   const height = input.height as number
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
 
   const tab = await chrome.tabs.get(tabId)
   await chrome.windows.update(tab.windowId, { width, height })
@@ -1027,11 +1272,14 @@ const gifRecordings = new Map<
   }
 >()
 
-async function handleGifCreator(agentId: string, input: Record<string, unknown>) {
+async function handleGifCreator(
+  agentId: string,
+  input: Record<string, unknown>,
+  { progress }: ToolCallContext,
+) {
   const tabId = input.tabId as number
   const action = input.action as string
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
 
   switch (action) {
     case 'start_recording': {
@@ -1046,7 +1294,14 @@ async function handleGifCreator(agentId: string, input: Record<string, unknown>)
     }
     case 'stop_recording': {
       const state = gifRecordings.get(agentId)
-      if (!state) throw new Error('No recording in progress')
+      if (!state) {
+        throw new ViyvBrowserError(
+          'INVALID_PARAMS',
+          'No recording in progress',
+          undefined,
+          'Start one with gif_creator action "start_recording".',
+        )
+      }
       // Capture final frame (respect limit)
       if (state.frames.length < MAX_GIF_FRAMES) {
         const finalFrame = await captureScreenshot(tabId, { format: 'jpeg', quality: 60 })
@@ -1057,9 +1312,18 @@ async function handleGifCreator(agentId: string, input: Record<string, unknown>)
     }
     case 'export': {
       const state = gifRecordings.get(agentId)
-      if (!state || state.frames.length === 0) throw new Error('No frames to export')
+      if (!state || state.frames.length === 0) {
+        throw new ViyvBrowserError(
+          'INVALID_PARAMS',
+          'No frames to export',
+          undefined,
+          'Record frames with gif_creator "start_recording" / "stop_recording" first.',
+        )
+      }
       const filename = (input.filename as string) ?? `recording-${Date.now()}.gif`
       const download = input.download as boolean | undefined
+      const frameCount = state.frames.length
+      progress(0, frameCount, `Encoding ${frameCount} frames`)
       // Send frames to offscreen document for GIF encoding
       await chrome.offscreen
         .createDocument({
@@ -1070,16 +1334,33 @@ async function handleGifCreator(agentId: string, input: Record<string, unknown>)
         .catch(() => {
           /* already exists */
         })
-      const gifResult = await chrome.runtime.sendMessage({
-        type: 'viyv-gif-encode',
-        frames: state.frames,
-        options: input.options ?? {},
-        filename,
-        download: download ?? false,
-      })
+      // The offscreen document reports per-frame progress as viyv-gif-progress messages
+      const encodeId = crypto.randomUUID()
+      const onEncodeProgress = (message: {
+        type?: string
+        encodeId?: string
+        encoded?: number
+      }) => {
+        if (message?.type !== 'viyv-gif-progress' || message.encodeId !== encodeId) return
+        const encoded = Number(message.encoded ?? 0)
+        progress(encoded, frameCount, `Frame ${encoded}/${frameCount} encoded`)
+      }
+      chrome.runtime.onMessage.addListener(onEncodeProgress)
+      const gifResult = await chrome.runtime
+        .sendMessage({
+          type: 'viyv-gif-encode',
+          encodeId,
+          frames: state.frames,
+          options: input.options ?? {},
+          filename,
+          download: download ?? false,
+        })
+        .finally(() => chrome.runtime.onMessage.removeListener(onEncodeProgress))
       // L3 FIX: Validate offscreen document response before spreading
       if (gifResult?.error) {
-        throw new Error(`GIF encoding failed: ${gifResult.error}`)
+        throw new ViyvBrowserError('INTERNAL_ERROR', `GIF encoding failed: ${gifResult.error}`, {
+          frameCount,
+        })
       }
       const gifData = gifResult && typeof gifResult === 'object' ? gifResult : {}
       return { exported: true, filename, frameCount: state.frames.length, ...gifData }
@@ -1089,32 +1370,46 @@ async function handleGifCreator(agentId: string, input: Record<string, unknown>)
       return { cleared: true }
     }
     default:
-      throw new Error(`Unknown gif_creator action: ${action}`)
+      throw new ViyvBrowserError('INVALID_PARAMS', `Unknown gif_creator action: ${action}`, {
+        action,
+      })
   }
 }
 
-async function handleUploadImage(agentId: string, input: Record<string, unknown>) {
+// Progress stages of upload_image: image resolved, transferring, events dispatched
+const UPLOAD_STAGES = 3
+
+async function handleUploadImage(
+  agentId: string,
+  input: Record<string, unknown>,
+  { progress }: ToolCallContext,
+) {
   const tabId = input.tabId as number
   const imageId = input.imageId as string
-  const ref = input.ref as string | undefined
   const coordinate = input.coordinate as [number, number] | undefined
   const filename = (input.filename as string) ?? 'image.png'
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
 
+  const ref = await resolveRef(tabId, input)
   if (!ref && !coordinate) {
-    throw new Error('Either "ref" or "coordinate" must be specified')
+    throw new ViyvBrowserError(
+      'INVALID_PARAMS',
+      'One of "locator", "ref" or "coordinate" must be specified',
+    )
   }
 
   // BUG-2 FIX: Resolve imageId from screenshot store (falls back to raw base64)
   const imgData = getScreenshotData(imageId)
+  // Base64 inflates by 4/3; report the decoded size
+  const imageKb = Math.round((imgData.length * 3) / 4 / 1024)
+  progress(1, UPLOAD_STAGES, `Image resolved (${imageKb} KB)`)
 
   // L3 FIX: Detect MIME type from filename extension
   const mimeType =
     filename.endsWith('.jpg') || filename.endsWith('.jpeg') ? 'image/jpeg' : 'image/png'
 
   if (ref) {
-    const safeRef = sanitizeRef(ref)
+    progress(2, UPLOAD_STAGES, `Transferring ${filename} to file input ${ref}`)
     const [result] = await chrome.scripting.executeScript({
       target: { tabId },
       func: (r: string, data: string, fname: string, mime: string) => {
@@ -1134,14 +1429,16 @@ async function handleUploadImage(agentId: string, input: Record<string, unknown>
         el.dispatchEvent(new Event('change', { bubbles: true }))
         return { uploaded: true }
       },
-      args: [safeRef, imgData, filename, mimeType],
+      args: [ref, imgData, filename, mimeType],
     })
     const uploadResult = result.result as Record<string, unknown>
-    if (uploadResult?.error) throw new Error(String(uploadResult.error))
+    if (uploadResult?.error) throw elementError(uploadResult.error, ref)
+    progress(3, UPLOAD_STAGES, 'Change event dispatched')
     return uploadResult
   }
 
   // BUG-3 FIX: Coordinate-based drag & drop with full event sequence
+  progress(2, UPLOAD_STAGES, `Dropping ${filename} at (${coordinate?.[0]}, ${coordinate?.[1]})`)
   const [result] = await chrome.scripting.executeScript({
     target: { tabId },
     func: (data: string, x: number, y: number, fname: string, mime: string) => {
@@ -1165,6 +1462,7 @@ async function handleUploadImage(agentId: string, input: Record<string, unknown>
     },
     args: [imgData, coordinate![0], coordinate![1], filename, mimeType],
   })
+  progress(3, UPLOAD_STAGES, 'Drop events dispatched')
   return result.result as Record<string, unknown>
 }
 
@@ -1196,8 +1494,7 @@ async function handleArtifactFromPage(agentId: string, input: Record<string, unk
   const tabId = input.tabId as number
   const type = input.type as string
   const title = input.title as string | undefined
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
 
   if (type === 'screenshot') {
     const data = await captureScreenshot(tabId, { format: 'png' })
@@ -1225,8 +1522,7 @@ async function handlePageDataExtract(agentId: string, input: Record<string, unkn
   const tabId = input.tabId as number
   const schema = input.schema as Record<string, unknown>
   const selector = input.selector as string | undefined
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
 
   const [result] = await chrome.scripting.executeScript({
     target: { tabId },
@@ -1259,7 +1555,7 @@ async function handlePageDataExtract(agentId: string, input: Record<string, unkn
   })
 
   const extractResult = result.result as Record<string, unknown>
-  if (extractResult?.error) throw new Error(String(extractResult.error))
+  if (extractResult?.error) throw elementError(extractResult.error)
   return extractResult
 }
 
@@ -1277,11 +1573,13 @@ async function handleShortcutsExecute(agentId: string, input: Record<string, unk
   const tabId = input.tabId as number
   const command = input.command as string | undefined
   const shortcutId = input.shortcutId as string | undefined
-  const accessErr = tabAccessCheck(agentId, tabId)
-  if (accessErr) throw new Error(accessErr)
+  assertTabAccess(agentId, tabId)
 
   if (!command && !shortcutId) {
-    throw new Error('Either "command" or "shortcutId" must be provided')
+    throw new ViyvBrowserError(
+      'INVALID_PARAMS',
+      'Either "command" or "shortcutId" must be provided',
+    )
   }
 
   const shortcuts = await getShortcuts()
@@ -1289,8 +1587,11 @@ async function handleShortcutsExecute(agentId: string, input: Record<string, unk
     (s) => (command && s.command === command) || (shortcutId && s.id === shortcutId),
   )
   if (!shortcut) {
-    throw new Error(
+    throw new ViyvBrowserError(
+      'INVALID_PARAMS',
       `Shortcut not found: ${command ? `command="${command}"` : `id="${shortcutId}"`}`,
+      { command, shortcutId },
+      'Call shortcuts_list to see available shortcuts.',
     )
   }
 
@@ -1310,12 +1611,90 @@ async function handleShortcutsExecute(agentId: string, input: Record<string, unk
   return { started: true, shortcutId: shortcut.id, command: shortcut.command }
 }
 
-function inferErrorCode(message: string): string {
-  if (message.includes('does not belong to agent')) return 'TAB_ACCESS_DENIED'
-  if (message.includes('not found') || message.includes('No tab')) return 'TAB_NOT_FOUND'
-  if (message.includes('attach failed')) return 'DEBUGGER_ATTACH_FAILED'
-  if (message.includes('CDP error')) return 'CDP_ERROR'
-  if (message.includes('timed out')) return 'TIMEOUT'
-  if (message.includes('Unknown tool')) return 'UNKNOWN_TOOL'
-  return 'INTERNAL_ERROR'
+// ── Batch ──
+
+type BatchStepOutcome =
+  | { success: true; result: Record<string, unknown> }
+  | { success: false; error: ErrorPayload }
+
+/**
+ * Runs the steps in order under the batch's TabLock, which handleToolCall takes once.
+ * Each step is validated and access-checked like a separate call.
+ */
+async function handleBatch(
+  agentId: string,
+  input: Record<string, unknown>,
+  { signal, progress }: ToolCallContext,
+) {
+  const tabId = input.tabId as number
+  const steps = input.steps as BatchStep[]
+  const continueOnError = input.continueOnError === true
+  assertTabAccess(agentId, tabId)
+
+  const duration = batchDuration(input as BatchInput, getSettings().timeouts)
+  if (duration > LIMITS.BATCH_MAX_DURATION) {
+    throw new ViyvBrowserError(
+      'INVALID_PARAMS',
+      `Batch could take up to ${duration}ms, over the ${LIMITS.BATCH_MAX_DURATION}ms limit`,
+      { duration, limit: LIMITS.BATCH_MAX_DURATION },
+      'Split the steps into several batches, or shorten their waitAfter and wait_for timeouts.',
+    )
+  }
+
+  const results: Array<{ tool: string } & BatchStepOutcome> = []
+  let failed = 0
+  for (const [index, step] of steps.entries()) {
+    progress(index, steps.length, `Step ${index + 1}/${steps.length}: ${step.tool}`)
+    const outcome = await runBatchStep(agentId, tabId, step, signal)
+    results.push({ tool: step.tool, ...outcome })
+    if (!outcome.success) {
+      failed++
+      if (!continueOnError) break
+    }
+    if (step.waitAfter) await delay(step.waitAfter, signal)
+  }
+  progress(steps.length, steps.length, 'Batch complete')
+
+  return {
+    steps: results,
+    completed: results.length - failed,
+    failed,
+    skipped: steps.length - results.length,
+  }
+}
+
+async function runBatchStep(
+  agentId: string,
+  tabId: number,
+  step: BatchStep,
+  signal: AbortSignal | undefined,
+): Promise<BatchStepOutcome> {
+  signal?.throwIfAborted()
+  try {
+    const input = parseToolInput(step.tool, { ...step.input, tabId })
+    const denied = await checkToolAccess(agentId, step.tool, input)
+    if (denied) return { success: false, error: denied }
+    // Steps report no progress of their own; the batch reports one step at a time
+    const result = await dispatchTool(agentId, step.tool, input, { signal, progress: noopProgress })
+    return { success: true, result }
+  } catch (error) {
+    // Cancellation ends the whole batch
+    if (signal?.aborted) throw error
+    return { success: false, error: toErrorPayload(error) }
+  }
+}
+
+// Content scripts report missing elements as { error } results
+function elementError(error: unknown, ref?: string): ViyvBrowserError {
+  return new ViyvBrowserError('ELEMENT_NOT_FOUND', String(error), ref ? { ref } : undefined)
+}
+
+// Handlers throw ViyvBrowserError; anything else comes from chrome.* APIs or bugs
+function toErrorPayload(error: unknown): ErrorPayload {
+  if (error instanceof ViyvBrowserError) return error.toJSON()
+  const message = error instanceof Error ? error.message : String(error)
+  if (message.startsWith('No tab with id')) {
+    return new ViyvBrowserError('TAB_NOT_FOUND', message).toJSON()
+  }
+  return new ViyvBrowserError('INTERNAL_ERROR', message).toJSON()
 }
@@ -0,0 +1,198 @@
+/**
+ * @viyv-browser/client: a typed async API over the viyv-browser tools.
+ *
+ * The stdio, http and sse transports go through an MCP server. The socket transport is a
+ * standalone mode without one: the client listens on the Unix socket itself, in the server's
+ * place, so it cannot be used while an MCP server runs.
+ *
+ *   const browser = await connect({ transport: { type: 'http', url: 'http://127.0.0.1:3100/mcp' } })
+ *   const { tabId } = await browser.tabsCreate({ url: 'https://example.com' })
+ *   await browser.click({ tabId, ref: 'ref_1' })
+ *
+ * Every tool is a camelCase method whose input type comes from the same Zod schemas the MCP
+ * server registers. Failed calls reject with a ViyvBrowserError carrying the tool's error code.
+ */
+
+import { fileURLToPath } from 'node:url'
+import { Client } from '@modelcontextprotocol/sdk/client/index.js'
+import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js'
+import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js'
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js'
+import {
+  MCP_SERVER,
+  TOOL_INPUT_SCHEMAS,
+  type ToolInputs,
+  type ToolName,
+  ViyvBrowserError,
+} from '@viyv-browser/shared'
+import type { ToolCallResult } from 'viyv-browser-mcp/direct'
+
+export { ViyvBrowserError } from '@viyv-browser/shared'
+export type { ErrorCode, ErrorPayload, ToolInputs, ToolName } from '@viyv-browser/shared'
+
+export type TransportOptions =
+  /** Spawns an MCP server (default: the bundled viyv-browser-mcp) and talks to it over stdio */
+  | { type: 'stdio'; command?: string; args?: string[]; env?: Record<string, string> }
+  /** Streamable HTTP endpoint of a running server, e.g. http://127.0.0.1:3100/mcp */
+  | { type: 'http'; url: string; headers?: Record<string, string> }
+  /** SSE endpoint of a running server, e.g. http://127.0.0.1:3100/sse */
+  | { type: 'sse'; url: string; headers?: Record<string, string> }
+  /**
+   * Standalone mode, without an MCP server: the client listens on the Unix socket in the
+   * server's place and the Extension's Native Host connects to it. Fails while an MCP server
+   * is running, and a server started later takes the socket over. Server-side tools
+   * (browser_event_poll, …) are unavailable.
+   */
+  | { type: 'socket'; socketPath?: string; browserId?: string; connectTimeoutMs?: number }
+
+export interface ConnectOptions {
+  /** Default: stdio */
+  transport?: TransportOptions
+  /** Calls agent_identify, so the client gets its own tab group */
+  agentId?: string
+  agentName?: string
+}
+
+export interface CallOptions {
+  /** Browser to run the call in (default: the server's or session's selection) */
+  browserId?: string
+  signal?: AbortSignal
+  /** Client-side timeout of MCP calls (default: the SDK's 60s) */
+  timeoutMs?: number
+}
+
+/**
+ * Parsed result of a tool call. Image results (screenshot, gif_creator, …) carry the image
+ * as base64 `data` with its `mimeType`.
+ */
+export type ToolResult = Record<string, unknown>
+
+type CamelCase<S extends string> = S extends `${infer Head}_${infer Tail}`
+  ? `${Head}${Capitalize<CamelCase<Tail>>}`
+  : S
+
+type ToolMethod<K extends ToolName> = Record<string, never> extends ToolInputs[K]
+  ? (input?: ToolInputs[K], options?: CallOptions) => Promise<ToolResult>
+  : (input: ToolInputs[K], options?: CallOptions) => Promise<ToolResult>
+
+export type ToolMethods = { [K in ToolName as CamelCase<K>]: ToolMethod<K> }
+
+export type ViyvBrowserClient = ToolMethods & {
+  /** Calls a tool by its MCP name */
+  call<K extends ToolName>(
+    tool: K,
+    input: ToolInputs[K],
+    options?: CallOptions,
+  ): Promise<ToolResult>
+  close(): Promise<void>
+}
+
+type RawCall = (
+  tool: string,
+  input: Record<string, unknown>,
+  options: CallOptions,
+) => Promise<ToolCallResult>
+
+export async function connect(options: ConnectOptions = {}): Promise<ViyvBrowserClient> {
+  const transport = options.transport ?? { type: 'stdio' }
+  const { call: rawCall, close } =
+    transport.type === 'socket'
+      ? await connectSocket(transport, options.agentId)
+      : await connectMcp(transport)
+
+  const call = async (tool: string, input: Record<string, unknown> = {}, callOptions = {}) =>
+    parseResult(await rawCall(tool, input, callOptions))
+
+  if (options.agentId && transport.type !== 'socket') {
+    await call('agent_identify', { agentId: options.agentId, agentName: options.agentName })
+  }
+
+  const client: Record<string, unknown> = { call, close }
+  for (const tool of Object.keys(TOOL_INPUT_SCHEMAS)) {
+    client[toCamelCase(tool)] = (input?: Record<string, unknown>, callOptions?: CallOptions) =>
+      call(tool, input, callOptions)
+  }
+  return client as ViyvBrowserClient
+}
+
+async function connectMcp(
+  transport: Exclude<TransportOptions, { type: 'socket' }>,
+): Promise<{ call: RawCall; close: () => Promise<void> }> {
+  const client = new Client({ name: `${MCP_SERVER.NAME}-client`, version: MCP_SERVER.VERSION })
+  if (transport.type === 'stdio') {
+    await client.connect(
+      new StdioClientTransport({
+        command: transport.command ?? process.execPath,
+        args:
+          transport.args ??
+          (transport.command ? [] : [fileURLToPath(import.meta.resolve('viyv-browser-mcp'))]),
+        env: transport.env,
+        stderr: 'inherit',
+      }),
+    )
+  } else if (transport.type === 'http') {
+    await client.connect(
+      new StreamableHTTPClientTransport(new URL(transport.url), {
+        requestInit: { headers: transport.headers },
+      }),
+    )
+  } else {
+    await client.connect(
+      new SSEClientTransport(new URL(transport.url), {
+        requestInit: { headers: transport.headers },
+      }),
+    )
+  }
+
+  return {
+    call: async (tool, input, { browserId, signal, timeoutMs }) =>
+      (await client.callTool(
+        { name: tool, arguments: browserId ? { ...input, browserId } : input },
+        undefined,
+        { signal, timeout: timeoutMs },
+      )) as ToolCallResult,
+    close: () => client.close(),
+  }
+}
+
+async function connectSocket(
+  transport: Extract<TransportOptions, { type: 'socket' }>,
+  agentId: string | undefined,
+): Promise<{ call: RawCall; close: () => Promise<void> }> {
+  // Loaded on demand: only this transport runs the server's socket code in-process
+  const { startDirectHost } = await import('viyv-browser-mcp/direct')
+  const host = await startDirectHost({ ...transport, agentId })
+  return {
+    call: (tool, input, { browserId, signal }) => host.callTool(tool, input, { browserId, signal }),
+    close: async () => host.close(),
+  }
+}
+
+/** Merges the result's content blocks: JSON text is parsed, images become `data`/`mimeType` */
+function parseResult(result: ToolCallResult): ToolResult {
+  let parsed: ToolResult = {}
+  for (const block of result.content) {
+    if (block.type === 'image') {
+      parsed = { ...parsed, data: block.data, mimeType: block.mimeType }
+    } else if (block.type === 'text') {
+      parsed = { ...parsed, ...parseText(block.text) }
+    }
+  }
+  if (result.isError) {
+    throw ViyvBrowserError.fromPayload(parsed.error ?? { message: parsed.text })
+  }
+  return parsed
+}
+
+function parseText(text: string): ToolResult {
+  try {
+    const value = JSON.parse(text)
+    return value && typeof value === 'object' && !Array.isArray(value) ? value : { value }
+  } catch {
+    return { text }
+  }
+}
+
+function toCamelCase(name: string): string {
+  return name.replace(/_([a-z])/g, (_, letter: string) => letter.toUpperCase())
+}
@@ -0,0 +1,19 @@
+import { defineConfig } from 'tsup'
+
+export default defineConfig({
+  entry: ['src/index.ts'],
+  format: ['esm'],
+  target: 'node20',
+  outDir: 'dist',
+  clean: true,
+  // index.d.ts must not import @viyv-browser/shared, which is not published: inline its types
+  dts: {
+    resolve: ['@viyv-browser/shared'],
+    compilerOptions: {
+      rootDir: '..',
+      paths: { '@viyv-browser/shared': ['../shared/src/index.ts'] },
+    },
+  },
+  sourcemap: true,
+  noExternal: ['@viyv-browser/shared'],
+})
@@ -75,6 +75,69 @@ export function getDefaultAgentId(): string {
   return defaultSession.agentId
 }
 
+// ── Per-client identity (SSE/HTTP) ──
+
+/**
+ * Agent identity bound to a single MCP transport session.
+ * Unbound identities fall back to the server-wide default agent (stdio behaviour).
+ */
+export interface ClientIdentity {
+  agentId?: string
+  agentName?: string
+  /** Browser selected with switch_browser; unset routes to the default browser */
+  browserId?: string
+}
+
+const AGENT_ID_PATTERN = /^[A-Za-z0-9._:-]{1,64}$/
+
+// Number of live transport sessions bound to each agent ID
+const clientRefs = new Map<string, number>()
+
+export function isValidAgentId(id: string): boolean {
+  return AGENT_ID_PATTERN.test(id)
+}
+
+export function resolveAgentId(identity: ClientIdentity): string {
+  return identity.agentId ?? getDefaultAgentId()
+}
+
+export function bindClientIdentity(
+  identity: ClientIdentity,
+  agentId: string,
+  agentName?: string,
+): void {
+  if (!isValidAgentId(agentId)) {
+    throw new Error(`Invalid agent ID: "${agentId}" (1-64 chars of A-Z a-z 0-9 . _ : -)`)
+  }
+  if (identity.agentId !== agentId) {
+    releaseClientIdentity(identity)
+    clientRefs.set(agentId, (clientRefs.get(agentId) ?? 0) + 1)
+  }
+  identity.agentId = agentId
+  identity.agentName = agentName ?? agentId
+  createSession(agentId, identity.agentName)
+}
+
+/**
+ * Unbinds the identity. Returns the agent ID when this was the last client using it,
+ * so the caller can release agent-scoped resources.
+ */
+export function releaseClientIdentity(identity: ClientIdentity): string | null {
+  const agentId = identity.agentId
+  if (!agentId) return null
+  identity.agentId = undefined
+  identity.agentName = undefined
+
+  const refs = (clientRefs.get(agentId) ?? 1) - 1
+  if (refs > 0) {
+    clientRefs.set(agentId, refs)
+    return null
+  }
+  clientRefs.delete(agentId)
+  closeSession(agentId)
+  return agentId
+}
+
 const STALE_SESSION_TTL = 5 * 60 * 1000 // 5 minutes
 const CLEANUP_INTERVAL = 60 * 1000 // Check every minute
 
@@ -88,9 +151,7 @@ export function cleanupStaleSessions(): number {
     }
   }
   if (cleaned > 0) {
-    process.stderr.write(
-      `[viyv-browser:mcp] Cleaned up ${cleaned} stale session(s)\n`,
-    )
+    process.stderr.write(`[viyv-browser:mcp] Cleaned up ${cleaned} stale session(s)\n`)
   }
   return cleaned
 }
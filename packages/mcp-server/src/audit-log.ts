@@ -0,0 +1,222 @@
+/**
+ * Audit trail: one JSONL record per tool call (agent, tool, redacted input, result summary,
+ * error code, tab and URL before/after, duration).
+ * Records are appended to the `--audit-log` file, which is rotated by size, and the most
+ * recent ones are kept in memory for the audit_recent tool.
+ */
+
+import { appendFileSync, existsSync, renameSync, rmSync, statSync } from 'node:fs'
+import { LIMITS, type ToolPageContext } from '@viyv-browser/shared'
+import type { ToolCallResult } from './tool-result.js'
+
+export interface AuditEntry {
+  timestamp: string
+  agentId: string
+  browserId?: string
+  tool: string
+  input: Record<string, unknown>
+  success: boolean
+  /** Short description of the result, never the full payload */
+  resultSummary?: string
+  errorCode?: string
+  tabId?: number
+  urlBefore?: string
+  urlAfter?: string
+  durationMs: number
+}
+
+export interface AuditQuery {
+  agentId?: string
+  tool?: string
+  errorsOnly?: boolean
+  limit?: number
+}
+
+export interface AuditLogOptions {
+  /** JSONL file to append to; without it entries are only kept in memory */
+  path?: string
+  maxBytes?: number
+  maxFiles?: number
+}
+
+const REDACTED = '[REDACTED]'
+const MAX_STRING_LENGTH = 200
+// Keys whose values are secrets wherever they appear in a tool input
+const SECRET_KEY_PATTERN =
+  /pass(word|wd)?|secret|token|authorization|cookie|api[-_]?key|credential/i
+// Free text that may carry credentials or personal data (typed text, form values)
+const SENSITIVE_FIELDS: Record<string, string[]> = {
+  type: ['text'],
+  form_input: ['value'],
+  handle_dialog: ['text'],
+}
+
+let logPath: string | undefined
+let maxBytes: number = LIMITS.AUDIT_LOG_MAX_BYTES
+let maxFiles: number = LIMITS.AUDIT_LOG_MAX_FILES
+let fileBytes = 0
+const recentEntries: AuditEntry[] = []
+
+export function configureAuditLog(options: AuditLogOptions): void {
+  logPath = options.path
+  maxBytes = options.maxBytes ?? LIMITS.AUDIT_LOG_MAX_BYTES
+  maxFiles = options.maxFiles ?? LIMITS.AUDIT_LOG_MAX_FILES
+  fileBytes = logPath && existsSync(logPath) ? statSync(logPath).size : 0
+}
+
+export function recordAuditEntry(entry: AuditEntry): void {
+  recentEntries.push(entry)
+  if (recentEntries.length > LIMITS.AUDIT_RECENT_MAX) recentEntries.shift()
+
+  if (!logPath) return
+  const line = `${JSON.stringify(entry)}\n`
+  const bytes = Buffer.byteLength(line)
+  try {
+    if (fileBytes > 0 && fileBytes + bytes > maxBytes) rotate(logPath)
+    appendFileSync(logPath, line, { mode: 0o600 })
+    fileBytes += bytes
+  } catch (error) {
+    // Auditing must never fail the tool call itself
+    process.stderr.write(
+      `[viyv-browser:mcp] Failed to write audit log ${logPath}: ${(error as Error).message}\n`,
+    )
+  }
+}
+
+/** Newest entries first */
+export function getRecentAuditEntries(query: AuditQuery = {}): AuditEntry[] {
+  const limit = query.limit ?? 50
+  const matches: AuditEntry[] = []
+  for (let i = recentEntries.length - 1; i >= 0 && matches.length < limit; i--) {
+    const entry = recentEntries[i]
+    if (query.agentId && entry.agentId !== query.agentId) continue
+    if (query.tool && entry.tool !== query.tool) continue
+    if (query.errorsOnly && entry.success) continue
+    matches.push(entry)
+  }
+  return matches
+}
+
+/**
+ * Builds the audit record for a finished call. Input is redacted, the result reduced to a
+ * summary; the page context comes from the Extension's tool_result.
+ */
+export function createAuditEntry(call: {
+  agentId: string
+  browserId?: string
+  tool: string
+  input: Record<string, unknown>
+  result: ToolCallResult
+  page?: ToolPageContext
+  startedAt: number
+}): AuditEntry {
+  const { result, page } = call
+  const errorCode = result.isError ? readErrorCode(result) : undefined
+  const tabId = page?.tabId ?? (typeof call.input.tabId === 'number' ? call.input.tabId : undefined)
+  return {
+    timestamp: new Date(call.startedAt).toISOString(),
+    agentId: call.agentId,
+    ...(call.browserId && { browserId: call.browserId }),
+    tool: call.tool,
+    input: redactInput(call.tool, call.input),
+    success: !result.isError,
+    resultSummary: summarizeResult(result),
+    ...(errorCode && { errorCode }),
+    ...(tabId !== undefined && { tabId }),
+    ...(page?.urlBefore && { urlBefore: redactUrl(page.urlBefore) }),
+    ...(page?.urlAfter && { urlAfter: redactUrl(page.urlAfter) }),
+    durationMs: Date.now() - call.startedAt,
+  }
+}
+
+export function redactInput(tool: string, input: Record<string, unknown>): Record<string, unknown> {
+  const sensitive = SENSITIVE_FIELDS[tool] ?? []
+  const redacted: Record<string, unknown> = {}
+  for (const [key, value] of Object.entries(input)) {
+    if (tool === 'batch' && key === 'steps' && Array.isArray(value)) {
+      // Each step is redacted as a call of its own tool
+      redacted[key] = value.map(redactBatchStep)
+    } else if (sensitive.includes(key) && value !== undefined) {
+      redacted[key] = typeof value === 'string' ? `${REDACTED} (${value.length} chars)` : REDACTED
+    } else {
+      redacted[key] = redactValue(key, value, 0)
+    }
+  }
+  return redacted
+}
+
+function redactBatchStep(step: unknown): unknown {
+  if (!step || typeof step !== 'object' || Array.isArray(step)) return redactValue('', step, 1)
+  const { input, ...rest } = step as Record<string, unknown>
+  const redacted = redactValue('', rest, 1) as Record<string, unknown>
+  if (input && typeof input === 'object' && !Array.isArray(input)) {
+    redacted.input = redactInput(String(rest.tool), input as Record<string, unknown>)
+  } else if (input !== undefined) {
+    redacted.input = redactValue('input', input, 1)
+  }
+  return redacted
+}
+
+function redactValue(key: string, value: unknown, depth: number): unknown {
+  if (SECRET_KEY_PATTERN.test(key)) return REDACTED
+  if (typeof value === 'string') {
+    const text = redactUrl(value)
+    return text.length > MAX_STRING_LENGTH
+      ? `${text.slice(0, MAX_STRING_LENGTH)}… (${text.length} chars)`
+      : text
+  }
+  if (!value || typeof value !== 'object') return value
+  if (depth >= 3) return Array.isArray(value) ? `[array(${value.length})]` : '[object]'
+  if (Array.isArray(value)) return value.map((item) => redactValue('', item, depth + 1))
+  return Object.fromEntries(
+    Object.entries(value).map(([k, v]) => [k, redactValue(k, v, depth + 1)]),
+  )
+}
+
+// Query parameters such as ?token=… carry secrets as well
+function redactUrl(text: string): string {
+  if (!/^https?:\/\//i.test(text)) return text
+  try {
+    const url = new URL(text)
+    const secretKeys = [...url.searchParams.keys()].filter((key) => SECRET_KEY_PATTERN.test(key))
+    if (secretKeys.length === 0) return text
+    for (const key of secretKeys) url.searchParams.set(key, 'REDACTED')
+    return url.toString()
+  } catch {
+    return text
+  }
+}
+
+function summarizeResult(result: ToolCallResult): string {
+  const parts = result.content.map((block) => {
+    if (block.type === 'image') {
+      return `image (${block.mimeType}, ${block.data.length} base64 chars)`
+    }
+    return block.text.length > MAX_STRING_LENGTH
+      ? `${block.text.slice(0, MAX_STRING_LENGTH)}… (${block.text.length} chars)`
+      : block.text
+  })
+  return parts.join(' | ')
+}
+
+function readErrorCode(result: ToolCallResult): string | undefined {
+  const first = result.content[0]
+  if (first?.type !== 'text') return undefined
+  try {
+    const code = JSON.parse(first.text)?.error?.code
+    return typeof code === 'string' ? code : undefined
+  } catch {
+    return undefined
+  }
+}
+
+// audit.jsonl → audit.jsonl.1 → … → audit.jsonl.<maxFiles>, dropping the oldest
+function rotate(path: string) {
+  rmSync(`${path}.${maxFiles}`, { force: true })
+  for (let i = maxFiles - 1; i >= 1; i--) {
+    if (existsSync(`${path}.${i}`)) renameSync(`${path}.${i}`, `${path}.${i + 1}`)
+  }
+  if (maxFiles > 0) renameSync(path, `${path}.1`)
+  else rmSync(path, { force: true })
+  fileBytes = 0
+}
@@ -0,0 +1,172 @@
+/**
+ * Registry of connected browsers.
+ * Every Chrome profile running the Extension launches its own Native Host, which opens its own
+ * Unix socket connection. Connections are keyed by the stable browserId from the session_init
+ * handshake, so several browsers can stay connected and tool calls are routed to one of them.
+ */
+
+import { randomUUID } from 'node:crypto'
+import type { Socket } from 'node:net'
+import type { BrowserInfo, ProtocolCapabilities } from '@viyv-browser/shared'
+import { recordHeartbeat, setExtensionConnected } from './health.js'
+
+export interface ConnectedBrowser {
+  browserId: string
+  socket: Socket
+  profileName?: string
+  extensionVersion?: string
+  /** Capabilities from the handshake; undefined for Extensions that predate negotiation */
+  capabilities?: ProtocolCapabilities
+  /** False until the Extension answered session_init with its browser identity */
+  identified: boolean
+  connectedAt: number
+  lastHeartbeat: number
+}
+
+const browsers = new Map<string, ConnectedBrowser>()
+const connectListeners = new Set<(browser: ConnectedBrowser) => void>()
+const changeListeners = new Set<() => void>()
+// Browsers that completed a handshake since the server started, connected or not
+const seenBrowserIds = new Set<string>()
+
+/** Registers a new socket under a provisional ID until the handshake identifies it */
+export function registerBrowser(socket: Socket): ConnectedBrowser {
+  const browser: ConnectedBrowser = {
+    browserId: `pending-${randomUUID()}`,
+    socket,
+    identified: false,
+    connectedAt: Date.now(),
+    lastHeartbeat: Date.now(),
+  }
+  browsers.set(browser.browserId, browser)
+  setExtensionConnected(true)
+  return browser
+}
+
+/**
+ * Applies the handshake identity. A reconnect of the same browser (same browserId)
+ * replaces the stale connection.
+ */
+export function identifyBrowser(
+  browser: ConnectedBrowser,
+  info: Partial<BrowserInfo>,
+  capabilities?: ProtocolCapabilities,
+): void {
+  const browserId = info.browserId || browser.browserId.replace(/^pending-/, '')
+  const previous = browsers.get(browserId)
+  if (previous && previous !== browser) {
+    process.stderr.write(`[viyv-browser:mcp] Replacing stale connection of browser ${browserId}\n`)
+    browsers.delete(browserId)
+    previous.socket.destroy()
+  }
+
+  browsers.delete(browser.browserId)
+  browser.browserId = browserId
+  browser.profileName = info.profileName
+  browser.extensionVersion = info.extensionVersion
+  browser.capabilities = capabilities
+  browser.identified = true
+  browsers.set(browserId, browser)
+  seenBrowserIds.add(browserId)
+
+  process.stderr.write(
+    `[viyv-browser:mcp] Browser identified: ${browserId}${info.profileName ? ` (${info.profileName})` : ''}\n`,
+  )
+  for (const listener of connectListeners) {
+    listener(browser)
+  }
+  notifyChange()
+}
+
+export function unregisterBrowser(browser: ConnectedBrowser): void {
+  // Only remove if this connection is still the registered one for its ID
+  if (browsers.get(browser.browserId) === browser) {
+    browsers.delete(browser.browserId)
+  }
+  setExtensionConnected(browsers.size > 0)
+  notifyChange()
+}
+
+export function touchBrowser(browser: ConnectedBrowser): void {
+  browser.lastHeartbeat = Date.now()
+  recordHeartbeat()
+}
+
+/**
+ * Resolves the browser a call should go to. Without an explicit browserId the most
+ * recently connected browser is used (matching single-browser behaviour).
+ */
+export function getBrowser(browserId?: string): ConnectedBrowser | undefined {
+  if (browserId) {
+    const browser = browsers.get(browserId)
+    return browser && !browser.socket.destroyed ? browser : undefined
+  }
+  let latest: ConnectedBrowser | undefined
+  for (const browser of browsers.values()) {
+    if (browser.socket.destroyed) continue
+    if (!latest || browser.connectedAt >= latest.connectedAt) latest = browser
+  }
+  return latest
+}
+
+/**
+ * Whether the browser (any browser without `browserId`) has connected since the server
+ * started. Only then is a missing browser a dropped connection worth waiting for.
+ */
+export function hasBrowserConnected(browserId?: string): boolean {
+  return browserId ? seenBrowserIds.has(browserId) : seenBrowserIds.size > 0
+}
+
+export function listBrowsers(): Array<Omit<ConnectedBrowser, 'socket'> & { isDefault: boolean }> {
+  const defaultBrowser = getBrowser()
+  return Array.from(browsers.values())
+    .filter((browser) => !browser.socket.destroyed)
+    .map(({ socket: _socket, ...info }) => ({
+      ...info,
+      isDefault: info.browserId === defaultBrowser?.browserId,
+    }))
+}
+
+/** Runs `listener` whenever a browser completes the handshake. Returns an unsubscriber. */
+export function onBrowserConnected(listener: (browser: ConnectedBrowser) => void): () => void {
+  connectListeners.add(listener)
+  return () => connectListeners.delete(listener)
+}
+
+/**
+ * Resolves with the next browser that completes the handshake (only `browserId` if given),
+ * or null on timeout or when `signal` aborts.
+ */
+export function waitForBrowserConnection(
+  timeoutMs: number,
+  options: { browserId?: string; signal?: AbortSignal } = {},
+): Promise<ConnectedBrowser | null> {
+  const { browserId, signal } = options
+  return new Promise((resolve) => {
+    const finish = (browser: ConnectedBrowser | null) => {
+      clearTimeout(timer)
+      removeListener()
+      signal?.removeEventListener('abort', onAbort)
+      resolve(browser)
+    }
+    const onAbort = () => finish(null)
+    const removeListener = onBrowserConnected((browser) => {
+      if (!browserId || browser.browserId === browserId) finish(browser)
+    })
+    const timer = setTimeout(() => finish(null), timeoutMs)
+    if (signal?.aborted) finish(null)
+    else signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/** Runs `listener` whenever a browser is identified or disconnects. Returns an unsubscriber. */
+export function onBrowsersChanged(listener: () => void): () => void {
+  changeListeners.add(listener)
+  return () => changeListeners.delete(listener)
+}
+
+function notifyChange() {
+  for (const listener of changeListeners) {
+    listener()
+  }
+}
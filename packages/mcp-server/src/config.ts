@@ -0,0 +1,149 @@
+/**
+ * User configuration: timeouts and limits from ~/.config/viyv-browser/config.json.
+ *
+ * Later sources override earlier ones:
+ *   1. DEFAULT_SETTINGS
+ *   2. the config file (`--config <file>`, $VIYV_BROWSER_CONFIG or the default path)
+ *   3. environment variables named after the setting, e.g. VIYV_BROWSER_TIMEOUTS_CDP_COMMAND
+ *   4. `--set <section.key>=<value>` CLI flags
+ *
+ * The effective settings are sent to the Extension in session_init.
+ */
+
+import { existsSync, readFileSync } from 'node:fs'
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+import { DEFAULT_SETTINGS, type RuntimeSettings } from '@viyv-browser/shared'
+
+export interface LoadSettingsOptions {
+  /** Explicit config file; unlike the default path it must exist */
+  configPath?: string
+  /** `section.key=value` pairs from --set */
+  overrides?: string[]
+  env?: NodeJS.ProcessEnv
+}
+
+type Section = keyof RuntimeSettings
+
+/** Settings where 0 is meaningful (no reconnect grace, no rotated audit files) */
+const ZERO_ALLOWED = new Set(['timeouts.reconnectGrace', 'limits.auditLogFiles'])
+
+let settings: RuntimeSettings = DEFAULT_SETTINGS
+
+/** Effective settings (defaults until loadSettings has run) */
+export function getSettings(): RuntimeSettings {
+  return settings
+}
+
+/** Default config file location, following XDG_CONFIG_HOME */
+export function getDefaultConfigPath(env: NodeJS.ProcessEnv = process.env): string {
+  const configHome = env.XDG_CONFIG_HOME || join(homedir(), '.config')
+  return join(configHome, 'viyv-browser', 'config.json')
+}
+
+/**
+ * Loads and validates the settings and makes them the effective ones.
+ * Throws with a message naming the offending setting and its source.
+ */
+export function loadSettings(options: LoadSettingsOptions = {}): {
+  settings: RuntimeSettings
+  configPath?: string
+} {
+  const env = options.env ?? process.env
+  const merged = structuredClone(DEFAULT_SETTINGS)
+
+  const explicitPath = options.configPath ?? env.VIYV_BROWSER_CONFIG
+  const configPath = explicitPath ?? getDefaultConfigPath(env)
+  let loadedPath: string | undefined
+  if (existsSync(configPath)) {
+    let file: unknown
+    try {
+      file = JSON.parse(readFileSync(configPath, 'utf-8'))
+    } catch (error) {
+      throw new Error(`Invalid config file ${configPath}: ${(error as Error).message}`)
+    }
+    applyConfigFile(merged, file, configPath)
+    loadedPath = configPath
+  } else if (explicitPath) {
+    throw new Error(`Config file not found: ${configPath}`)
+  }
+
+  for (const [section, values] of Object.entries(DEFAULT_SETTINGS)) {
+    for (const key of Object.keys(values)) {
+      const name = `VIYV_BROWSER_${toEnvName(section)}_${toEnvName(key)}`
+      const value = env[name]
+      if (value !== undefined && value !== '') {
+        setValue(merged, `${section}.${key}`, parseNumber(value), name)
+      }
+    }
+  }
+
+  for (const override of options.overrides ?? []) {
+    const separator = override.indexOf('=')
+    if (separator < 0) {
+      throw new Error(`Invalid --set "${override}": expected <section.key>=<value>`)
+    }
+    const path = override.slice(0, separator).trim()
+    setValue(merged, path, parseNumber(override.slice(separator + 1)), '--set')
+  }
+
+  settings = merged
+  return { settings, configPath: loadedPath }
+}
+
+function applyConfigFile(target: RuntimeSettings, file: unknown, source: string) {
+  if (!isObject(file)) throw new Error(`Invalid config file ${source}: expected a JSON object`)
+  for (const [section, values] of Object.entries(file)) {
+    // Editors add "$schema"; it is not a setting
+    if (section === '$schema') continue
+    if (!isObject(values)) {
+      throw new Error(`Invalid config file ${source}: "${section}" must be an object`)
+    }
+    for (const [key, value] of Object.entries(values)) {
+      setValue(target, `${section}.${key}`, value, source)
+    }
+  }
+}
+
+function setValue(target: RuntimeSettings, path: string, value: unknown, source: string) {
+  const [section, key, ...rest] = path.split('.')
+  const values = target[section as Section] as Record<string, number> | undefined
+  if (!values || !key || rest.length > 0 || !(key in values)) {
+    throw new Error(`Unknown setting "${path}" (${source}). Known settings: ${listSettings()}`)
+  }
+  const min = ZERO_ALLOWED.has(path) ? 0 : 1
+  const max = path === 'screenshot.jpegQuality' ? 100 : undefined
+  if (
+    typeof value !== 'number' ||
+    !Number.isInteger(value) ||
+    value < min ||
+    (max !== undefined && value > max)
+  ) {
+    const range = max === undefined ? `>= ${min}` : `from ${min} to ${max}`
+    throw new Error(
+      `Invalid value for "${path}" (${source}): ${JSON.stringify(value)}. Must be an integer ${range}.`,
+    )
+  }
+  values[key] = value
+}
+
+function listSettings(): string {
+  return Object.entries(DEFAULT_SETTINGS)
+    .flatMap(([section, values]) => Object.keys(values).map((key) => `${section}.${key}`))
+    .join(', ')
+}
+
+// Env and CLI values are strings; keep the text when it is not a number so the error shows it
+function parseNumber(text: string): unknown {
+  const value = Number(text)
+  return text.trim() !== '' && Number.isFinite(value) ? value : text
+}
+
+// cdpCommand → CDP_COMMAND
+function toEnvName(name: string): string {
+  return name.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase()
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
@@ -0,0 +1,99 @@
+/**
+ * Library entry (`viyv-browser-mcp/direct`): calls browser tools without MCP.
+ *
+ * Like `replay`, the direct host takes the MCP server's place on the Unix socket and waits for
+ * the Extension's Native Host to connect; tool calls then go to that browser and return the
+ * same content blocks as over MCP. Used by the socket transport of @viyv-browser/client.
+ * Server-side tools (browser_event_poll, audit_recent, …) need a running MCP server instead.
+ */
+
+import { ViyvBrowserError } from '@viyv-browser/shared'
+import { getDefaultAgentId, setDefaultAgentId } from './agent-session.js'
+import { waitForBrowserConnection } from './browser-registry.js'
+import {
+  SERVER_SIDE_TOOLS,
+  callExtensionTool,
+  cleanupSocket,
+  createSocketServer,
+} from './server.js'
+import { getSocketPath, isSocketInUse } from './socket-auth.js'
+import { type ToolCallResult, errorResult } from './tool-result.js'
+
+export type { ToolCallResult, ToolContent } from './tool-result.js'
+
+export interface DirectHostOptions {
+  /** Default: the per-user socket the Native Host looks for */
+  socketPath?: string
+  /** Browser to use (default: the first one that connects) */
+  browserId?: string
+  /** Agent whose tab group the calls use (default: "default") */
+  agentId?: string
+  /** How long to wait for a browser to connect (default: 60s) */
+  connectTimeoutMs?: number
+}
+
+export interface DirectHost {
+  /** ID of the connected browser */
+  browserId: string
+  callTool(
+    tool: string,
+    input: Record<string, unknown>,
+    options?: { browserId?: string; signal?: AbortSignal },
+  ): Promise<ToolCallResult>
+  /** Stops listening; the Native Host reconnects to the next server that starts */
+  close(): void
+}
+
+const DEFAULT_CONNECT_TIMEOUT = 60_000
+
+export async function startDirectHost(options: DirectHostOptions = {}): Promise<DirectHost> {
+  const socketPath = options.socketPath ?? getSocketPath()
+  const connectTimeoutMs = options.connectTimeoutMs ?? DEFAULT_CONNECT_TIMEOUT
+  if (await isSocketInUse(socketPath)) {
+    throw new ViyvBrowserError(
+      'INTERNAL_ERROR',
+      `An MCP server is already listening on ${socketPath}`,
+      { socketPath },
+      'Stop it, or connect through it over stdio, SSE or HTTP instead.',
+    )
+  }
+  if (options.agentId) setDefaultAgentId(options.agentId)
+
+  const socketServer = createSocketServer(socketPath)
+  const browser = await waitForBrowserConnection(connectTimeoutMs, {
+    browserId: options.browserId,
+  })
+  if (!browser) {
+    socketServer.close()
+    cleanupSocket(socketPath)
+    throw new ViyvBrowserError(
+      'EXTENSION_NOT_CONNECTED',
+      `No browser connected within ${connectTimeoutMs / 1000}s`,
+      { socketPath },
+    )
+  }
+
+  return {
+    browserId: browser.browserId,
+    async callTool(tool, input, callOptions = {}) {
+      if (SERVER_SIDE_TOOLS.has(tool)) {
+        return errorResult(
+          new ViyvBrowserError(
+            'UNKNOWN_TOOL',
+            `Tool '${tool}' is handled by the MCP server and is not available here`,
+            { tool },
+            'Connect through an MCP server (stdio, SSE or HTTP) to use it.',
+          ),
+        )
+      }
+      return callExtensionTool(tool, input, getDefaultAgentId(), {
+        browserId: callOptions.browserId ?? browser.browserId,
+        signal: callOptions.signal,
+      })
+    },
+    close() {
+      socketServer.close()
+      cleanupSocket(socketPath)
+    },
+  }
+}
@@ -0,0 +1,514 @@
+/**
+ * Doctor command: diagnoses installation problems.
+ * `viyv-browser-mcp doctor [--extension-id <id>] [--browser <name|all>] [--manifest-dir <dir>]`
+ *
+ * Checks the Native Messaging manifest of each browser it is registered for, the wrapper
+ * script and the node binary it launches, runs a Native Host handshake round trip against a
+ * throwaway socket, checks that the Native Host and the MCP server agree on the socket path,
+ * and looks for stale sockets. Every failure is printed with the command or step that fixes it.
+ */
+
+import { spawn, spawnSync } from 'node:child_process'
+import { existsSync, mkdtempSync, readFileSync, readdirSync, rmSync, statSync } from 'node:fs'
+import { type Socket, connect, createServer } from 'node:net'
+import { platform, tmpdir } from 'node:os'
+import { dirname, isAbsolute, join } from 'node:path'
+import { NATIVE_HOST_NAME, PROTOCOL_VERSION } from '@viyv-browser/shared'
+import { createMessageReader } from './native-host/transport.js'
+import { getManifestPath, readWrapperSocket, resolveManifestTargets } from './setup.js'
+import {
+  computeProof,
+  createNonce,
+  createSocketSecret,
+  getDefaultSocketPath,
+  getSocketPath,
+  restrictSocket,
+  verifyProof,
+} from './socket-auth.js'
+
+interface DoctorOptions {
+  extensionId?: string
+  /** Browser name, comma-separated names, or 'all' (default: every browser with a manifest) */
+  browser?: string
+  manifestDir?: string
+}
+
+type CheckStatus = 'ok' | 'warn' | 'fail'
+
+interface CheckResult {
+  status: CheckStatus
+  message: string
+  fix?: string
+}
+
+interface NativeHostManifest {
+  name?: unknown
+  path?: unknown
+  type?: unknown
+  allowed_origins?: unknown
+}
+
+const EXTENSION_ID_PATTERN = /^[a-p]{32}$/
+const ORIGIN_PATTERN = /^chrome-extension:\/\/([a-p]{32})\/$/
+const MIN_NODE_MAJOR = 20
+/** Budget for the whole handshake round trip (the Native Host connects right away) */
+const HANDSHAKE_TIMEOUT = 10_000
+
+const SETUP_COMMAND =
+  'viyv-browser-mcp setup --extension-id "<your extension ID from chrome://extensions>"'
+
+// Setup command that fixes the browser currently being checked
+let setupFix = SETUP_COMMAND
+
+/** Runs all checks and returns the process exit code (1 if any check failed) */
+export async function runDoctor(options: DoctorOptions = {}): Promise<number> {
+  console.log('Viyv Browser MCP - Doctor')
+  console.log('=========================')
+
+  const results: CheckResult[] = []
+  const report = (result: CheckResult) => {
+    results.push(result)
+    const label = { ok: '[ok]  ', warn: '[warn]', fail: '[fail]' }[result.status]
+    console.log(`${label} ${result.message}`)
+    if (result.fix) console.log(`       Fix: ${result.fix}`)
+  }
+
+  const os = platform()
+  let targets = resolveManifestTargets(os, options.browser ?? 'all', options.manifestDir)
+  if (!options.browser && !options.manifestDir) {
+    // Check only the browsers setup registered; report Chrome's missing manifest otherwise
+    const registered = targets.filter((target) => existsSync(getManifestPath(target.dir)))
+    targets = registered.length > 0 ? registered : resolveManifestTargets(os, 'chrome')
+  }
+
+  for (const target of targets) {
+    console.log(`\n[${target.browser}]`)
+    setupFix =
+      target.browser === 'custom'
+        ? `${SETUP_COMMAND} --manifest-dir "${target.dir}"`
+        : `${SETUP_COMMAND} --browser ${target.browser}`
+    const manifest = checkManifest(report, getManifestPath(target.dir), options.extensionId)
+    const wrapperPath = typeof manifest?.path === 'string' ? manifest.path : null
+    if (wrapperPath && checkWrapper(report, wrapperPath)) {
+      report(
+        await checkHandshake(wrapperPath).catch(
+          (error): CheckResult => ({
+            status: 'fail',
+            message: `Native Host handshake could not be checked: ${(error as Error).message}`,
+          }),
+        ),
+      )
+      checkSocketPath(report, wrapperPath)
+    }
+  }
+  console.log('')
+  await checkSockets(report)
+
+  const failed = results.filter((r) => r.status === 'fail').length
+  const warned = results.filter((r) => r.status === 'warn').length
+  console.log(
+    failed === 0
+      ? `\nNo problems found${warned ? ` (${warned} warnings)` : ''}.`
+      : `\n${failed} problem(s) found. Apply the fixes above, then reload the extension in chrome://extensions.`,
+  )
+  return failed > 0 ? 1 : 0
+}
+
+function checkManifest(
+  report: (result: CheckResult) => void,
+  manifestPath: string,
+  extensionId?: string,
+): NativeHostManifest | null {
+  if (!existsSync(manifestPath)) {
+    report({ status: 'fail', message: `Manifest not found at ${manifestPath}`, fix: setupFix })
+    return null
+  }
+
+  let manifest: NativeHostManifest
+  try {
+    manifest = JSON.parse(readFileSync(manifestPath, 'utf-8'))
+  } catch (error) {
+    report({
+      status: 'fail',
+      message: `Manifest ${manifestPath} is not valid JSON (${(error as Error).message})`,
+      fix: setupFix,
+    })
+    return null
+  }
+  report({ status: 'ok', message: `Manifest found at ${manifestPath}` })
+
+  if (manifest.name !== NATIVE_HOST_NAME || manifest.type !== 'stdio') {
+    report({
+      status: 'fail',
+      message: `Manifest must have name "${NATIVE_HOST_NAME}" and type "stdio" (got ${JSON.stringify(manifest.name)}, ${JSON.stringify(manifest.type)})`,
+      fix: setupFix,
+    })
+  }
+  if (typeof manifest.path !== 'string' || !isAbsolute(manifest.path)) {
+    report({
+      status: 'fail',
+      message: `Manifest "path" must be an absolute path (got ${JSON.stringify(manifest.path)})`,
+      fix: setupFix,
+    })
+    manifest.path = undefined
+  }
+
+  checkAllowedOrigins(report, manifest.allowed_origins, extensionId)
+  return manifest
+}
+
+function checkAllowedOrigins(
+  report: (result: CheckResult) => void,
+  origins: unknown,
+  extensionId?: string,
+) {
+  if (!Array.isArray(origins) || origins.length === 0) {
+    report({ status: 'fail', message: 'Manifest has no allowed_origins', fix: setupFix })
+    return
+  }
+  // Chrome does not accept wildcards or origins without the trailing slash
+  const invalid = origins.filter(
+    (origin) => typeof origin !== 'string' || !ORIGIN_PATTERN.test(origin),
+  )
+  if (invalid.length > 0) {
+    report({
+      status: 'fail',
+      message: `Chrome ignores these allowed_origins: ${invalid.map((o) => JSON.stringify(o)).join(', ')} (expected chrome-extension://<32-letter ID>/, no wildcards)`,
+      fix: setupFix,
+    })
+  }
+  const ids = origins.flatMap((origin) => ORIGIN_PATTERN.exec(String(origin))?.[1] ?? [])
+  if (ids.length > 0) {
+    report({ status: 'ok', message: `allowed_origins lists extension ID(s) ${ids.join(', ')}` })
+  }
+
+  if (!extensionId) {
+    if (ids.length > 0) {
+      report({
+        status: 'warn',
+        message: 'Extension ID not checked; compare it with chrome://extensions',
+        fix: 'viyv-browser-mcp doctor --extension-id "<your extension ID>"',
+      })
+    }
+    return
+  }
+  if (!EXTENSION_ID_PATTERN.test(extensionId)) {
+    report({
+      status: 'fail',
+      message: `"${extensionId}" is not an extension ID (32 letters a-p)`,
+      fix: 'Copy the ID from chrome://extensions (enable Developer mode to see it)',
+    })
+  } else if (!ids.includes(extensionId)) {
+    report({
+      status: 'fail',
+      message: `Extension ${extensionId} is not in allowed_origins; Chrome will refuse to start the Native Host`,
+      fix: `viyv-browser-mcp setup --extension-id "${extensionId}"`,
+    })
+  }
+}
+
+/** Returns true when the wrapper looks runnable, so the handshake is worth trying */
+function checkWrapper(report: (result: CheckResult) => void, wrapperPath: string): boolean {
+  if (!existsSync(wrapperPath)) {
+    report({
+      status: 'fail',
+      message: `Wrapper script not found at ${wrapperPath}`,
+      fix: setupFix,
+    })
+    return false
+  }
+  if (platform() !== 'win32' && (statSync(wrapperPath).mode & 0o111) === 0) {
+    report({
+      status: 'fail',
+      message: `Wrapper script ${wrapperPath} is not executable`,
+      fix: `chmod +x "${wrapperPath}"`,
+    })
+    return false
+  }
+
+  // Written by setup: "<node>" "<binary>" --native-host
+  const match = /"([^"]+)"\s+"([^"]+)"\s+--native-host/.exec(readFileSync(wrapperPath, 'utf-8'))
+  if (!match) {
+    report({
+      status: 'fail',
+      message: `Wrapper script ${wrapperPath} does not launch "<node>" "<binary>" --native-host`,
+      fix: setupFix,
+    })
+    return false
+  }
+  const [, nodePath, binaryPath] = match
+  report({ status: 'ok', message: `Wrapper script ${wrapperPath}` })
+
+  let runnable = true
+  const version = spawnSync(nodePath, ['--version'], { encoding: 'utf-8', timeout: 5000 })
+  const major = Number(/^v(\d+)\./.exec(version.stdout ?? '')?.[1])
+  if (version.error || version.status !== 0) {
+    report({
+      status: 'fail',
+      message: `Wrapper node binary ${nodePath} does not run (${version.error?.message ?? `exit code ${version.status}`}); node was probably moved or upgraded`,
+      fix: `Re-run setup with the current node: ${setupFix}`,
+    })
+    runnable = false
+  } else if (!(major >= MIN_NODE_MAJOR)) {
+    report({
+      status: 'fail',
+      message: `Wrapper node binary ${nodePath} is ${version.stdout.trim()}; Node.js ${MIN_NODE_MAJOR}+ is required`,
+      fix: `Install Node.js ${MIN_NODE_MAJOR}+ and re-run setup`,
+    })
+    runnable = false
+  } else {
+    report({ status: 'ok', message: `Wrapper node binary ${nodePath} (${version.stdout.trim()})` })
+  }
+
+  if (!existsSync(binaryPath)) {
+    report({
+      status: 'fail',
+      message: `Wrapper binary ${binaryPath} not found; the package was probably moved or uninstalled`,
+      fix: `Reinstall viyv-browser-mcp, then: ${setupFix}`,
+    })
+    return false
+  }
+
+  // A wrapper pointing at another install may run an incompatible version
+  const installedVersion = findPackageVersion(binaryPath)
+  const ownVersion = findPackageVersion(process.argv[1])
+  if (installedVersion && ownVersion && installedVersion !== ownVersion) {
+    report({
+      status: 'warn',
+      message: `Wrapper runs viyv-browser-mcp ${installedVersion} (${binaryPath}), this is ${ownVersion}`,
+      fix: `Run setup from the version your AI client uses: ${setupFix}`,
+    })
+  } else {
+    report({
+      status: 'ok',
+      message: `Wrapper binary ${binaryPath}${installedVersion ? ` (${installedVersion})` : ''}`,
+    })
+  }
+  return runnable
+}
+
+/**
+ * Launches the wrapper like Chrome does and plays the MCP server on a throwaway socket:
+ * the Native Host must connect, pass the shared-secret handshake and forward session_init
+ * to "Chrome" (its stdout).
+ */
+async function checkHandshake(wrapperPath: string): Promise<CheckResult> {
+  const dir = mkdtempSync(join(tmpdir(), 'viyv-doctor-'))
+  const socketPath = join(dir, 'doctor.sock')
+  const secret = createSocketSecret(socketPath)
+  const serverNonce = createNonce()
+  let stage = 'Native Host did not connect to the socket'
+  let stderr = ''
+  let hostSocket: Socket | undefined
+  // Fails the check at once, e.g. when the host sends something that is not a message
+  let failHandshake = () => {}
+
+  const server = createServer((socket) => {
+    hostSocket = socket
+    stage = 'Native Host connected but did not start the handshake'
+    let hostNonce: string | null = null
+    let lineBuffer = ''
+    socket.on('data', (data) => {
+      lineBuffer += data.toString('utf-8')
+      const lines = lineBuffer.split('\n')
+      lineBuffer = lines.pop() ?? ''
+      for (const line of lines.filter(Boolean)) {
+        let msg: Record<string, unknown>
+        try {
+          msg = JSON.parse(line)
+        } catch {
+          stage = `Native Host sent a malformed message: ${line.slice(0, 80)}`
+          failHandshake()
+          return
+        }
+        if (!hostNonce && msg.type === 'session_auth' && typeof msg.nonce === 'string') {
+          hostNonce = msg.nonce
+          stage = 'Native Host rejected the server proof'
+          const init = {
+            id: createNonce(),
+            type: 'session_init',
+            agentId: 'doctor',
+            protocolVersion: PROTOCOL_VERSION,
+            auth: {
+              nonce: serverNonce,
+              proof: computeProof(secret, 'server', msg.nonce, serverNonce),
+            },
+            timestamp: Date.now(),
+          }
+          socket.write(`${JSON.stringify(init)}\n`)
+        } else if (hostNonce && msg.type === 'session_auth') {
+          stage = verifyProof(secret, 'host', serverNonce, hostNonce, msg.proof)
+            ? 'Native Host authenticated but did not forward session_init to Chrome'
+            : 'Native Host sent an invalid proof'
+        }
+      }
+    })
+    socket.on('error', () => {})
+  })
+  await new Promise<void>((resolve) => server.listen(socketPath, resolve))
+  restrictSocket(socketPath)
+
+  const child = spawn(wrapperPath, [], {
+    env: { ...process.env, VIYV_BROWSER_SOCKET: socketPath },
+    stdio: ['pipe', 'pipe', 'pipe'],
+  })
+  child.stderr.on('data', (data) => {
+    stderr += data.toString('utf-8')
+  })
+
+  const forwarded = await new Promise<boolean>((resolve) => {
+    const timer = setTimeout(() => resolve(false), HANDSHAKE_TIMEOUT)
+    failHandshake = () => {
+      clearTimeout(timer)
+      resolve(false)
+    }
+    createMessageReader(child.stdout, (message) => {
+      const msg = message as Record<string, unknown>
+      if (msg.type === 'session_init' && !msg.auth) {
+        clearTimeout(timer)
+        resolve(true)
+      }
+    })
+    child.once('error', (error) => {
+      stage = `Wrapper could not be started (${error.message})`
+      clearTimeout(timer)
+      resolve(false)
+    })
+    child.once('exit', (code) => {
+      stage = `${stage}; the Native Host exited with code ${code}`
+      clearTimeout(timer)
+      resolve(false)
+    })
+  })
+
+  child.stdin.end()
+  child.kill()
+  hostSocket?.destroy()
+  server.close()
+  rmSync(dir, { recursive: true, force: true })
+
+  if (forwarded) {
+    return { status: 'ok', message: 'Native Host handshake round trip succeeded' }
+  }
+  const lastLog = stderr.trim().split('\n').slice(-3).join(' | ')
+  return {
+    status: 'fail',
+    message: `Native Host handshake failed: ${stage}${lastLog ? ` (log: ${lastLog})` : ''}`,
+    fix: `Run the wrapper by hand to see its output: "${wrapperPath}"; then re-run setup`,
+  }
+}
+
+/**
+ * Compares the socket the Native Host connects to (pinned in the wrapper, else the default)
+ * with the one an MCP server started from this environment listens on.
+ */
+function checkSocketPath(report: (result: CheckResult) => void, wrapperPath: string) {
+  let serverSocket: string
+  let hostSocket: string
+  try {
+    serverSocket = getSocketPath()
+    hostSocket = readWrapperSocket(wrapperPath) ?? getDefaultSocketPath()
+  } catch {
+    return // checkSockets reports an unusable runtime directory
+  }
+  if (hostSocket === serverSocket) {
+    report({ status: 'ok', message: `Native Host and MCP server use socket ${serverSocket}` })
+    return
+  }
+  const override = process.env.VIYV_BROWSER_SOCKET
+  report({
+    status: 'fail',
+    message: `Native Host connects to ${hostSocket}, but the MCP server listens on ${serverSocket}`,
+    fix: override
+      ? `Re-run setup with the server's socket: VIYV_BROWSER_SOCKET="${override}" ${setupFix}`
+      : `Re-run setup without VIYV_BROWSER_SOCKET set: ${setupFix}`,
+  })
+}
+
+/** Finds the MCP server socket (live or stale) and leftovers of older socket locations */
+async function checkSockets(report: (result: CheckResult) => void) {
+  let socketPath: string
+  try {
+    socketPath = getSocketPath()
+  } catch (error) {
+    report({
+      status: 'fail',
+      message: (error as Error).message,
+      fix: 'Remove the directory or point VIYV_BROWSER_SOCKET elsewhere (then re-run setup)',
+    })
+    return
+  }
+
+  if (!existsSync(socketPath)) {
+    report({
+      status: 'warn',
+      message: `No MCP server socket at ${socketPath}; the server is not running`,
+      fix: 'Start your AI client (it launches viyv-browser-mcp), or run viyv-browser-mcp yourself',
+    })
+  } else if (!(await isSocketLive(socketPath))) {
+    report({
+      status: 'fail',
+      message: `Stale socket ${socketPath}: nothing is listening (the server crashed or was killed)`,
+      fix: `rm "${socketPath}" "${socketPath}.key", then restart your AI client`,
+    })
+  } else if (!existsSync(`${socketPath}.key`)) {
+    report({
+      status: 'fail',
+      message: `MCP server at ${socketPath} has no ${socketPath}.key; the Native Host cannot authenticate`,
+      fix: 'Restart your AI client so the MCP server writes a fresh key',
+    })
+  } else {
+    report({ status: 'ok', message: `MCP server is listening on ${socketPath}` })
+  }
+
+  // Sockets in /tmp from versions before the per-user runtime directory
+  const legacy = listLegacySockets()
+  if (legacy.length > 0) {
+    report({
+      status: 'warn',
+      message: `Leftover sockets from older versions: ${legacy.join(', ')}`,
+      fix: `rm ${legacy.map((path) => `"${path}"`).join(' ')}`,
+    })
+  }
+}
+
+function isSocketLive(socketPath: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const probe = connect(socketPath)
+    probe.once('connect', () => {
+      probe.destroy()
+      resolve(true)
+    })
+    probe.once('error', () => resolve(false))
+  })
+}
+
+function listLegacySockets(): string[] {
+  try {
+    return readdirSync('/tmp')
+      .filter((name) => /^viyv-browser(-\d+)?\.sock$/.test(name))
+      .map((name) => join('/tmp', name))
+  } catch {
+    return []
+  }
+}
+
+/** Version of the viyv-browser-mcp package containing `file` */
+function findPackageVersion(file: string): string | undefined {
+  let dir = dirname(file)
+  for (let depth = 0; depth < 5; depth++) {
+    const packageJson = join(dir, 'package.json')
+    if (existsSync(packageJson)) {
+      try {
+        const pkg = JSON.parse(readFileSync(packageJson, 'utf-8'))
+        if (pkg.name === 'viyv-browser-mcp') return pkg.version
+      } catch {
+        // Unreadable package.json: keep looking upwards
+      }
+    }
+    const parent = dirname(dir)
+    if (parent === dir) break
+    dir = parent
+  }
+  return undefined
+}
@@ -1,18 +1,47 @@
 /**
- * Event bridge: forwards browser events from Extension to stdout
- * for consumption by viyv Daemon EventTriggerManager.
+ * Event bridge: matches browser events from Extension against subscriptions,
+ * keeps matched events in a bounded ring buffer for cursor-based replay
+ * (browser_event_poll) and forwards them to connected MCP sessions.
  */
 
 import type { BrowserEventType, EventSubscription } from '@viyv-browser/shared'
+import { getSettings } from './config.js'
+
+export interface BufferedEvent {
+  type: 'browser_event'
+  /** Server-assigned, strictly increasing across Extension reconnects; used as poll cursor */
+  sequenceNumber: number
+  subscriptionId: string
+  eventType: BrowserEventType
+  agentId: string
+  tabId: number
+  url: string
+  payload: Record<string, unknown>
+  timestamp: number
+}
+
+export interface EventPollResult {
+  events: BufferedEvent[]
+  /** Pass as `cursor` on the next poll */
+  cursor: number
+  hasMore: boolean
+  /** True when events after the given cursor may have been evicted before being polled */
+  missedEvents: boolean
+}
 
 const subscriptions = new Map<string, EventSubscription>()
-const eventListeners = new Set<(event: Record<string, unknown>) => void>()
+const eventListeners = new Set<(event: BufferedEvent) => void>()
 
-export function addEventListener(cb: (event: Record<string, unknown>) => void) {
+// Ring buffer ordered by sequenceNumber, bounded by entry count and serialized size
+const eventBuffer: Array<{ event: BufferedEvent; bytes: number }> = []
+let bufferedBytes = 0
+let lastSequenceNumber = 0
+
+export function addEventListener(cb: (event: BufferedEvent) => void) {
   eventListeners.add(cb)
 }
 
-export function removeEventListener(cb: (event: Record<string, unknown>) => void) {
+export function removeEventListener(cb: (event: BufferedEvent) => void) {
   eventListeners.delete(cb)
 }
 
@@ -20,7 +49,9 @@ export function addSubscription(sub: EventSubscription): void {
   subscriptions.set(sub.id, sub)
 }
 
-export function removeSubscription(subId: string): boolean {
+export function removeSubscription(subId: string, agentId?: string): boolean {
+  // Agents may only remove their own subscriptions
+  if (agentId && subscriptions.get(subId)?.agentId !== agentId) return false
   return subscriptions.delete(subId)
 }
 
@@ -56,15 +87,67 @@ export function processEvent(event: {
     if (!sub.eventTypes.includes(event.eventType)) continue
     if (sub.urlPattern && !event.url.includes(sub.urlPattern)) continue
 
-    // Forward to all listeners
-    const payload = {
+    // Extension sequence numbers restart with the service worker, so re-sequence here
+    const buffered: BufferedEvent = {
       type: 'browser_event',
       subscriptionId: sub.id,
       ...event,
+      sequenceNumber: ++lastSequenceNumber,
       timestamp: Date.now(),
     }
+    bufferEvent(buffered)
+
+    // Forward to all listeners
     for (const listener of eventListeners) {
-      listener(payload)
+      listener(buffered)
+    }
+  }
+}
+
+/**
+ * Returns an agent's buffered events with sequenceNumber > cursor, oldest first.
+ * A cursor of 0 returns everything still buffered.
+ */
+export function pollEvents(
+  agentId: string,
+  cursor: number,
+  limit: number,
+  subscriptionId?: string,
+): EventPollResult {
+  const events: BufferedEvent[] = []
+  let hasMore = false
+  for (const { event } of eventBuffer) {
+    if (event.sequenceNumber <= cursor || event.agentId !== agentId) continue
+    if (subscriptionId && event.subscriptionId !== subscriptionId) continue
+    if (events.length >= limit) {
+      hasMore = true
+      break
     }
+    events.push(event)
+  }
+
+  const oldest = eventBuffer[0]?.event.sequenceNumber ?? lastSequenceNumber + 1
+  return {
+    events,
+    // Once caught up, advance to the head so later polls skip other agents' events
+    cursor: hasMore ? (events[events.length - 1]?.sequenceNumber ?? cursor) : lastSequenceNumber,
+    hasMore,
+    missedEvents: cursor > 0 && cursor < oldest - 1,
+  }
+}
+
+function bufferEvent(event: BufferedEvent) {
+  const bytes = Buffer.byteLength(JSON.stringify(event), 'utf-8')
+  eventBuffer.push({ event, bytes })
+  bufferedBytes += bytes
+
+  // Evict oldest events to stay within both limits
+  const { limits } = getSettings()
+  while (
+    eventBuffer.length > limits.eventBuffer ||
+    (bufferedBytes > limits.eventBufferBytes && eventBuffer.length > 1)
+  ) {
+    const evicted = eventBuffer.shift()
+    if (evicted) bufferedBytes -= evicted.bytes
   }
 }
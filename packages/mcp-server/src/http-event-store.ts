@@ -0,0 +1,60 @@
+/**
+ * Bounded in-memory EventStore for Streamable HTTP resumability.
+ * Clients reconnecting with a Last-Event-ID header get the messages they missed
+ * on that stream replayed, as long as they have not been evicted yet.
+ */
+
+import type {
+  EventId,
+  EventStore,
+  StreamId,
+} from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js'
+
+const MAX_STORED_EVENTS = 1000
+
+interface StoredEvent {
+  streamId: StreamId
+  message: JSONRPCMessage
+}
+
+export function createEventStore(maxEvents = MAX_STORED_EVENTS): EventStore {
+  // Map preserves insertion order, so iteration order is event order
+  const events = new Map<EventId, StoredEvent>()
+  let eventCounter = 0
+
+  return {
+    async storeEvent(streamId, message) {
+      const eventId = `${++eventCounter}`
+      events.set(eventId, { streamId, message })
+      // Evict oldest events to stay within limit
+      while (events.size > maxEvents) {
+        const oldest = events.keys().next().value
+        if (oldest) events.delete(oldest)
+        else break
+      }
+      return eventId
+    },
+
+    async getStreamIdForEventId(eventId) {
+      return events.get(eventId)?.streamId
+    },
+
+    async replayEventsAfter(lastEventId, { send }) {
+      const last = events.get(lastEventId)
+      if (!last) return ''
+
+      let found = false
+      for (const [eventId, event] of events) {
+        if (eventId === lastEventId) {
+          found = true
+          continue
+        }
+        if (found && event.streamId === last.streamId) {
+          await send(eventId, event.message)
+        }
+      }
+      return last.streamId
+    },
+  }
+}
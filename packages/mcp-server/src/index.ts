@@ -3,27 +3,107 @@
  *
  * Two modes:
  *   viyv-browser-mcp          → MCP Server mode (stdio transport + Unix socket)
+ *   viyv-browser-mcp --transport sse|http → MCP Server mode over SSE or Streamable HTTP
+ *   viyv-browser-mcp --reconnect-grace <ms> → how long calls wait for the Extension to reconnect
+ *   viyv-browser-mcp --config <file> → timeouts and limits (default ~/.config/viyv-browser/config.json)
+ *   viyv-browser-mcp --set <section.key>=<value> → override one setting of the config file
+ *   viyv-browser-mcp --tools <profile|names> --exclude-tools <names> → limit the exposed tools
+ *   viyv-browser-mcp --audit-log <file> → append a JSONL audit record per tool call
+ *   viyv-browser-mcp --record <dir> → write a replayable trace per MCP session
+ *   viyv-browser-mcp replay <trace> → re-issue a recorded session against a connected browser
+ *   viyv-browser-mcp --mock-browser [fixture.json] → serve tools from an in-process fake browser
  *   viyv-browser-mcp --native-host → Native Messaging Host mode (Chrome bridge)
- *   viyv-browser-mcp setup    → Register Native Messaging Host manifest
+ *   viyv-browser-mcp setup [--browser <name|all>] [--manifest-dir <dir>]
+ *                             → Register Native Messaging Host manifest
+ *   viyv-browser-mcp uninstall → Remove the manifests and wrapper scripts setup created
+ *   viyv-browser-mcp doctor   → Diagnose installation problems
  */
 
-import { existsSync, readdirSync } from 'node:fs'
+import { existsSync } from 'node:fs'
+import { resolve } from 'node:path'
 import { startMcpServer } from './server.js'
+import { isValidAgentId } from './agent-session.js'
+import { loadSettings } from './config.js'
+import { runDoctor } from './doctor.js'
+import { type MockFixture, loadFixture } from './mock-browser/fixture.js'
+import { startMockBrowser } from './mock-browser/index.js'
 import { startBridge } from './native-host/bridge.js'
-import { runSetup } from './setup.js'
+import { runReplay } from './replay.js'
+import { runSetup, runUninstall } from './setup.js'
+import { getSocketPath } from './socket-auth.js'
+import { loadToolPolicy } from './tool-profiles.js'
 
 const args = process.argv.slice(2)
 
-if (args.includes('setup')) {
+if (args[0] === 'replay') {
+  // Replay mode: re-issue a recorded session against a connected browser
+  const tracePath = args[1]
+  if (!tracePath || tracePath.startsWith('--')) {
+    process.stderr.write(
+      '[viyv-browser:replay] Usage: viyv-browser-mcp replay <trace> [--pause <ms>] [--realtime] [--assert] [--browser-id <id>] [--agent-id <id>] [--agent-name <name>]\n',
+    )
+    process.exit(1)
+  }
+  const pauseIdx = args.indexOf('--pause')
+  const pauseMs = pauseIdx >= 0 ? Number(args[pauseIdx + 1]) : undefined
+  if (pauseMs !== undefined && !(Number.isFinite(pauseMs) && pauseMs >= 0)) {
+    process.stderr.write(`[viyv-browser:replay] Invalid --pause: "${args[pauseIdx + 1]}".\n`)
+    process.exit(1)
+  }
+  const browserIdIdx = args.indexOf('--browser-id')
+  const agentIdIdx = args.indexOf('--agent-id')
+  const agentNameIdx = args.indexOf('--agent-name')
+  const agentId = agentIdIdx >= 0 ? args[agentIdIdx + 1] : undefined
+  if (agentId !== undefined && !isValidAgentId(agentId)) {
+    process.stderr.write(
+      `[viyv-browser:replay] Invalid --agent-id: "${agentId}" (1-64 chars of A-Z a-z 0-9 . _ : -).\n`,
+    )
+    process.exit(1)
+  }
+  loadUserSettings('replay')
+
+  runReplay(resolve(tracePath), {
+    socketPath: resolveSocketPath('mcp'),
+    pauseMs,
+    realtime: args.includes('--realtime'),
+    assert: args.includes('--assert'),
+    browserId: browserIdIdx >= 0 ? args[browserIdIdx + 1] : undefined,
+    agentId,
+    agentName: agentNameIdx >= 0 ? args[agentNameIdx + 1] : undefined,
+  })
+    .then((code) => process.exit(code))
+    .catch((error) => {
+      process.stderr.write(`[viyv-browser:replay] ${(error as Error).message}\n`)
+      process.exit(1)
+    })
+} else if (args[0] === 'doctor') {
+  // Doctor mode: diagnose manifest, wrapper, handshake and socket problems
+  runDoctor({
+    extensionId: readOption('--extension-id'),
+    browser: readOption('--browser'),
+    manifestDir: readOption('--manifest-dir'),
+  })
+    .then((code) => process.exit(code))
+    .catch((error) => {
+      // e.g. an unsupported platform: report it like a failed check
+      console.log(`[fail] ${(error as Error).message}`)
+      process.exit(1)
+    })
+} else if (args[0] === 'uninstall') {
+  // Uninstall mode: remove the Native Messaging Host registration
+  runUninstall({ browser: readOption('--browser'), manifestDir: readOption('--manifest-dir') })
+} else if (args.includes('setup')) {
   // Setup mode: register Native Messaging Host
-  const extensionIdIdx = args.indexOf('--extension-id')
-  const extensionId = extensionIdIdx >= 0 ? args[extensionIdIdx + 1] : undefined
-  runSetup({ extensionId })
+  runSetup({
+    extensionId: readOption('--extension-id'),
+    browser: readOption('--browser'),
+    manifestDir: readOption('--manifest-dir'),
+  })
 } else if (args.includes('--native-host')) {
   // Native Messaging Host mode: bridge Chrome ↔ MCP Server
   // Socket may not exist yet (MCP Server starts when AI client connects).
   // Wait and retry until the socket appears.
-  const SOCKET_PATH = '/tmp/viyv-browser.sock'
+  const SOCKET_PATH = resolveSocketPath('native-host')
   const POLL_INTERVAL = 2000
   const MAX_WAIT = 120_000
 
@@ -31,13 +111,12 @@ if (args.includes('setup')) {
     const start = Date.now()
 
     function poll() {
-      const socketPath = findSocketPath()
-      if (socketPath) {
+      if (existsSync(SOCKET_PATH)) {
         process.stderr.write(
-          `[viyv-browser:native-host] Found socket at ${socketPath}\n`,
+          `[viyv-browser:native-host] Found socket at ${SOCKET_PATH}\n`,
         )
         startBridge({
-          socketPath,
+          socketPath: SOCKET_PATH,
           onError: (error) => {
             process.stderr.write(`[viyv-browser:native-host] Error: ${error.message}\n`)
           },
@@ -63,41 +142,103 @@ if (args.includes('setup')) {
 
   waitForSocket()
 } else {
-  // MCP Server mode (default) — fixed path so bridge can always find it on reconnect
-  const socketPath = '/tmp/viyv-browser.sock'
+  // MCP Server mode (default) — fixed per-user path so bridge can always find it on reconnect
+  const socketPath = resolveSocketPath('mcp')
   const agentNameIdx = args.indexOf('--agent-name')
   const agentName = agentNameIdx >= 0 ? args[agentNameIdx + 1] : undefined
 
   const transportIdx = args.indexOf('--transport')
   const transportMode = transportIdx >= 0 ? args[transportIdx + 1] : 'stdio'
-  if (transportMode !== 'stdio' && transportMode !== 'sse') {
+  if (transportMode !== 'stdio' && transportMode !== 'sse' && transportMode !== 'http') {
     process.stderr.write(
-      `[viyv-browser:mcp] Invalid transport: "${transportMode}". Must be "stdio" or "sse".\n`,
+      `[viyv-browser:mcp] Invalid transport: "${transportMode}". Must be "stdio", "sse" or "http".\n`,
     )
     process.exit(1)
   }
   const portIdx = args.indexOf('--port')
   const port = portIdx >= 0 ? Number(args[portIdx + 1]) : undefined
 
-  startMcpServer(socketPath, agentName, { transport: transportMode, port })
-}
+  loadUserSettings('mcp')
 
-function findSocketPath(): string | null {
-  const envSocket = process.env.VIYV_BROWSER_SOCKET
-  if (envSocket) return envSocket
+  const toolsOption = readOption('--tools')
+  const excludeToolsOption = readOption('--exclude-tools')
+  try {
+    const policy = loadToolPolicy({ tools: toolsOption, excludeTools: excludeToolsOption })
+    if (toolsOption || excludeToolsOption) {
+      process.stderr.write(
+        `[viyv-browser:mcp] Tool profile ${policy.profile}: ${policy.tools.length} tools enabled\n`,
+      )
+    }
+  } catch (error) {
+    process.stderr.write(`[viyv-browser:mcp] ${(error as Error).message}\n`)
+    process.exit(1)
+  }
 
-  // Check fixed socket path first
-  const fixedPath = '/tmp/viyv-browser.sock'
-  if (existsSync(fixedPath)) return fixedPath
+  const auditLogIdx = args.indexOf('--audit-log')
+  const auditLogPath = auditLogIdx >= 0 ? args[auditLogIdx + 1] : undefined
+  if (auditLogIdx >= 0 && (!auditLogPath || auditLogPath.startsWith('--'))) {
+    process.stderr.write('[viyv-browser:mcp] --audit-log requires a file path.\n')
+    process.exit(1)
+  }
+
+  const recordIdx = args.indexOf('--record')
+  const recordDir = recordIdx >= 0 ? args[recordIdx + 1] : undefined
+  if (recordIdx >= 0 && (!recordDir || recordDir.startsWith('--'))) {
+    process.stderr.write('[viyv-browser:mcp] --record requires a directory.\n')
+    process.exit(1)
+  }
+
+  // The fixture is optional: `--mock-browser` alone serves generic pages
+  const mockIdx = args.indexOf('--mock-browser')
+  const fixturePath = mockIdx >= 0 ? args[mockIdx + 1] : undefined
+  let fixture: MockFixture | undefined
+  if (fixturePath && !fixturePath.startsWith('--')) {
+    try {
+      fixture = loadFixture(resolve(fixturePath))
+    } catch (error) {
+      process.stderr.write(`[viyv-browser:mcp] ${(error as Error).message}\n`)
+      process.exit(1)
+    }
+  }
+
+  startMcpServer(socketPath, agentName, {
+    transport: transportMode,
+    port,
+    auditLogPath: auditLogPath && resolve(auditLogPath),
+    recordDir: recordDir && resolve(recordDir),
+  })
+  if (mockIdx >= 0) startMockBrowser({ socketPath, fixture })
+}
 
-  // Fallback: scan for legacy PID-based sockets
+/** Per-user socket path; exits when the runtime directory is unsafe to use */
+function resolveSocketPath(component: 'mcp' | 'native-host'): string {
   try {
-    const tmpFiles = readdirSync('/tmp')
-    const socketFile = tmpFiles.find((f) => f.startsWith('viyv-browser-') && f.endsWith('.sock'))
-    if (socketFile) return `/tmp/${socketFile}`
-  } catch {
-    // Ignore
+    return getSocketPath()
+  } catch (error) {
+    process.stderr.write(`[viyv-browser:${component}] ${(error as Error).message}\n`)
+    process.exit(1)
   }
+}
+
+/** Loads config file, env and CLI settings; exits on invalid values */
+function loadUserSettings(component: 'mcp' | 'replay') {
+  const overrides = args.flatMap((arg, i) => (arg === '--set' ? [args[i + 1] ?? ''] : []))
+  const grace = readOption('--reconnect-grace')
+  if (grace !== undefined) overrides.push(`timeouts.reconnectGrace=${grace}`)
+  const configPath = readOption('--config')
+  try {
+    const loaded = loadSettings({ configPath: configPath && resolve(configPath), overrides })
+    if (loaded.configPath) {
+      process.stderr.write(`[viyv-browser:${component}] Loaded config from ${loaded.configPath}\n`)
+    }
+  } catch (error) {
+    process.stderr.write(`[viyv-browser:${component}] ${(error as Error).message}\n`)
+    process.exit(1)
+  }
+}
 
-  return null
+/** Value following a CLI flag, e.g. `--browser edge` */
+function readOption(flag: string): string | undefined {
+  const idx = args.indexOf(flag)
+  return idx >= 0 ? args[idx + 1] : undefined
 }
@@ -0,0 +1,85 @@
+/**
+ * Fixture format of `--mock-browser <fixture.json>`: the pages the mock browser knows and
+ * scripted tool responses. Every field is optional; without a fixture each URL opens a generic
+ * page with a heading, a search box and a submit button.
+ */
+
+import { readFileSync } from 'node:fs'
+import type { BrowserEventType, ErrorPayload } from '@viyv-browser/shared'
+
+export interface MockElement {
+  /** Ref used by click, form_input, read_page and find (e.g. "ref_1") */
+  ref: string
+  /** ARIA role or tag name, e.g. "button", "link", "textbox" */
+  role: string
+  name?: string
+  value?: string
+  /** Clicking the element navigates its tab to this URL */
+  navigate?: string
+  /** Clicking the element (or Enter while it has focus) submits a form */
+  submit?: boolean
+  /** Ref clicks fail with ELEMENT_NOT_ACTIONABLE */
+  disabled?: boolean
+  /** Element covering this one, e.g. "<div#cookie-banner>"; ref clicks fail with ELEMENT_NOT_ACTIONABLE */
+  interceptedBy?: string
+}
+
+export interface MockPage {
+  title?: string
+  /** get_page_text result */
+  text?: string
+  elements?: MockElement[]
+  /** read_console_messages entries, logged when the page loads */
+  console?: Array<{ level: string; text: string }>
+  /** read_network_requests entries, recorded when the page loads */
+  network?: Array<{ url: string; method?: string; status?: number; type?: string }>
+  /** page_data_extract result */
+  data?: Record<string, unknown>
+}
+
+/** Replaces the page model's answer for one call */
+export interface ScriptedResponse {
+  result?: Record<string, unknown>
+  error?: ErrorPayload
+  /** Answer after this long, e.g. to exercise timeouts and cancellation */
+  delayMs?: number
+}
+
+/** Browser event emitted on its own, independent of tool calls */
+export interface ScriptedEvent {
+  eventType: BrowserEventType
+  /** Delay after the connection, or the interval when `repeat` is set */
+  afterMs: number
+  repeat?: boolean
+  /** URL of the event's tab (default: the agent's first tab) */
+  url?: string
+  payload?: Record<string, unknown>
+}
+
+export interface MockFixture {
+  /** Pages by URL */
+  pages?: Record<string, MockPage>
+  /**
+   * Scripted responses by tool name. A single response answers every call; an array is consumed
+   * one entry per call, and the page model answers once it is used up.
+   */
+  responses?: Record<string, ScriptedResponse | ScriptedResponse[]>
+  events?: ScriptedEvent[]
+  /** Size of the generated screenshot data, e.g. to exercise chunking (default: a 1x1 PNG) */
+  screenshotBytes?: number
+  /** Interval of the mock browser's own session_heartbeat messages (default: 30s) */
+  heartbeatMs?: number
+}
+
+export function loadFixture(path: string): MockFixture {
+  let fixture: unknown
+  try {
+    fixture = JSON.parse(readFileSync(path, 'utf-8'))
+  } catch (error) {
+    throw new Error(`Invalid mock browser fixture ${path}: ${(error as Error).message}`)
+  }
+  if (!fixture || typeof fixture !== 'object' || Array.isArray(fixture)) {
+    throw new Error(`Invalid mock browser fixture ${path}: expected a JSON object`)
+  }
+  return fixture as MockFixture
+}
@@ -0,0 +1,327 @@
+/**
+ * `--mock-browser [fixture.json]`: an in-process stand-in for the Chrome Extension, for
+ * developing MCP clients without Chrome.
+ *
+ * The mock speaks Native Messaging to a regular Native Host bridge, which connects to the
+ * server's Unix socket, so the handshake, chunking, compression, timeouts, cancellation and
+ * event subscriptions all run through the production code paths. Tool calls are answered by a
+ * fake page model (page-model.ts) or by the fixture's scripted responses.
+ */
+
+import { randomUUID } from 'node:crypto'
+import { PassThrough } from 'node:stream'
+import {
+  BROWSER_EVENT_TYPES,
+  type BatchStep,
+  type BrowserEventType,
+  MCP_SERVER,
+  PROTOCOL_VERSION,
+  type ProtocolCapabilities,
+  TIMEOUTS,
+  type ToolPolicy,
+  ViyvBrowserError,
+  chunkMessage,
+  isChunkedMessage,
+  parseToolInput,
+} from '@viyv-browser/shared'
+import { startBridge } from '../native-host/bridge.js'
+import { createChunkReassembler } from '../native-host/compression.js'
+import { createMessageReader, writeMessage } from '../native-host/transport.js'
+import { SERVER_SIDE_TOOLS } from '../server.js'
+import { allTools } from '../tools/index.js'
+import type { MockFixture, ScriptedResponse } from './fixture.js'
+import { type EventEmitter, createPageModel } from './page-model.js'
+
+export interface MockBrowserOptions {
+  socketPath: string
+  fixture?: MockFixture
+}
+
+interface IncomingMessage {
+  id: string
+  type: string
+  agentId: string
+  tool?: string
+  input?: Record<string, unknown>
+  requestId?: string
+  reportProgress?: boolean
+  replay?: boolean
+  toolPolicy?: ToolPolicy
+}
+
+/** Same ID in every run, so switch_browser and --browser-id work against the mock */
+export const MOCK_BROWSER_ID = 'mock-browser'
+
+const EXTENSION_VERSION = `${MCP_SERVER.VERSION}-mock`
+
+/** Tool results kept for calls the server re-sends after a reconnect */
+const COMPLETED_RESULTS_MAX = 100
+
+export function startMockBrowser(options: MockBrowserOptions): void {
+  const fixture = options.fixture ?? {}
+  // Native Messaging in both directions, as Chrome would see it
+  const toHost = new PassThrough()
+  const fromHost = new PassThrough()
+
+  const capabilities: ProtocolCapabilities = {
+    tools: allTools.map((tool) => tool.name).filter((name) => !SERVER_SIDE_TOOLS.has(name)),
+    chunking: true,
+    compression: true,
+    cancellation: true,
+    progress: true,
+    eventTypes: [...BROWSER_EVENT_TYPES],
+  }
+
+  let sessionAgentId = ''
+  let toolPolicy: ToolPolicy | undefined
+  let sequenceNumber = 0
+  let eventsScheduled = false
+  // Arrays are consumed one entry per call; a single response answers every call
+  const scripted = new Map<string, ScriptedResponse | ScriptedResponse[]>()
+  for (const [tool, response] of Object.entries(fixture.responses ?? {})) {
+    scripted.set(tool, Array.isArray(response) ? [...response] : response)
+  }
+  const inFlight = new Map<string, { timer: ReturnType<typeof setTimeout>; agentId: string }>()
+  const completed = new Map<string, Record<string, unknown>>()
+
+  const send = (message: Record<string, unknown>) => {
+    const chunks = chunkMessage(
+      JSON.stringify(message),
+      typeof message.id === 'string' ? message.id : randomUUID(),
+      typeof message.agentId === 'string' ? message.agentId : '',
+    )
+    for (const part of chunks ?? [message]) writeMessage(toHost, part)
+  }
+
+  const emit: EventEmitter = (event) => {
+    send({
+      id: randomUUID(),
+      type: 'browser_event',
+      ...event,
+      timestamp: Date.now(),
+      sequenceNumber: ++sequenceNumber,
+    })
+  }
+
+  const getExcludingProfile = (tool: string) =>
+    toolPolicy && !toolPolicy.tools.includes(tool) ? toolPolicy.profile : null
+  const model = createPageModel(fixture, emit, EXTENSION_VERSION, getExcludingProfile)
+
+  function sendToolResult(message: Record<string, unknown>) {
+    completed.set(message.id as string, message)
+    if (completed.size > COMPLETED_RESULTS_MAX) {
+      completed.delete(completed.keys().next().value as string)
+    }
+    send(message)
+  }
+
+  function sendToolError(msg: IncomingMessage, error: ViyvBrowserError) {
+    sendToolResult({
+      id: msg.id,
+      type: 'tool_result',
+      agentId: msg.agentId,
+      success: false,
+      error: error.toJSON(),
+      timestamp: Date.now(),
+    })
+  }
+
+  function runToolCall(msg: IncomingMessage) {
+    const tool = msg.tool as string
+    // Validated before the policy check, as in the Extension
+    let input: Record<string, unknown>
+    try {
+      input = parseToolInput(tool, msg.input)
+    } catch (error) {
+      sendToolError(msg, error as ViyvBrowserError)
+      return
+    }
+    // The MCP server's tool profile applies whoever sends the call
+    const excludingProfile = getExcludingProfile(tool)
+    if (excludingProfile !== null) {
+      sendToolError(
+        msg,
+        new ViyvBrowserError(
+          'PERMISSION_DENIED',
+          `Tool '${tool}' is not enabled by the MCP server's tool profile (${excludingProfile})`,
+          { tool, profile: excludingProfile },
+        ),
+      )
+      return
+    }
+
+    const entry = scripted.get(tool)
+    const response = Array.isArray(entry) ? entry.shift() : entry
+
+    const answer = () => {
+      inFlight.delete(msg.id)
+      const tabId = typeof input.tabId === 'number' ? input.tabId : undefined
+      const urlBefore = tabId !== undefined ? model.getTabUrl(tabId) : undefined
+      let outcome: Record<string, unknown>
+      if (response?.error) {
+        outcome = { success: false, error: ViyvBrowserError.fromPayload(response.error).toJSON() }
+      } else if (response?.result) {
+        outcome = { success: true, result: response.result }
+      } else {
+        try {
+          const progress = (value: number, total: number, message: string) => {
+            if (!msg.reportProgress) return
+            send({
+              id: randomUUID(),
+              type: 'tool_progress',
+              agentId: msg.agentId,
+              requestId: msg.id,
+              progress: value,
+              total,
+              message,
+              timestamp: Date.now(),
+            })
+          }
+          outcome = { success: true, result: model.callTool(msg.agentId, tool, input, progress) }
+        } catch (error) {
+          const payload =
+            error instanceof ViyvBrowserError
+              ? error.toJSON()
+              : new ViyvBrowserError('INTERNAL_ERROR', String(error)).toJSON()
+          outcome = { success: false, error: payload }
+        }
+      }
+      // tabs_create reports the new tab in its result
+      const result = outcome.result as Record<string, unknown> | undefined
+      const pageTabId = tabId ?? (typeof result?.tabId === 'number' ? result.tabId : undefined)
+      sendToolResult({
+        id: msg.id,
+        type: 'tool_result',
+        agentId: msg.agentId,
+        ...outcome,
+        page:
+          pageTabId === undefined
+            ? undefined
+            : { tabId: pageTabId, urlBefore, urlAfter: model.getTabUrl(pageTabId) },
+        timestamp: Date.now(),
+      })
+    }
+
+    inFlight.set(msg.id, {
+      timer: setTimeout(answer, response?.delayMs ?? batchWait(input)),
+      agentId: msg.agentId,
+    })
+  }
+
+  function scheduleEvents() {
+    if (eventsScheduled) return
+    eventsScheduled = true
+    for (const event of fixture.events ?? []) {
+      const fire = () => {
+        const tab = model.getFirstTab(sessionAgentId)
+        emit({
+          eventType: event.eventType as BrowserEventType,
+          agentId: sessionAgentId,
+          tabId: tab?.tabId ?? 0,
+          url: event.url ?? tab?.url ?? '',
+          payload: event.payload ?? {},
+        })
+      }
+      const timer = event.repeat
+        ? setInterval(fire, event.afterMs)
+        : setTimeout(fire, event.afterMs)
+      timer.unref()
+    }
+  }
+
+  function handleMessage(message: unknown) {
+    const msg = message as IncomingMessage
+    if (msg.type === 'tool_call' && msg.tool) {
+      // Re-sent after a reconnect: never run a call twice
+      if (msg.replay && inFlight.has(msg.id)) return
+      const previous = msg.replay ? completed.get(msg.id) : undefined
+      if (previous) send(previous)
+      else runToolCall(msg)
+    } else if (msg.type === 'tool_cancel' && msg.requestId) {
+      const call = inFlight.get(msg.requestId)
+      if (!call) return
+      clearTimeout(call.timer)
+      inFlight.delete(msg.requestId)
+      sendToolResult({
+        id: msg.requestId,
+        type: 'tool_result',
+        agentId: call.agentId,
+        success: false,
+        error: new ViyvBrowserError('CANCELLED', 'Tool call was cancelled').toJSON(),
+        timestamp: Date.now(),
+      })
+    } else if (msg.type === 'session_init') {
+      sessionAgentId = msg.agentId
+      toolPolicy = msg.toolPolicy
+      send({
+        id: msg.id,
+        type: 'session_init',
+        agentId: msg.agentId,
+        protocolVersion: PROTOCOL_VERSION,
+        browser: {
+          browserId: MOCK_BROWSER_ID,
+          profileName: 'mock',
+          extensionVersion: EXTENSION_VERSION,
+        },
+        capabilities,
+        timestamp: Date.now(),
+      })
+      scheduleEvents()
+    } else if (
+      msg.type === 'session_heartbeat' ||
+      msg.type === 'session_close' ||
+      msg.type === 'session_recovery'
+    ) {
+      send({ id: msg.id, type: msg.type, agentId: msg.agentId, timestamp: Date.now() })
+    }
+  }
+
+  // Server messages over the Native Messaging limit arrive in chunks, as in Chrome
+  const reassembler = createChunkReassembler(handleMessage, (error, chunk) => {
+    process.stderr.write(`[viyv-browser:mock] ${error.message}\n`)
+    send({
+      id: chunk.requestId,
+      type: 'tool_result',
+      agentId: chunk.agentId,
+      success: false,
+      error: error.toJSON(),
+      timestamp: Date.now(),
+    })
+  })
+
+  createMessageReader(fromHost, (message) => {
+    if (isChunkedMessage(message)) reassembler.add(message)
+    else handleMessage(message)
+  })
+
+  startBridge({
+    socketPath: options.socketPath,
+    input: toHost,
+    output: fromHost,
+    onError: (error) => {
+      process.stderr.write(`[viyv-browser:mock] Error: ${error.message}\n`)
+    },
+  })
+
+  // Keeps the server's view of the browser fresh, like the Extension's heartbeat
+  const heartbeat = setInterval(() => {
+    if (!sessionAgentId) return
+    send({
+      id: randomUUID(),
+      type: 'session_heartbeat',
+      agentId: sessionAgentId,
+      timestamp: Date.now(),
+    })
+  }, fixture.heartbeatMs ?? TIMEOUTS.HEARTBEAT)
+  heartbeat.unref()
+
+  process.stderr.write(
+    `[viyv-browser:mock] Mock browser "${MOCK_BROWSER_ID}" started with ${capabilities.tools?.length} tools\n`,
+  )
+}
+
+/** A batch answers after its steps' waitAfter delays, as in the Extension */
+function batchWait(input: Record<string, unknown>): number {
+  const steps = Array.isArray(input.steps) ? (input.steps as BatchStep[]) : []
+  return steps.reduce((total, step) => total + (step.waitAfter ?? 0), 0)
+}
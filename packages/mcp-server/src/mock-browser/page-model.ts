@@ -0,0 +1,754 @@
+/**
+ * Fake browser state behind the mock browser: agent tab groups, tabs with history, and the
+ * pages of the fixture. Results have the shapes the Extension returns for the same tools, and
+ * failures throw the same ViyvBrowserError codes.
+ */
+
+import {
+  type BatchInput,
+  type BatchStep,
+  type BrowserEventType,
+  LIMITS,
+  ViyvBrowserError,
+  batchDuration,
+  parseLocator,
+  parseToolInput,
+} from '@viyv-browser/shared'
+import { getSettings } from '../config.js'
+import type { MockElement, MockFixture, MockPage } from './fixture.js'
+
+export interface PageModel {
+  /** Runs a tool against the model */
+  callTool(
+    agentId: string,
+    tool: string,
+    input: Record<string, unknown>,
+    progress: ProgressReporter,
+  ): Record<string, unknown>
+  /** URL of a tab, undefined once it is closed */
+  getTabUrl(tabId: number): string | undefined
+  /** The agent's first tab, for events that no tool call caused */
+  getFirstTab(agentId: string): { tabId: number; url: string } | undefined
+}
+
+export type ProgressReporter = (progress: number, total: number, message: string) => void
+
+export type EventEmitter = (event: {
+  eventType: BrowserEventType
+  agentId: string
+  tabId: number
+  url: string
+  payload: Record<string, unknown>
+}) => void
+
+interface MockTab {
+  tabId: number
+  agentId: string
+  history: string[]
+  historyIndex: number
+  console: Array<{ level: string; text: string; timestamp: number }>
+  network: Array<{ url: string; method: string; status: number; type: string; timestamp: number }>
+  /** form_input and type values by ref; reset on navigation */
+  values: Map<string, string>
+  focusedRef?: string
+}
+
+interface AgentGroup {
+  groupId: number
+  agentName: string
+  color: string
+  tabs: Set<number>
+}
+
+const GROUP_COLORS = ['blue', 'red', 'yellow', 'green', 'pink', 'purple', 'cyan', 'orange', 'grey']
+
+// 1x1 transparent PNG
+const PIXEL_PNG =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='
+
+// Elements are laid out top to bottom in rows of this height, 200px wide
+const ROW_HEIGHT = 40
+
+const INTERACTIVE_ROLES = new Set([
+  'a',
+  'button',
+  'checkbox',
+  'combobox',
+  'input',
+  'link',
+  'radio',
+  'select',
+  'searchbox',
+  'textarea',
+  'textbox',
+])
+
+/** The Extension's checks before a ref click, failing at once instead of after its timeout */
+function assertActionable(element: MockElement, coordinate: [number, number]) {
+  if (element.interceptedBy) {
+    throw new ViyvBrowserError(
+      'ELEMENT_NOT_ACTIONABLE',
+      `Element ref ${element.ref} would not receive the click: ${element.interceptedBy} is on top of it at (${coordinate[0]}, ${coordinate[1]})`,
+      { ref: element.ref, reason: 'intercepted', interceptedBy: element.interceptedBy, coordinate },
+    )
+  }
+  if (element.disabled) {
+    throw new ViyvBrowserError('ELEMENT_NOT_ACTIONABLE', `Element ref ${element.ref} is disabled`, {
+      ref: element.ref,
+      reason: 'disabled',
+    })
+  }
+}
+
+export function createPageModel(
+  fixture: MockFixture,
+  emit: EventEmitter,
+  extensionVersion: string,
+  /** The MCP server's profile when its tool policy excludes a tool (batch steps), else null */
+  getExcludingProfile: (tool: string) => string | null,
+): PageModel {
+  const groups = new Map<string, AgentGroup>()
+  const tabs = new Map<number, MockTab>()
+  const screenshots = new Set<string>()
+  let nextTabId = 1
+  let nextGroupId = 1000
+  let imageCounter = 0
+  let subscriptionCounter = 0
+  let windowSize = { width: 1280, height: 800 }
+  const gifRecordings = new Map<string, number>()
+
+  function getPage(url: string): MockPage & { title: string } {
+    const page = fixture.pages?.[url]
+    let host = url
+    try {
+      host = new URL(url).hostname || url
+    } catch {
+      // about:blank and other non-URLs keep their text
+    }
+    return {
+      title: page?.title ?? host,
+      text: page?.text ?? `Mock page for ${url}`,
+      elements: page?.elements ?? [
+        { ref: 'ref_1', role: 'heading', name: page?.title ?? host },
+        { ref: 'ref_2', role: 'textbox', name: 'Search' },
+        { ref: 'ref_3', role: 'button', name: 'Submit', submit: true },
+      ],
+      console: page?.console,
+      network: page?.network,
+      data: page?.data,
+    }
+  }
+
+  function ensureGroup(agentId: string, agentName = agentId, color?: string): AgentGroup {
+    let group = groups.get(agentId)
+    if (!group) {
+      const used = new Set([...groups.values()].map((g) => g.color))
+      group = {
+        groupId: nextGroupId++,
+        agentName,
+        color: color ?? GROUP_COLORS.find((c) => !used.has(c)) ?? GROUP_COLORS[0],
+        tabs: new Set(),
+      }
+      groups.set(agentId, group)
+    } else {
+      group.agentName = agentName
+      if (color) group.color = color
+    }
+    return group
+  }
+
+  function getTab(agentId: string, input: Record<string, unknown>): MockTab {
+    const tabId = input.tabId
+    if (typeof tabId !== 'number' || !Number.isFinite(tabId) || tabId < 0) {
+      throw new ViyvBrowserError('INVALID_PARAMS', `Invalid tabId: ${tabId}`, { tabId })
+    }
+    const tab = tabs.get(tabId)
+    if (!tab) throw new ViyvBrowserError('TAB_NOT_FOUND', `No tab with id: ${tabId}`, { tabId })
+    if (tab.agentId !== agentId) {
+      throw new ViyvBrowserError(
+        'TAB_ACCESS_DENIED',
+        `Tab ${tabId} does not belong to agent ${agentId}`,
+        { tabId, agentId },
+      )
+    }
+    return tab
+  }
+
+  const currentUrl = (tab: MockTab) => tab.history[tab.historyIndex]
+
+  function getElement(tab: MockTab, ref: unknown): MockElement {
+    const element = getPage(currentUrl(tab)).elements?.find((e) => e.ref === ref)
+    if (!element) {
+      throw new ViyvBrowserError('ELEMENT_NOT_FOUND', `Element ref ${ref} not found`, { ref })
+    }
+    return element
+  }
+
+  /**
+   * Resolves role=, text=, label= and placeholder= locators against element roles and names.
+   * Fixture pages are flat, so a part after " >> " searches the whole page.
+   */
+  function locate(tab: MockTab, locator: string): MockElement | undefined {
+    const elements = getPage(currentUrl(tab)).elements ?? []
+    const matchesName = (name: string | undefined, text: string, exact: boolean) =>
+      exact ? name === text : (name ?? '').toLowerCase().includes(text.toLowerCase())
+    let matches: MockElement[] = []
+    for (const step of parseLocator(locator)) {
+      switch (step.engine) {
+        case 'nth': {
+          const match = matches.at(step.index)
+          matches = match ? [match] : []
+          break
+        }
+        case 'role':
+          matches = elements.filter(
+            (e) =>
+              e.role === step.role &&
+              (step.name === undefined || matchesName(e.name, step.name, step.exact)),
+          )
+          break
+        case 'text':
+        case 'label':
+        case 'placeholder':
+          matches = elements.filter((e) => matchesName(e.name, step.text, step.exact))
+          break
+        default:
+          throw new ViyvBrowserError(
+            'INVALID_PARAMS',
+            `The mock browser cannot resolve ${step.engine}= locators`,
+            { locator },
+            'Use role=, text=, label= or placeholder= against the fixture.',
+          )
+      }
+    }
+    return matches[0]
+  }
+
+  /** The element a tool targets by locator or ref, if it names one */
+  function getTarget(tab: MockTab, input: Record<string, unknown>): MockElement | undefined {
+    if (input.locator) {
+      const locator = input.locator as string
+      const element = locate(tab, locator)
+      if (!element) {
+        throw new ViyvBrowserError('ELEMENT_NOT_FOUND', `No element matches locator "${locator}"`, {
+          locator,
+        })
+      }
+      return element
+    }
+    return input.ref ? getElement(tab, input.ref) : undefined
+  }
+
+  function elementCenter(tab: MockTab, element: MockElement): [number, number] {
+    // By ref: pages without fixture elements are rebuilt on every lookup
+    const index = getPage(currentUrl(tab)).elements?.findIndex((e) => e.ref === element.ref) ?? 0
+    return [100, index * ROW_HEIGHT + ROW_HEIGHT / 2]
+  }
+
+  function elementAt(tab: MockTab, coordinate: unknown): MockElement | undefined {
+    if (!Array.isArray(coordinate)) return undefined
+    const [x, y] = coordinate as [number, number]
+    if (x < 0 || x > 200 || y < 0) return undefined
+    return getPage(currentUrl(tab)).elements?.[Math.floor(y / ROW_HEIGHT)]
+  }
+
+  function emitFor(tab: MockTab, eventType: BrowserEventType, payload: Record<string, unknown>) {
+    emit({ eventType, agentId: tab.agentId, tabId: tab.tabId, url: currentUrl(tab), payload })
+  }
+
+  /** Fills the buffers from the fixture and emits the load events of the current URL */
+  function loadPage(tab: MockTab, navigated: boolean) {
+    const url = currentUrl(tab)
+    const page = getPage(url)
+    const now = Date.now()
+    tab.values = new Map()
+    tab.focusedRef = undefined
+    for (const entry of page.console ?? []) {
+      tab.console.push({ ...entry, timestamp: now })
+      if (entry.level === 'error') emitFor(tab, 'browser.console_error', { text: entry.text })
+    }
+    for (const request of page.network ?? []) {
+      tab.network.push({
+        url: request.url,
+        method: request.method ?? 'GET',
+        status: request.status ?? 200,
+        type: request.type ?? 'xhr',
+        timestamp: now,
+      })
+    }
+    if (navigated) emitFor(tab, 'browser.page_navigate', { url })
+    emitFor(tab, 'browser.page_load', { url, title: page.title })
+  }
+
+  function visit(tab: MockTab, url: string) {
+    tab.history = [...tab.history.slice(0, tab.historyIndex + 1), url]
+    tab.historyIndex = tab.history.length - 1
+    loadPage(tab, true)
+  }
+
+  function activate(tab: MockTab, element: MockElement) {
+    tab.focusedRef = element.ref
+    if (element.submit) {
+      emitFor(tab, 'browser.form_submitted', {
+        ref: element.ref,
+        values: Object.fromEntries(tab.values),
+      })
+    }
+    if (element.navigate) visit(tab, element.navigate)
+  }
+
+  function describeTab(tab: MockTab) {
+    const url = currentUrl(tab)
+    return { tabId: tab.tabId, url, title: getPage(url).title }
+  }
+
+  function screenshot(format: string) {
+    const imageId = `mock_img_${++imageCounter}`
+    screenshots.add(imageId)
+    let data = PIXEL_PNG
+    if (fixture.screenshotBytes) {
+      // Padding after the IEND chunk keeps the PNG decodable
+      const pixel = Buffer.from(PIXEL_PNG, 'base64')
+      const padding = Math.max(0, fixture.screenshotBytes - pixel.length)
+      data = Buffer.concat([pixel, Buffer.alloc(padding)]).toString('base64')
+    }
+    return { data, format, imageId }
+  }
+
+  const handlers: Record<
+    string,
+    (
+      agentId: string,
+      input: Record<string, unknown>,
+      progress: ProgressReporter,
+    ) => Record<string, unknown>
+  > = {
+    navigate(agentId, input, progress) {
+      const tab = getTab(agentId, input)
+      const url = input.url as string
+      progress(1, 2, `Navigating to ${url}`)
+      if (url === 'back' || url === 'forward') {
+        const index = tab.historyIndex + (url === 'back' ? -1 : 1)
+        if (index >= 0 && index < tab.history.length) {
+          tab.historyIndex = index
+          loadPage(tab, true)
+        }
+      } else {
+        let parsed: URL
+        try {
+          parsed = new URL(url)
+        } catch {
+          throw new ViyvBrowserError('INVALID_PARAMS', `Invalid URL: ${url}`, { url })
+        }
+        if (!['http:', 'https:'].includes(parsed.protocol)) {
+          throw new ViyvBrowserError(
+            'INVALID_PARAMS',
+            `Unsupported URL scheme: ${parsed.protocol}`,
+            { url },
+            'Only http: and https: URLs (or "back"/"forward") can be opened.',
+          )
+        }
+        visit(tab, url)
+      }
+      progress(2, 2, 'Page load complete')
+      const { url: finalUrl, title } = describeTab(tab)
+      return { url: finalUrl, title }
+    },
+    screenshot(agentId, input) {
+      getTab(agentId, input)
+      // The mock only has a PNG to offer
+      return screenshot('png')
+    },
+    click(agentId, input) {
+      const tab = getTab(agentId, input)
+      const target = getTarget(tab, input)
+      if (target) {
+        const coordinate = elementCenter(tab, target)
+        assertActionable(target, coordinate)
+        activate(tab, target)
+        return { clicked: true, ref: target.ref, coordinate }
+      }
+      const coordinate = input.coordinate as [number, number] | undefined
+      if (!coordinate) {
+        throw new ViyvBrowserError(
+          'INVALID_PARAMS',
+          'One of "locator", "ref" or "coordinate" must be specified',
+        )
+      }
+      const element = elementAt(tab, coordinate)
+      if (element) activate(tab, element)
+      return { clicked: true, coordinate }
+    },
+    type(agentId, input) {
+      const tab = getTab(agentId, input)
+      const text = input.text as string
+      if (tab.focusedRef) {
+        tab.values.set(tab.focusedRef, (tab.values.get(tab.focusedRef) ?? '') + text)
+      }
+      return { typed: text.length }
+    },
+    key(agentId, input) {
+      const tab = getTab(agentId, input)
+      const keys = input.keys as string
+      if (tab.focusedRef && keys.split(' ').includes('Enter')) {
+        emitFor(tab, 'browser.form_submitted', {
+          ref: tab.focusedRef,
+          values: Object.fromEntries(tab.values),
+        })
+      }
+      return { pressed: keys, repeat: (input.repeat as number) ?? 1 }
+    },
+    scroll(agentId, input) {
+      const tab = getTab(agentId, input)
+      const target = getTarget(tab, input)
+      if (target) return { scrolled: true, ref: target.ref }
+      return { scrolled: true, direction: input.direction, amount: (input.amount as number) ?? 3 }
+    },
+    hover(agentId, input) {
+      const tab = getTab(agentId, input)
+      const target = getTarget(tab, input)
+      if (target) {
+        const coordinate = elementCenter(tab, target)
+        if (target.interceptedBy) assertActionable(target, coordinate)
+        return { hovered: true, ref: target.ref, coordinate }
+      }
+      const coordinate = input.coordinate as [number, number] | undefined
+      if (!coordinate) {
+        throw new ViyvBrowserError(
+          'INVALID_PARAMS',
+          'One of "locator", "ref" or "coordinate" must be specified',
+        )
+      }
+      return { hovered: true, coordinate }
+    },
+    drag(agentId, input) {
+      getTab(agentId, input)
+      return { dragged: true, from: input.startCoordinate, to: input.endCoordinate }
+    },
+    read_page(agentId, input) {
+      const tab = getTab(agentId, input)
+      const page = getPage(currentUrl(tab))
+      const maxChars = (input.maxChars as number) ?? 50_000
+      let elements = page.elements ?? []
+      if (input.refId) elements = [getElement(tab, input.refId)]
+      if (input.filter === 'interactive') {
+        elements = elements.filter((e) => INTERACTIVE_ROLES.has(e.role))
+      }
+      const lines = elements.map((e) => {
+        const value = tab.values.get(e.ref) ?? e.value
+        return `[${e.ref}] ${e.role}${e.name ? ` "${e.name}"` : ''}${value ? ` value="${value}"` : ''}`
+      })
+      const output = `${lines.join('\n')}\n`
+      return {
+        tree: output.slice(0, maxChars),
+        elementCount: elements.length,
+        truncated: output.length >= maxChars,
+      }
+    },
+    find(agentId, input) {
+      const tab = getTab(agentId, input)
+      const words = String(input.query).toLowerCase().split(/\s+/).filter(Boolean)
+      const matches = (getPage(currentUrl(tab)).elements ?? [])
+        .filter((e) => {
+          const searchable = `${e.role} ${e.name ?? ''} ${e.value ?? ''}`.toLowerCase()
+          return words.every((word) => searchable.includes(word))
+        })
+        .slice(0, 20)
+        .map((e) => ({ ref: e.ref, tag: e.role, text: e.name ?? '', role: e.role }))
+      return { matches, total: matches.length }
+    },
+    form_input(agentId, input) {
+      const tab = getTab(agentId, input)
+      const element = getTarget(tab, input)
+      if (!element) {
+        throw new ViyvBrowserError('INVALID_PARAMS', 'Either "locator" or "ref" must be specified')
+      }
+      tab.values.set(element.ref, String(input.value))
+      return { set: true }
+    },
+    javascript_exec(agentId, input) {
+      const tab = getTab(agentId, input)
+      // No JavaScript runs in the mock; a few common reads are answered from the model
+      const code = String(input.code).trim().replace(/;$/, '')
+      const { url, title } = describeTab(tab)
+      const known: Record<string, unknown> = {
+        'document.title': title,
+        'location.href': url,
+        'window.location.href': url,
+        'document.body.innerText': getPage(url).text,
+      }
+      return { result: known[code] ?? null }
+    },
+    wait_for(agentId, input) {
+      const tab = getTab(agentId, input)
+      if (input.navigation) return { waited: 'navigation' }
+      if (input.locator) {
+        // Mock pages never change, so the locator matches now or never
+        const element = locate(tab, input.locator as string)
+        return element ? { found: true, ref: element.ref } : { found: false }
+      }
+      if (input.selector) return { found: true }
+      return { waited: (input.timeout as number) ?? 0, type: 'delay' }
+    },
+    get_page_text(agentId, input) {
+      const tab = getTab(agentId, input)
+      return { text: getPage(currentUrl(tab)).text }
+    },
+    handle_dialog(agentId, input) {
+      getTab(agentId, input)
+      return { handled: false, message: 'No pending dialog' }
+    },
+    tabs_context(agentId, input) {
+      const group = groups.get(agentId) ?? (input.createIfEmpty ? ensureGroup(agentId) : undefined)
+      if (!group) return { tabs: [], groupId: null }
+      return {
+        groupId: group.groupId,
+        color: group.color,
+        agentName: group.agentName,
+        tabs: [...group.tabs].map((tabId, index, list) => ({
+          ...describeTab(tabs.get(tabId) as MockTab),
+          active: index === list.length - 1,
+        })),
+      }
+    },
+    tabs_create(agentId, input) {
+      const group = ensureGroup(agentId, groups.get(agentId)?.agentName)
+      const url = (input.url as string | undefined) ?? 'about:blank'
+      const tab: MockTab = {
+        tabId: nextTabId++,
+        agentId,
+        history: [url],
+        historyIndex: 0,
+        console: [],
+        network: [],
+        values: new Map(),
+      }
+      tabs.set(tab.tabId, tab)
+      group.tabs.add(tab.tabId)
+      emitFor(tab, 'browser.tab_created', { tabId: tab.tabId })
+      loadPage(tab, false)
+      return describeTab(tab)
+    },
+    tab_close(agentId, input) {
+      const tab = getTab(agentId, input)
+      tabs.delete(tab.tabId)
+      groups.get(agentId)?.tabs.delete(tab.tabId)
+      emitFor(tab, 'browser.tab_closed', { tabId: tab.tabId })
+      return { closed: true, tabId: tab.tabId }
+    },
+    select_tab(agentId, input) {
+      const tab = getTab(agentId, input)
+      // Move to the end so tabs_context reports it as the active tab
+      const group = groups.get(agentId)
+      group?.tabs.delete(tab.tabId)
+      group?.tabs.add(tab.tabId)
+      return { selected: true, ...describeTab(tab) }
+    },
+    read_console_messages(agentId, input) {
+      const tab = getTab(agentId, input)
+      const pattern = input.pattern ? new RegExp(input.pattern as string) : undefined
+      const messages = tab.console
+        .filter((m) => !input.onlyErrors || m.level === 'error')
+        .filter((m) => !pattern || pattern.test(m.text))
+        .slice(-((input.limit as number) ?? 100))
+      if (input.clear) tab.console = []
+      return { messages, total: messages.length }
+    },
+    read_network_requests(agentId, input) {
+      const tab = getTab(agentId, input)
+      const urlPattern = input.urlPattern as string | undefined
+      const requests = tab.network
+        .filter((r) => !urlPattern || r.url.includes(urlPattern))
+        .slice(-((input.limit as number) ?? 100))
+      if (input.clear) tab.network = []
+      return { requests, total: requests.length }
+    },
+    resize_window(agentId, input) {
+      getTab(agentId, input)
+      windowSize = { width: input.width as number, height: input.height as number }
+      return { resized: true, ...windowSize }
+    },
+    agent_tab_assign(_agentId, input) {
+      const targetAgentId = input.agentId as string
+      const agentName = input.agentName as string
+      const group = ensureGroup(targetAgentId, agentName, input.color as string | undefined)
+      return {
+        agentId: targetAgentId,
+        agentName,
+        groupId: group.groupId,
+        color: group.color,
+        tabs: [...group.tabs],
+      }
+    },
+    agent_tab_list() {
+      return {
+        agents: [...groups].map(([agentId, g]) => ({
+          agentId,
+          agentName: g.agentName,
+          groupId: g.groupId,
+          color: g.color,
+          tabs: [...g.tabs],
+        })),
+      }
+    },
+    browser_health(agentId) {
+      const group = groups.get(agentId)
+      return {
+        connected: true,
+        agentId,
+        currentGroup: group
+          ? { groupId: group.groupId, tabs: [...group.tabs], color: group.color }
+          : null,
+        totalSessions: groups.size,
+        extensionVersion,
+      }
+    },
+    gif_creator(agentId, input) {
+      getTab(agentId, input)
+      switch (input.action) {
+        case 'start_recording':
+          gifRecordings.set(agentId, 0)
+          return { recording: true, message: 'Recording started' }
+        case 'stop_recording':
+          return { recording: false, frameCount: gifRecordings.get(agentId) ?? 0 }
+        case 'export':
+          return {
+            exported: true,
+            filename: (input.filename as string) ?? 'recording.gif',
+            frameCount: gifRecordings.get(agentId) ?? 0,
+          }
+        case 'clear':
+          gifRecordings.delete(agentId)
+          return { cleared: true }
+        default:
+          throw new ViyvBrowserError(
+            'INVALID_PARAMS',
+            `Unknown gif_creator action: ${input.action}`,
+            { action: input.action },
+          )
+      }
+    },
+    upload_image(agentId, input) {
+      const tab = getTab(agentId, input)
+      if (!input.locator && !input.ref && !input.coordinate) {
+        throw new ViyvBrowserError(
+          'INVALID_PARAMS',
+          'One of "locator", "ref" or "coordinate" must be specified',
+        )
+      }
+      if (!screenshots.has(input.imageId as string)) {
+        throw new ViyvBrowserError('INVALID_PARAMS', `Unknown imageId: ${input.imageId}`, {
+          imageId: input.imageId,
+        })
+      }
+      if (getTarget(tab, input)) return { uploaded: true }
+      const target = elementAt(tab, input.coordinate)
+      if (!target) throw new ViyvBrowserError('ELEMENT_NOT_FOUND', 'No element at coordinates')
+      return { uploaded: true, target: target.role }
+    },
+    update_plan(_agentId, input) {
+      return { updated: true, domains: input.domains, approach: input.approach }
+    },
+    browser_event_subscribe(agentId, input) {
+      const id = `sub_${agentId}_${++subscriptionCounter}_${Date.now()}`
+      return { subscriptionId: id, eventTypes: input.eventTypes, urlPattern: input.urlPattern }
+    },
+    browser_event_unsubscribe(_agentId, input) {
+      return { unsubscribed: true, subscriptionId: input.subscriptionId }
+    },
+    artifact_from_page(agentId, input) {
+      const tab = getTab(agentId, input)
+      const type = input.type as string
+      const title = input.title as string | undefined
+      if (type === 'screenshot') {
+        const { data } = screenshot('png')
+        return { type, title: title ?? 'Screenshot', data, format: 'png' }
+      }
+      const page = getPage(currentUrl(tab))
+      const content =
+        type === 'html'
+          ? `<html><head><title>${page.title}</title></head><body>${page.text}</body></html>`
+          : page.text
+      return { type, title: title ?? `Page ${type}`, content }
+    },
+    page_data_extract(agentId, input) {
+      const tab = getTab(agentId, input)
+      return { data: getPage(currentUrl(tab)).data ?? {} }
+    },
+    shortcuts_list() {
+      return { shortcuts: [], message: 'No shortcuts found' }
+    },
+    shortcuts_execute(agentId, input) {
+      getTab(agentId, input)
+      throw new ViyvBrowserError(
+        'INVALID_PARAMS',
+        `Shortcut not found: ${input.command ? `command="${input.command}"` : `id="${input.shortcutId}"`}`,
+        { command: input.command, shortcutId: input.shortcutId },
+        'Call shortcuts_list to see available shortcuts.',
+      )
+    },
+    batch(agentId, input, progress) {
+      const tab = getTab(agentId, input)
+      const steps = input.steps as BatchStep[]
+      const duration = batchDuration(input as BatchInput, getSettings().timeouts)
+      if (duration > LIMITS.BATCH_MAX_DURATION) {
+        throw new ViyvBrowserError(
+          'INVALID_PARAMS',
+          `Batch could take up to ${duration}ms, over the ${LIMITS.BATCH_MAX_DURATION}ms limit`,
+          { duration, limit: LIMITS.BATCH_MAX_DURATION },
+          'Split the steps into several batches, or shorten their waitAfter and wait_for timeouts.',
+        )
+      }
+      const results: Array<Record<string, unknown>> = []
+      let failed = 0
+      for (const [index, step] of steps.entries()) {
+        progress(index, steps.length, `Step ${index + 1}/${steps.length}: ${step.tool}`)
+        try {
+          const stepInput = parseToolInput(step.tool, { ...step.input, tabId: tab.tabId })
+          const excludingProfile = getExcludingProfile(step.tool)
+          if (excludingProfile !== null) {
+            throw new ViyvBrowserError(
+              'PERMISSION_DENIED',
+              `Tool '${step.tool}' is not enabled by the MCP server's tool profile (${excludingProfile})`,
+              { tool: step.tool, profile: excludingProfile },
+            )
+          }
+          const result = handlers[step.tool](agentId, stepInput, () => {})
+          results.push({ tool: step.tool, success: true, result })
+        } catch (error) {
+          const payload =
+            error instanceof ViyvBrowserError
+              ? error.toJSON()
+              : new ViyvBrowserError('INTERNAL_ERROR', String(error)).toJSON()
+          results.push({ tool: step.tool, success: false, error: payload })
+          failed++
+          if (input.continueOnError !== true) break
+        }
+      }
+      progress(steps.length, steps.length, 'Batch complete')
+      return {
+        steps: results,
+        completed: results.length - failed,
+        failed,
+        skipped: steps.length - results.length,
+      }
+    },
+  }
+
+  return {
+    callTool(agentId, tool, input, progress) {
+      const handler = handlers[tool]
+      if (!handler) throw new ViyvBrowserError('UNKNOWN_TOOL', `Unknown tool: ${tool}`, { tool })
+      return handler(agentId, input, progress)
+    },
+    getTabUrl(tabId) {
+      const tab = tabs.get(tabId)
+      return tab && currentUrl(tab)
+    },
+    getFirstTab(agentId) {
+      const [tabId] = groups.get(agentId)?.tabs ?? []
+      const tab = tabId === undefined ? undefined : tabs.get(tabId)
+      return tab && { tabId: tab.tabId, url: currentUrl(tab) }
+    },
+  }
+}
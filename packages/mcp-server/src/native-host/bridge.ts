@@ -5,29 +5,85 @@
  *   Chrome <-> stdin/stdout (Native Messaging) <-> this bridge <-> Unix socket <-> MCP Server
  */
 
+import { randomUUID } from 'node:crypto'
 import { createConnection, type Socket } from 'node:net'
 import { createMessageReader, writeMessage } from './transport.js'
-import { compressPayload, decompressPayload } from './compression.js'
-import { RECONNECT, LIMITS } from '@viyv-browser/shared'
+import { compressPayload, createChunkReassembler, decompressPayload } from './compression.js'
+import {
+  RECONNECT,
+  LIMITS,
+  TIMEOUTS,
+  ViyvBrowserError,
+  chunkMessage,
+  isChunkedMessage,
+} from '@viyv-browser/shared'
+import { computeProof, createNonce, readSocketSecret, verifyProof } from '../socket-auth.js'
 
 const MAX_BUFFER_SIZE = 1000
 
 export interface BridgeOptions {
   socketPath: string
   onError?: (error: Error) => void
+  /**
+   * Native Messaging streams (default: stdin/stdout, i.e. Chrome). The in-process mock browser
+   * passes its own; the bridge then leaves process signals and exit to its caller.
+   */
+  input?: NodeJS.ReadableStream
+  output?: NodeJS.WritableStream
+}
+
+/**
+ * Writes a message to Chrome, split into chunks when it exceeds the 1MB Native Messaging limit.
+ * Throws MESSAGE_TOO_LARGE when the Extension cannot reassemble chunks.
+ */
+function writeToChrome(
+  output: NodeJS.WritableStream,
+  message: Record<string, unknown>,
+  chunking: boolean,
+) {
+  const json = JSON.stringify(message)
+  const chunks = chunkMessage(
+    json,
+    typeof message.id === 'string' ? message.id : randomUUID(),
+    typeof message.agentId === 'string' ? message.agentId : '',
+  )
+  if (!chunks) {
+    writeMessage(output, message)
+    return
+  }
+  if (!chunking) {
+    throw new ViyvBrowserError(
+      'MESSAGE_TOO_LARGE',
+      `${String(message.type)} is ${json.length} chars and the Extension does not support chunking`,
+    )
+  }
+  process.stderr.write(
+    `[viyv-browser:native-host] Sending ${message.type} in ${chunks.length} chunks (${json.length} chars)\n`,
+  )
+  for (const chunk of chunks) {
+    writeMessage(output, chunk)
+  }
 }
 
 export function startBridge(options: BridgeOptions): void {
   const { socketPath, onError } = options
+  const input = options.input ?? process.stdin
+  const output = options.output ?? process.stdout
   let socket: Socket | null = null
   let reconnecting = false
+  // Set once the Chrome side closed; the socket is not reconnected after that
+  let stopped = false
   let retryCount = 0
+  // Chrome messages are only forwarded once the MCP server passed the handshake
+  let authenticated = false
+  // From the Extension's session_init capabilities; Extensions without them predate chunking
+  let extensionChunking = false
 
   // FIX #2: Actual message buffer for messages received while socket is disconnected
   const pendingMessages: unknown[] = []
 
   function flushBuffer() {
-    if (!socket || socket.destroyed) return
+    if (!socket || socket.destroyed || !authenticated) return
     while (pendingMessages.length > 0) {
       const msg = pendingMessages[0] // FIX NL3: Peek first, don't shift until write succeeds
       try {
@@ -47,21 +103,79 @@ export function startBridge(options: BridgeOptions): void {
   }
 
   function connectSocket() {
-    socket = createConnection(socketPath)
+    const sock = createConnection(socketPath)
+    socket = sock
+    authenticated = false
+    const hostNonce = createNonce()
+    let secret: Buffer | null = null
+
+    const rejectServer = (reason: string) => {
+      const error = new ViyvBrowserError('AUTH_FAILED', `Socket authentication failed: ${reason}`)
+      process.stderr.write(`[viyv-browser:native-host] ${error.message}. ${error.hint}\n`)
+      onError?.(error)
+      sock.destroy()
+    }
 
-    socket.on('connect', () => {
+    const authTimer = setTimeout(() => {
+      if (!authenticated) rejectServer('handshake timed out')
+    }, TIMEOUTS.SOCKET_AUTH)
+
+    sock.on('connect', () => {
       process.stderr.write(
         `[viyv-browser:native-host] Connected to MCP server at ${socketPath}\n`,
       )
+      try {
+        secret = readSocketSecret(socketPath)
+      } catch (error) {
+        rejectServer(`cannot read shared secret (${(error as Error).message})`)
+        return
+      }
+      // Handshake step 1: send our challenge; the server answers in session_init
+      const hello = { id: randomUUID(), type: 'session_auth', nonce: hostNonce, timestamp: Date.now() }
+      sock.write(`${JSON.stringify(hello)}\n`)
+    })
+
+    // Handshake step 2: verify the server's proof, then answer its challenge.
+    // Returns the message to forward to Chrome (session_init without auth), if any.
+    function authenticate(message: Record<string, unknown>): Record<string, unknown> | null {
+      if (message.type === 'session_auth' && message.error) {
+        const error = ViyvBrowserError.fromPayload(message.error)
+        rejectServer(`rejected by MCP server (${error.message})`)
+        return null
+      }
+      const auth = message.auth as { nonce?: unknown; proof?: unknown } | undefined
+      if (
+        message.type !== 'session_init' ||
+        !secret ||
+        typeof auth?.nonce !== 'string' ||
+        !verifyProof(secret, 'server', hostNonce, auth.nonce, auth.proof)
+      ) {
+        rejectServer('MCP server did not prove the shared secret')
+        return null
+      }
+
+      const reply = {
+        id: randomUUID(),
+        type: 'session_auth',
+        proof: computeProof(secret, 'host', auth.nonce, hostNonce),
+        timestamp: Date.now(),
+      }
+      sock.write(`${JSON.stringify(reply)}\n`)
+      clearTimeout(authTimer)
+      authenticated = true
       retryCount = 0 // Reset backoff on successful connection
+      process.stderr.write('[viyv-browser:native-host] Authenticated with MCP server\n')
       flushBuffer()
-    })
+
+      const { auth: _auth, ...sessionInit } = message
+      return sessionInit
+    }
 
     // Messages from MCP Server -> Chrome (via stdout)
     // TCP stream fragmentation fix: line-based buffer
     let lineBuffer = ''
 
-    socket.on('data', (data) => {
+    sock.on('data', (data) => {
       lineBuffer += data.toString('utf-8')
       const lines = lineBuffer.split('\n')
       lineBuffer = lines.pop() ?? '' // Keep incomplete last line
@@ -69,29 +183,50 @@ export function startBridge(options: BridgeOptions): void {
         if (!line) continue
         try {
           let message = JSON.parse(line)
+          if (!authenticated) {
+            message = authenticate(message)
+            if (!message) break
+          }
           // NM5: Decompress incoming compressed messages from MCP Server
           if (message.type === 'compressed' && typeof message.data === 'string') {
             const decompressed = decompressPayload(message.data, true)
             message = JSON.parse(decompressed)
           }
-          writeMessage(process.stdout, message)
+          try {
+            writeToChrome(output, message, extensionChunking)
+          } catch (error) {
+            // Fail oversized tool calls right away instead of letting them time out
+            if (message.type !== 'tool_call' || !(error instanceof ViyvBrowserError)) throw error
+            process.stderr.write(`[viyv-browser:native-host] ${error.message}\n`)
+            forwardToServer({
+              id: message.id,
+              type: 'tool_result',
+              agentId: message.agentId,
+              success: false,
+              error: error.toJSON(),
+              timestamp: Date.now(),
+            })
+          }
         } catch (error) {
           onError?.(error as Error)
         }
       }
     })
 
-    socket.on('error', (error) => {
+    sock.on('error', (error) => {
       process.stderr.write(
         `[viyv-browser:native-host] Socket error: ${error.message}\n`,
       )
       onError?.(error)
     })
 
-    socket.on('close', () => {
+    sock.on('close', () => {
       process.stderr.write('[viyv-browser:native-host] Socket closed\n')
+      clearTimeout(authTimer)
+      if (socket !== sock) return
       socket = null
-      if (!reconnecting) {
+      authenticated = false
+      if (!reconnecting && !stopped) {
         reconnecting = true
         // Exponential backoff: 1s, 2s, 4s, ..., max 30s
         const delay = Math.min(
@@ -111,31 +246,58 @@ export function startBridge(options: BridgeOptions): void {
   }
 
   // Messages from Chrome (via stdin) -> MCP Server
-  createMessageReader(
-    process.stdin,
-    (message) => {
-      if (socket && !socket.destroyed) {
-        // NM5: Compress large payloads (e.g., screenshots) before Unix socket transfer
-        const json = JSON.stringify(message)
-        if (json.length > LIMITS.CHUNK_SIZE) {
-          const { compressed, wasCompressed } = compressPayload(json)
-          if (wasCompressed) {
-            socket.write(`${JSON.stringify({ type: 'compressed', data: compressed })}\n`)
-          } else {
-            socket.write(`${json}\n`)
-          }
+  function forwardToServer(message: unknown) {
+    const msg = message as Record<string, unknown> | null
+    if (msg?.type === 'session_init') {
+      const capabilities = msg.capabilities as { chunking?: unknown } | undefined
+      extensionChunking = capabilities?.chunking === true
+    }
+    if (socket && !socket.destroyed && authenticated) {
+      // NM5: Compress large payloads (e.g., screenshots) before Unix socket transfer
+      const json = JSON.stringify(message)
+      if (json.length > LIMITS.CHUNK_SIZE) {
+        const { compressed, wasCompressed } = compressPayload(json)
+        if (wasCompressed) {
+          socket.write(`${JSON.stringify({ type: 'compressed', data: compressed })}\n`)
         } else {
           socket.write(`${json}\n`)
         }
       } else {
-        // Buffer messages while disconnected
-        if (pendingMessages.length < MAX_BUFFER_SIZE) {
-          pendingMessages.push(message)
-        } else {
-          process.stderr.write(
-            '[viyv-browser:native-host] Message buffer full, dropping message\n',
-          )
-        }
+        socket.write(`${json}\n`)
+      }
+    } else {
+      // Buffer messages while disconnected
+      if (pendingMessages.length < MAX_BUFFER_SIZE) {
+        pendingMessages.push(message)
+      } else {
+        process.stderr.write(
+          '[viyv-browser:native-host] Message buffer full, dropping message\n',
+        )
+      }
+    }
+  }
+
+  // Messages over the 1MB Native Messaging limit arrive as chunks. A message that cannot
+  // be reassembled is answered with a failed tool_result, so the MCP call fails right away.
+  const reassembler = createChunkReassembler(forwardToServer, (error, chunk) => {
+    process.stderr.write(`[viyv-browser:native-host] ${error.message}\n`)
+    forwardToServer({
+      id: chunk.requestId,
+      type: 'tool_result',
+      agentId: chunk.agentId,
+      success: false,
+      error: error.toJSON(),
+      timestamp: Date.now(),
+    })
+  })
+
+  createMessageReader(
+    input,
+    (message) => {
+      if (isChunkedMessage(message)) {
+        reassembler.add(message)
+      } else {
+        forwardToServer(message)
       }
     },
     onError,
@@ -143,19 +305,21 @@ export function startBridge(options: BridgeOptions): void {
 
   connectSocket()
 
-  // Clean shutdown handlers
-  process.on('SIGINT', () => {
+  input.on('end', () => {
+    process.stderr.write('[viyv-browser:native-host] stdin closed, shutting down\n')
+    stopped = true
     socket?.destroy()
-    process.exit(0)
+    if (!options.input) process.exit(0)
   })
+  if (options.input) return
 
-  process.on('SIGTERM', () => {
+  // Clean shutdown handlers
+  process.on('SIGINT', () => {
     socket?.destroy()
     process.exit(0)
   })
 
-  process.stdin.on('end', () => {
-    process.stderr.write('[viyv-browser:native-host] stdin closed, shutting down\n')
+  process.on('SIGTERM', () => {
     socket?.destroy()
     process.exit(0)
   })
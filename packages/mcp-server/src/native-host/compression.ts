@@ -1,15 +1,10 @@
 /**
- * Compression utilities for large payloads.
- * Used when messages approach the 1MB Native Messaging limit.
+ * Compression utilities for large payloads, and reassembly of chunked messages
+ * received from the Extension (see chunking.ts in @viyv-browser/shared).
  */
 
-import { gzipSync, gunzipSync } from 'node:zlib'
-import type { ChunkedMessage } from '@viyv-browser/shared'
-
-const CHUNK_SIZE = 768 * 1024 // 768KB per chunk
-
-// Use shared ChunkedMessage as the canonical type
-export type ChunkedPayload = ChunkedMessage
+import { gunzipSync, gzipSync } from 'node:zlib'
+import { type ChunkedMessage, TIMEOUTS, ViyvBrowserError, joinChunks } from '@viyv-browser/shared'
 
 export function compressPayload(data: string): { compressed: string; wasCompressed: boolean } {
   const original = Buffer.from(data, 'utf-8')
@@ -27,46 +22,91 @@ export function decompressPayload(data: string, isCompressed: boolean): string {
   return gunzipSync(buf).toString('utf-8')
 }
 
-export function chunkPayload(
-  requestId: string,
-  agentId: string,
-  data: string,
-  compressed: boolean,
-): ChunkedPayload[] {
-  const totalSize = data.length
-  const totalChunks = Math.ceil(totalSize / CHUNK_SIZE)
-  const chunks: ChunkedPayload[] = []
-
-  for (let i = 0; i < totalChunks; i++) {
-    chunks.push({
-      type: 'chunk',
-      requestId,
-      agentId,
-      chunkIndex: i,
-      totalChunks,
-      totalSize,
-      compressed,
-      data: data.slice(i * CHUNK_SIZE, (i + 1) * CHUNK_SIZE),
-    })
-  }
-
-  return chunks
+export interface ChunkReassembler {
+  add(chunk: ChunkedMessage): void
+  /** Drops all partial messages (e.g. when the peer disconnects) */
+  clear(): void
 }
 
-// FIX #20: Guard against empty chunks array
-export function reassembleChunks(chunks: ChunkedPayload[]): string {
-  if (chunks.length === 0) {
-    throw new Error('Cannot reassemble: no chunks provided')
-  }
+/**
+ * Collects chunk messages until a message is complete. A message that sees no new chunk
+ * within TIMEOUTS.CHUNK_REASSEMBLY, or whose chunks are inconsistent, is dropped and
+ * reported through `onFailed` with a CHUNK_REASSEMBLY_FAILED error.
+ */
+export function createChunkReassembler(
+  onMessage: (message: unknown) => void,
+  onFailed: (error: ViyvBrowserError, chunk: ChunkedMessage) => void,
+): ChunkReassembler {
+  const partial = new Map<
+    string,
+    { chunks: ChunkedMessage[]; received: number; timer: ReturnType<typeof setTimeout> }
+  >()
 
-  const sorted = [...chunks].sort((a, b) => a.chunkIndex - b.chunkIndex)
+  const fail = (chunk: ChunkedMessage, error: ViyvBrowserError) => {
+    const entry = partial.get(chunk.requestId)
+    if (entry) clearTimeout(entry.timer)
+    partial.delete(chunk.requestId)
+    onFailed(error, chunk)
+  }
 
-  if (sorted.length !== sorted[0].totalChunks) {
-    throw new Error(
-      `Incomplete chunks: got ${sorted.length}, expected ${sorted[0].totalChunks}`,
+  const expire = (chunk: ChunkedMessage) => () => {
+    const received = partial.get(chunk.requestId)?.received ?? 0
+    fail(
+      chunk,
+      new ViyvBrowserError(
+        'CHUNK_REASSEMBLY_FAILED',
+        `Timed out reassembling message ${chunk.requestId}: got ${received} of ${chunk.totalChunks} chunks`,
+        { requestId: chunk.requestId, received, totalChunks: chunk.totalChunks },
+      ),
     )
   }
 
-  const data = sorted.map((c) => c.data).join('')
-  return decompressPayload(data, sorted[0].compressed)
+  return {
+    add(chunk) {
+      // The timeout restarts with every chunk, so slow but progressing transfers complete
+      const timer = setTimeout(expire(chunk), TIMEOUTS.CHUNK_REASSEMBLY)
+      let entry = partial.get(chunk.requestId)
+      if (entry) {
+        clearTimeout(entry.timer)
+        entry.timer = timer
+      } else {
+        entry = { chunks: [], received: 0, timer }
+        partial.set(chunk.requestId, entry)
+      }
+
+      if (
+        chunk.chunkIndex < 0 ||
+        chunk.chunkIndex >= chunk.totalChunks ||
+        (entry.chunks[0] && entry.chunks[0].totalChunks !== chunk.totalChunks)
+      ) {
+        fail(
+          chunk,
+          new ViyvBrowserError(
+            'CHUNK_REASSEMBLY_FAILED',
+            `Inconsistent chunk ${chunk.chunkIndex}/${chunk.totalChunks} for message ${chunk.requestId}`,
+            { requestId: chunk.requestId },
+          ),
+        )
+        return
+      }
+      if (!entry.chunks[chunk.chunkIndex]) entry.received++
+      entry.chunks[chunk.chunkIndex] = chunk
+      if (entry.received < chunk.totalChunks) return
+
+      clearTimeout(entry.timer)
+      partial.delete(chunk.requestId)
+      let message: unknown
+      try {
+        message = joinChunks(entry.chunks)
+      } catch (error) {
+        onFailed(error as ViyvBrowserError, chunk)
+        return
+      }
+      onMessage(message)
+    },
+    clear() {
+      for (const entry of partial.values()) clearTimeout(entry.timer)
+      partial.clear()
+    },
+  }
 }
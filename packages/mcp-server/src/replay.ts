@@ -0,0 +1,246 @@
+/**
+ * `viyv-browser-mcp replay <trace>`: re-issues the calls of a recorded session (see
+ * session-recorder.ts) against a connected browser, in `seq` order.
+ *
+ * The command takes the place of the MCP server on the Unix socket and waits for the
+ * Extension's Native Host to connect. Tab IDs differ between runs, so IDs returned by the
+ * recording (e.g. from tabs_create) are mapped to the IDs returned during replay and
+ * substituted into later inputs. With `--assert`, each result is compared with the recorded one,
+ * ignoring volatile fields such as timestamps and IDs. Each replay runs as a fresh agent (unless
+ * `--agent-id` names one), so it never shares a tab group with the recording or another replay.
+ */
+
+import { randomUUID } from 'node:crypto'
+import { readFileSync } from 'node:fs'
+import { waitForBrowserConnection } from './browser-registry.js'
+import { callExtensionTool, cleanupSocket, createSocketServer } from './server.js'
+import { TRACE_VERSION, type TraceHeader, type TraceStep } from './session-recorder.js'
+import { isSocketInUse } from './socket-auth.js'
+import type { ToolCallResult } from './tool-result.js'
+
+export interface ReplayOptions {
+  socketPath: string
+  /** Fixed delay between steps */
+  pauseMs?: number
+  /** Keep the recorded gaps between steps instead of pausing a fixed time */
+  realtime?: boolean
+  /** Compare each result with the recorded one; mismatches fail the replay */
+  assert?: boolean
+  /** Browser to replay against (default: the first one that connects) */
+  browserId?: string
+  /** Agent to replay as (default: a fresh replay-<id> agent) */
+  agentId?: string
+  /** Display name of that agent, used for the tab groups the trace assigns */
+  agentName?: string
+}
+
+/** How long replay waits for a browser to connect */
+const REPLAY_CONNECT_TIMEOUT = 60_000
+
+// Fields that legitimately differ between runs
+const VOLATILE_KEYS = new Set([
+  'timestamp',
+  'tabId',
+  'windowId',
+  'groupId',
+  'tabGroupId',
+  'requestId',
+  'subscriptionId',
+  'durationMs',
+  'elapsed',
+  'elapsedMs',
+])
+
+/** Runs the replay and returns the process exit code */
+export async function runReplay(tracePath: string, options: ReplayOptions): Promise<number> {
+  const { header, steps } = readTrace(tracePath)
+  const agentId = options.agentId ?? `replay-${randomUUID().slice(0, 8)}`
+  const agentName = options.agentName ?? agentId
+
+  if (await isSocketInUse(options.socketPath)) {
+    process.stderr.write(
+      `[viyv-browser:replay] An MCP server is already listening on ${options.socketPath}. Stop it before replaying.\n`,
+    )
+    return 1
+  }
+  const socketServer = createSocketServer(options.socketPath)
+  process.on('exit', () => cleanupSocket(options.socketPath))
+
+  try {
+    process.stderr.write(
+      `[viyv-browser:replay] Replaying ${steps.length} steps of ${tracePath} as agent ${agentName === agentId ? agentId : `${agentName} (${agentId})`}; waiting for the browser to connect\n`,
+    )
+    const browser = await waitForBrowserConnection(REPLAY_CONNECT_TIMEOUT, {
+      browserId: options.browserId,
+    })
+    if (!browser) {
+      process.stderr.write(
+        `[viyv-browser:replay] No browser connected within ${REPLAY_CONNECT_TIMEOUT / 1000}s\n`,
+      )
+      return 1
+    }
+
+    const tabIds = new Map<number, number>()
+    let failures = 0
+    let previousOffset = 0
+    for (const step of steps) {
+      const delay = options.realtime ? step.offsetMs - previousOffset : (options.pauseMs ?? 0)
+      previousOffset = step.offsetMs
+      if (delay > 0) await sleep(delay)
+
+      const input = mapAgent(
+        mapTabIds(step.input, tabIds) as Record<string, unknown>,
+        step.tool,
+        header.agentId,
+        { agentId, agentName },
+      )
+      const startedAt = Date.now()
+      const result = await callExtensionTool(step.tool, input, agentId, {
+        browserId: browser.browserId,
+      })
+      learnTabIds(step, result, tabIds)
+
+      const mismatch = options.assert ? compareResults(step, result) : null
+      const status = result.isError ? `error ${readErrorCode(result) ?? ''}`.trim() : 'ok'
+      process.stdout.write(
+        `#${step.seq} ${step.tool}: ${status} (${Date.now() - startedAt}ms)${mismatch ? ` MISMATCH: ${mismatch}` : ''}\n`,
+      )
+      if (mismatch) failures++
+    }
+
+    process.stdout.write(
+      options.assert
+        ? `${steps.length - failures}/${steps.length} steps matched the recording\n`
+        : `Replayed ${steps.length} steps\n`,
+    )
+    return failures > 0 ? 1 : 0
+  } finally {
+    socketServer.close()
+  }
+}
+
+export function readTrace(tracePath: string): { header: TraceHeader; steps: TraceStep[] } {
+  const lines = readFileSync(tracePath, 'utf-8').split('\n').filter(Boolean)
+  const [first, ...rest] = lines.map((line, index) => {
+    try {
+      return JSON.parse(line)
+    } catch {
+      throw new Error(`${tracePath}:${index + 1}: invalid JSON`)
+    }
+  })
+  if (first?.type !== 'trace') throw new Error(`${tracePath} is not a viyv-browser trace`)
+  if (first.version > TRACE_VERSION) {
+    throw new Error(`Trace version ${first.version} is newer than supported (${TRACE_VERSION})`)
+  }
+  const steps = (rest as TraceStep[]).filter((entry) => entry.type === 'step')
+  steps.sort((a, b) => a.seq - b.seq)
+  return { header: first as TraceHeader, steps }
+}
+
+/** Replaces recorded tab IDs in `tabId` fields with the IDs seen during replay */
+function mapTabIds(value: unknown, tabIds: Map<number, number>): unknown {
+  if (Array.isArray(value)) return value.map((item) => mapTabIds(item, tabIds))
+  if (!value || typeof value !== 'object') return value
+  return Object.fromEntries(
+    Object.entries(value).map(([key, v]) => [
+      key,
+      key === 'tabId' && typeof v === 'number' ? (tabIds.get(v) ?? v) : mapTabIds(v, tabIds),
+    ]),
+  )
+}
+
+/** Points the recording agent's agent_tab_assign calls at the replay agent */
+function mapAgent(
+  input: Record<string, unknown>,
+  tool: string,
+  recordedAgentId: string,
+  replay: { agentId: string; agentName: string },
+): Record<string, unknown> {
+  if (tool !== 'agent_tab_assign' || input.agentId !== recordedAgentId) return input
+  return { ...input, agentId: replay.agentId, agentName: replay.agentName }
+}
+
+/** Pairs up the top-level tabId of the recorded and replayed results (e.g. tabs_create) */
+function learnTabIds(step: TraceStep, result: ToolCallResult, tabIds: Map<number, number>) {
+  const recorded = parseText(step.content[0]?.type === 'text' ? step.content[0].text : undefined)
+  const actual = parseText(result.content[0]?.type === 'text' ? result.content[0].text : undefined)
+  if (typeof recorded?.tabId === 'number' && typeof actual?.tabId === 'number') {
+    tabIds.set(recorded.tabId, actual.tabId)
+  }
+}
+
+/** Returns a description of the first difference, or null when the results match */
+function compareResults(step: TraceStep, result: ToolCallResult): string | null {
+  if (step.isError !== (result.isError === true)) {
+    return step.isError
+      ? 'recording failed, replay succeeded'
+      : 'recording succeeded, replay failed'
+  }
+  if (step.content.length !== result.content.length) {
+    return `${step.content.length} content blocks recorded, ${result.content.length} replayed`
+  }
+  for (let i = 0; i < step.content.length; i++) {
+    const recorded = step.content[i]
+    const actual = result.content[i]
+    if (recorded.type !== actual.type) return `block ${i}: ${recorded.type} vs ${actual.type}`
+    // Images are compared by format only; their metadata block is compared as text
+    if (recorded.type === 'image' && actual.type === 'image') {
+      if (recorded.mimeType !== actual.mimeType) {
+        return `block ${i}: ${recorded.mimeType} vs ${actual.mimeType}`
+      }
+      continue
+    }
+    if (recorded.type !== 'text' || actual.type !== 'text') continue
+    const difference = findDifference(
+      parseText(recorded.text) ?? recorded.text,
+      parseText(actual.text) ?? actual.text,
+      '',
+    )
+    if (difference) return `block ${i}: ${difference}`
+  }
+  return null
+}
+
+function findDifference(recorded: unknown, actual: unknown, path: string): string | null {
+  if (recorded && actual && typeof recorded === 'object' && typeof actual === 'object') {
+    const keys = new Set([...Object.keys(recorded), ...Object.keys(actual)])
+    for (const key of keys) {
+      if (VOLATILE_KEYS.has(key)) continue
+      const difference = findDifference(
+        (recorded as Record<string, unknown>)[key],
+        (actual as Record<string, unknown>)[key],
+        path ? `${path}.${key}` : key,
+      )
+      if (difference) return difference
+    }
+    return null
+  }
+  if (recorded === actual) return null
+  return `${path || 'result'}: expected ${preview(recorded)}, got ${preview(actual)}`
+}
+
+function preview(value: unknown): string {
+  const text = JSON.stringify(value) ?? 'undefined'
+  return text.length > 80 ? `${text.slice(0, 80)}…` : text
+}
+
+function parseText(text: string | undefined): Record<string, unknown> | null {
+  if (!text) return null
+  try {
+    const parsed = JSON.parse(text)
+    return parsed && typeof parsed === 'object' ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+function readErrorCode(result: ToolCallResult): string | undefined {
+  const first = result.content[0]
+  const code =
+    first?.type === 'text' ? (parseText(first.text)?.error as { code?: unknown })?.code : undefined
+  return typeof code === 'string' ? code : undefined
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms))
+}
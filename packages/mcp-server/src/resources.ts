@@ -0,0 +1,163 @@
+/**
+ * MCP resources: exposes the agent's tabs, per-tab console/network buffers and
+ * accessibility tree as viyv:// resources, with resources/subscribe support.
+ * Contents are read from the Extension through regular tool calls; the Extension
+ * pushes `resource_updated` messages when the underlying data changes.
+ */
+
+import { type McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js'
+import {
+  type ReadResourceResult,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js'
+import { type ResourceKind, ViyvBrowserError } from '@viyv-browser/shared'
+import type { ToolCallResult } from './tool-result.js'
+
+export type ToolCaller = (tool: string, input: Record<string, unknown>) => Promise<ToolCallResult>
+
+export interface ResourceUpdate {
+  agentId: string
+  resource: ResourceKind
+  tabId?: number
+}
+
+const updateListeners = new Set<(update: ResourceUpdate) => void>()
+
+const TAB_RESOURCES: Array<{
+  kind: Exclude<ResourceKind, 'tabs'>
+  tool: string
+  description: string
+}> = [
+  {
+    kind: 'console',
+    tool: 'read_console_messages',
+    description: 'Buffered console messages of an agent tab',
+  },
+  {
+    kind: 'network',
+    tool: 'read_network_requests',
+    description: 'Buffered network requests of an agent tab',
+  },
+  {
+    kind: 'a11y',
+    tool: 'read_page',
+    description: 'Accessibility tree (with element refs) of an agent tab',
+  },
+]
+
+export function resourceUri(resource: ResourceKind, tabId?: number): string {
+  return resource === 'tabs' ? 'viyv://tabs' : `viyv://tab/${tabId}/${resource}`
+}
+
+export function processResourceUpdate(update: ResourceUpdate): void {
+  for (const listener of updateListeners) {
+    listener(update)
+  }
+}
+
+/**
+ * Registers viyv:// resources and subscription handlers on a session's McpServer.
+ * `getAgentId` resolves the session's agent; only that agent's updates are delivered.
+ * Returns a cleanup function to call when the transport closes.
+ */
+export function registerResources(
+  server: McpServer,
+  callTool: ToolCaller,
+  getAgentId: () => string,
+): () => void {
+  server.registerResource(
+    'tabs',
+    resourceUri('tabs'),
+    { description: "Tabs in the agent's tab group", mimeType: 'application/json' },
+    async (uri) => toResourceResult(uri.href, await callTool('tabs_context', {})),
+  )
+
+  for (const { kind, tool, description } of TAB_RESOURCES) {
+    const template = new ResourceTemplate(`viyv://tab/{tabId}/${kind}`, {
+      list: async () => {
+        const tabs = await listAgentTabs(callTool)
+        return {
+          resources: tabs.map((tab) => ({
+            uri: resourceUri(kind, tab.tabId),
+            name: `${kind}: ${tab.title || tab.tabId}`,
+            mimeType: 'application/json',
+          })),
+        }
+      },
+    })
+
+    server.registerResource(
+      `tab-${kind}`,
+      template,
+      { description, mimeType: 'application/json' },
+      async (uri, variables) => {
+        const tabId = Number(variables.tabId)
+        if (!Number.isInteger(tabId) || tabId < 0) {
+          throw new Error(`Invalid tab ID in resource URI: ${uri.href}`)
+        }
+        return toResourceResult(uri.href, await callTool(tool, { tabId }))
+      },
+    )
+  }
+
+  // resources/subscribe: track subscribed URIs per session
+  const subscribedUris = new Set<string>()
+  server.server.registerCapabilities({ resources: { subscribe: true } })
+  server.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    subscribedUris.add(request.params.uri)
+    return {}
+  })
+  server.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscribedUris.delete(request.params.uri)
+    return {}
+  })
+
+  const listener = (update: ResourceUpdate) => {
+    if (update.agentId !== getAgentId() || !server.isConnected()) return
+
+    // Tab list changes also change the set of per-tab resources
+    if (update.resource === 'tabs') server.sendResourceListChanged()
+
+    const uri = resourceUri(update.resource, update.tabId)
+    if (!subscribedUris.has(uri)) return
+    server.server.sendResourceUpdated({ uri }).catch(() => {
+      // Ignore send errors (client may have disconnected)
+    })
+  }
+  updateListeners.add(listener)
+
+  return () => {
+    updateListeners.delete(listener)
+  }
+}
+
+async function listAgentTabs(
+  callTool: ToolCaller,
+): Promise<Array<{ tabId: number; title?: string }>> {
+  try {
+    const parsed = parseToolResult(await callTool('tabs_context', {}))
+    return Array.isArray(parsed.tabs)
+      ? (parsed.tabs as Array<{ tabId: number; title?: string }>)
+      : []
+  } catch {
+    // Listing must not fail resources/list as a whole (e.g. Extension not connected)
+    return []
+  }
+}
+
+function toResourceResult(uri: string, result: ToolCallResult): ReadResourceResult {
+  const parsed = parseToolResult(result)
+  return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(parsed) }] }
+}
+
+// Surface Extension errors as JSON-RPC errors instead of resource contents
+function parseToolResult(result: ToolCallResult): Record<string, unknown> {
+  const first = result.content[0]
+  const parsed = first?.type === 'text' ? JSON.parse(first.text) : {}
+  if (result.isError) {
+    const error = ViyvBrowserError.fromPayload(parsed?.error)
+    throw new Error(`[${error.code}] ${error.message}`)
+  }
+  return parsed
+}
@@ -1,6 +1,6 @@
 /**
  * MCP Server for viyv-browser.
- * Communicates with viyv Daemon via stdio (JSON-RPC) or SSE (HTTP),
+ * Communicates with viyv Daemon via stdio (JSON-RPC), SSE or Streamable HTTP,
  * and with Chrome Extension via Unix socket <-> Native Messaging bridge.
  */
 
@@ -8,81 +8,265 @@ import { randomUUID } from 'node:crypto'
 import { existsSync, unlinkSync } from 'node:fs'
 import http from 'node:http'
 import { type Server as NetServer, type Socket, createServer } from 'node:net'
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js'
+import { McpServer, type RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js'
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js'
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
-import { type BrowserEventType, MCP_SERVER, PROTOCOL_VERSION, TIMEOUTS } from '@viyv-browser/shared'
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js'
+import { type ServerNotification, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js'
 import {
+  type BatchInput,
+  type BrowserEventType,
+  type BrowserInfo,
+  LIMITS,
+  MCP_SERVER,
+  PROTOCOL_VERSION,
+  type ProtocolCapabilities,
+  type ResourceKind,
+  TIMEOUTS,
+  type ToolPageContext,
+  ViyvBrowserError,
+  batchDuration,
+} from '@viyv-browser/shared'
+import { z } from 'zod'
+import {
+  type ClientIdentity,
+  bindClientIdentity,
   closeSession,
   createSession,
   getDefaultAgentId,
+  releaseClientIdentity,
+  resolveAgentId,
   setDefaultAgentId,
   touchSession,
 } from './agent-session.js'
 import {
+  configureAuditLog,
+  createAuditEntry,
+  getRecentAuditEntries,
+  recordAuditEntry,
+} from './audit-log.js'
+import {
+  type ConnectedBrowser,
+  getBrowser,
+  hasBrowserConnected,
+  identifyBrowser,
+  listBrowsers,
+  onBrowserConnected,
+  onBrowsersChanged,
+  registerBrowser,
+  touchBrowser,
+  unregisterBrowser,
+  waitForBrowserConnection,
+} from './browser-registry.js'
+import { getSettings } from './config.js'
+import {
+  type BufferedEvent,
   addEventListener,
   addSubscription,
+  pollEvents,
   processEvent,
   removeEventListener,
   removeSubscription,
   removeSubscriptionsByAgent,
 } from './event-bridge.js'
-import { isExtensionConnected, recordHeartbeat, setExtensionConnected } from './health.js'
+import { createEventStore } from './http-event-store.js'
 import { decompressPayload } from './native-host/compression.js'
+import { processResourceUpdate, registerResources } from './resources.js'
+import { configureRecorder, createSessionRecorder } from './session-recorder.js'
+import {
+  computeProof,
+  createNonce,
+  createSocketSecret,
+  restrictSocket,
+  verifyProof,
+} from './socket-auth.js'
+import { getToolPolicy, isToolAllowed } from './tool-profiles.js'
+import { type ToolCallResult, errorResult, jsonContent, shapeToolResult } from './tool-result.js'
 import { allTools } from './tools/index.js'
 
 interface PendingRequest {
   resolve: (result: Record<string, unknown>) => void
   reject: (error: Error) => void
   timer: ReturnType<typeof setTimeout>
+  onProgress?: (update: ProgressUpdate) => void
+  /** Browser the request was sent to; only its disconnect affects the request */
+  browser: ConnectedBrowser
+  /** The tool_call message, re-sent with `replay: true` when the browser reconnects */
+  request: Record<string, unknown>
+  /** Set while the browser is disconnected and the request waits for it (grace window) */
+  graceTimer?: ReturnType<typeof setTimeout>
+  trace?: CallTrace
+}
+
+interface ProgressUpdate {
+  progress: number
+  total?: number
+  message?: string
+}
+
+interface ExtensionCallOptions {
+  /** Target browser; defaults to the most recently connected one */
+  browserId?: string
+  /** Aborts the call and sends tool_cancel to the Extension */
+  signal?: AbortSignal
+  /** Receives tool_progress updates; the Extension only reports progress when set */
+  onProgress?: (update: ProgressUpdate) => void
+  /** Filled in with the browser and page the call went to (audit trail) */
+  trace?: CallTrace
+}
+
+interface CallTrace {
+  browserId?: string
+  page?: ToolPageContext
 }
 
 const pendingRequests = new Map<string, PendingRequest>()
-let extensionSocket: Socket | null = null
 
 export interface McpServerOptions {
-  transport?: 'stdio' | 'sse'
+  transport?: 'stdio' | 'sse' | 'http'
   port?: number
+  /** JSONL file receiving the audit trail; without it audit records stay in memory only */
+  auditLogPath?: string
+  /** Directory receiving one replayable trace file per MCP session */
+  recordDir?: string
+}
+
+/** Subset of the SDK's RequestHandlerExtra used by tool handlers */
+interface ToolCallExtra {
+  /** Aborted when the client sends notifications/cancelled for the request */
+  signal: AbortSignal
+  _meta?: { progressToken?: string | number }
+  sendNotification: (notification: ServerNotification) => Promise<void>
 }
 
+interface TransportSession<T> {
+  transport: T
+  server: McpServer
+}
+
+/** Custom MCP notification carrying browser events (advertised under experimental capabilities) */
+const BROWSER_EVENT_NOTIFICATION = 'notifications/viyv/browser_event'
+
+/** Tools answered by the MCP server itself; all others are forwarded to a browser */
+export const SERVER_SIDE_TOOLS = new Set([
+  'agent_identify',
+  'audit_recent',
+  'browser_event_poll',
+  'browser_list',
+  'switch_browser',
+])
+
+/** Added to every browser-bound tool for per-call routing */
+const BROWSER_ID_PARAM = z
+  .string()
+  .optional()
+  .describe('Route this call to a specific browser (see browser_list)')
+
+/** Sent in session_init; the Native Host (same package) handles chunking and compression */
+const SERVER_CAPABILITIES: ProtocolCapabilities = {
+  chunking: true,
+  compression: true,
+  cancellation: true,
+  progress: true,
+}
+
+/** How long switch_browser waits for a new browser to connect */
+const SWITCH_BROWSER_TIMEOUT = 60_000
+
+/** Default page size of browser_event_poll */
+const EVENT_POLL_DEFAULT_LIMIT = 100
+
+/** Default number of entries returned by audit_recent */
+const AUDIT_RECENT_DEFAULT_LIMIT = 50
+
+/** Max buffered bytes from a socket peer that has not completed the handshake */
+const MAX_HANDSHAKE_BYTES = 64 * 1024
+
+/** Max JSON-RPC request body accepted on the Streamable HTTP endpoint */
+const MAX_HTTP_BODY_BYTES = 4 * 1024 * 1024
+
 /**
  * Creates a fully configured McpServer with all tools registered and event forwarding.
- * Each SSE session needs its own McpServer instance (McpServer.connect() can only be called once).
+ * Each SSE/HTTP session needs its own McpServer instance (McpServer.connect() can only be called once).
+ * Tool calls, subscriptions and forwarded events are scoped to the session's agent identity.
  */
-function createConfiguredMcpServer(): McpServer {
+function createConfiguredMcpServer(identity: ClientIdentity = {}): McpServer {
   const server = new McpServer({
     name: MCP_SERVER.NAME,
     version: MCP_SERVER.VERSION,
   })
 
+  // Browser-bound tools, enabled according to the capabilities of the session's browser
+  const browserTools = new Map<string, RegisteredTool>()
+  // Trace of this session's browser calls (--record)
+  const recorder = createSessionRecorder(() => resolveAgentId(identity))
+
   // Register all tools -- pass Zod shape directly (FIX #1: MCP SDK expects Zod, not JSON Schema)
   for (const tool of allTools) {
-    const shape = tool.inputSchema._def.shape?.() ?? {}
-    server.tool(tool.name, tool.description, shape, async (params) => {
-      const result = await callExtensionTool(tool.name, params as Record<string, unknown>)
+    // Tools outside the --tools profile are not exposed at all
+    if (!isToolAllowed(tool.name)) continue
+    const baseShape = tool.inputSchema._def.shape?.() ?? {}
+    const shape = SERVER_SIDE_TOOLS.has(tool.name)
+      ? baseShape
+      : { ...baseShape, browserId: BROWSER_ID_PARAM }
+    const runTool = async (
+      params: Record<string, unknown>,
+      extra: ToolCallExtra,
+      trace: CallTrace,
+    ): Promise<ToolCallResult> => {
+      // agent_identify is handled server-side: binds this session to an agent identity
+      if (tool.name === 'agent_identify') {
+        return handleAgentIdentify(identity, params as Record<string, unknown>)
+      }
+      if (tool.name === 'audit_recent') {
+        return handleAuditRecent(resolveAgentId(identity), params as Record<string, unknown>)
+      }
+      // browser_event_poll is served from the event-bridge buffer, not the Extension
+      if (tool.name === 'browser_event_poll') {
+        return handleEventPoll(resolveAgentId(identity), params as Record<string, unknown>)
+      }
+      if (tool.name === 'browser_list') {
+        return handleBrowserList(identity)
+      }
+      // switch_browser binds this session to a browser (or waits for a new one)
+      if (tool.name === 'switch_browser') {
+        const switched = await handleSwitchBrowser(identity, params as Record<string, unknown>)
+        syncToolAvailability()
+        return switched
+      }
+
+      // Per-call browserId wins over the session's switch_browser selection
+      const { browserId, ...input } = params as Record<string, unknown>
+      const agentId = resolveAgentId(identity)
+      const result = await callExtensionTool(tool.name, input, agentId, {
+        browserId: typeof browserId === 'string' ? browserId : identity.browserId,
+        signal: extra.signal,
+        onProgress: createProgressRelay(extra),
+        trace,
+      })
 
       // BUG-4 FIX: Sync event subscriptions with MCP server's event-bridge
-      if (tool.name === 'browser_event_subscribe' && result.content[0]) {
+      const first = result.content[0]
+      if (tool.name === 'browser_event_subscribe' && first?.type === 'text') {
         try {
-          const parsed = JSON.parse(result.content[0].text)
+          const parsed = JSON.parse(first.text)
           if (parsed.subscriptionId) {
-            const p = params as Record<string, unknown>
             addSubscription({
               id: parsed.subscriptionId,
-              agentId: getDefaultAgentId(),
-              eventTypes: (p.eventTypes as BrowserEventType[]) ?? [],
-              urlPattern: p.urlPattern as string | undefined,
+              agentId,
+              eventTypes: (input.eventTypes as BrowserEventType[]) ?? [],
+              urlPattern: input.urlPattern as string | undefined,
               createdAt: Date.now(),
             })
           }
         } catch {
           /* ignore parse errors */
         }
-      } else if (tool.name === 'browser_event_unsubscribe' && result.content[0]) {
+      } else if (tool.name === 'browser_event_unsubscribe' && first?.type === 'text') {
         try {
-          const parsed = JSON.parse(result.content[0].text)
+          const parsed = JSON.parse(first.text)
           if (parsed.subscriptionId) {
-            removeSubscription(parsed.subscriptionId)
+            removeSubscription(parsed.subscriptionId, agentId)
           }
         } catch {
           /* ignore parse errors */
@@ -90,16 +274,69 @@ function createConfiguredMcpServer(): McpServer {
       }
 
       return result
-    })
+    }
+    // Every call, server-side or forwarded, leaves an audit record; browser calls are recorded
+    const callTool = async (params: Record<string, unknown>, extra: ToolCallExtra) => {
+      const startedAt = Date.now()
+      const trace: CallTrace = {}
+      const recording = SERVER_SIDE_TOOLS.has(tool.name) ? undefined : recorder?.begin()
+      const result = await runTool(params, extra, trace).catch((error) => errorResult(error))
+      if (recording) {
+        const { browserId: _browserId, ...input } = params
+        recorder?.record(recording, { tool: tool.name, input, browserId: trace.browserId, result })
+      }
+      recordAuditEntry(
+        createAuditEntry({
+          agentId: resolveAgentId(identity),
+          browserId: trace.browserId,
+          tool: tool.name,
+          input: params,
+          result,
+          page: trace.page,
+          startedAt,
+        }),
+      )
+      return result
+    }
+    const registered = server.tool(tool.name, tool.description, shape, tool.annotations, callTool)
+    if (!SERVER_SIDE_TOOLS.has(tool.name)) browserTools.set(tool.name, registered)
   }
 
-  // Forward browser events through MCP logging notification
-  const listener = (event: Record<string, unknown>) => {
-    server
-      .sendLoggingMessage({
-        level: 'info',
-        data: event,
-      })
+  // Advertise only the tools the session's browser supports. Browsers that sent no
+  // capabilities (or no browser at all) keep the full list.
+  const syncToolAvailability = () => {
+    const supported = getBrowser(identity.browserId)?.capabilities?.tools
+    let changed = false
+    for (const [name, registered] of browserTools) {
+      const enabled = !supported || supported.includes(name)
+      if (registered.enabled !== enabled) {
+        registered.enabled = enabled
+        changed = true
+      }
+    }
+    // One tools/list_changed for the whole update
+    if (changed && server.isConnected()) server.sendToolListChanged()
+  }
+  syncToolAvailability()
+  const removeBrowsersListener = onBrowsersChanged(syncToolAvailability)
+
+  // Expose tabs, console/network buffers and a11y trees as subscribable resources
+  const unregisterResources = registerResources(
+    server,
+    (tool, input) =>
+      callExtensionTool(tool, input, resolveAgentId(identity), { browserId: identity.browserId }),
+    () => resolveAgentId(identity),
+  )
+
+  // Forward browser events through a dedicated notification (only this session's agent).
+  // Events missed while disconnected can be fetched with browser_event_poll.
+  server.server.registerCapabilities({
+    experimental: { browserEvents: { notificationMethod: BROWSER_EVENT_NOTIFICATION } },
+  })
+  const listener = (event: BufferedEvent) => {
+    if (event.agentId !== resolveAgentId(identity) || !server.isConnected()) return
+    server.server
+      .notification({ method: BROWSER_EVENT_NOTIFICATION, params: { ...event } })
       .catch(() => {
         // Ignore send errors for events (client may not be listening)
       })
@@ -109,6 +346,11 @@ function createConfiguredMcpServer(): McpServer {
   // Clean up listener when transport closes
   server.server.onclose = () => {
     removeEventListener(listener)
+    removeBrowsersListener()
+    unregisterResources()
+    // Release agent-scoped resources once no other client uses this identity
+    const releasedAgentId = releaseClientIdentity(identity)
+    if (releasedAgentId) removeSubscriptionsByAgent(releasedAgentId)
   }
 
   return server
@@ -122,19 +364,38 @@ export async function startMcpServer(
   if (agentName) {
     setDefaultAgentId(agentName)
   }
+  const { limits } = getSettings()
+  configureAuditLog({
+    path: options?.auditLogPath,
+    maxBytes: limits.auditLogBytes,
+    maxFiles: limits.auditLogFiles,
+  })
+  configureRecorder({ dir: options?.recordDir })
+  if (options?.auditLogPath) {
+    process.stderr.write(`[viyv-browser:mcp] Writing audit log to ${options.auditLogPath}\n`)
+  }
 
   // -- Unix Socket Server (for Native Host connections) -- shared by both transports
   const socketServer = createSocketServer(socketPath)
 
-  if (options?.transport === 'sse') {
-    // -- SSE mode: HTTP server, one McpServer per SSE session --
-    const sessions = new Map<string, { transport: SSEServerTransport; server: McpServer }>()
+  if (options?.transport === 'sse' || options?.transport === 'http') {
+    // -- SSE / Streamable HTTP mode: HTTP server, one McpServer per session --
+    const transportMode = options.transport
+    const label = transportMode === 'http' ? 'Streamable HTTP' : 'SSE'
+    const sseSessions = new Map<string, TransportSession<SSEServerTransport>>()
+    const httpSessions = new Map<string, TransportSession<StreamableHTTPServerTransport>>()
 
     const httpServer = http.createServer()
 
     httpServer.on('request', (req, res) => {
-      handleSseRequest(req, res, sessions).catch((error) => {
-        process.stderr.write(`[viyv-browser:mcp] SSE request error: ${(error as Error).message}\n`)
+      const handled =
+        transportMode === 'http'
+          ? handleStreamableHttpRequest(req, res, httpSessions)
+          : handleSseRequest(req, res, sseSessions)
+      handled.catch((error) => {
+        process.stderr.write(
+          `[viyv-browser:mcp] ${label} request error: ${(error as Error).message}\n`,
+        )
         if (!res.headersSent) {
           res.writeHead(500).end('Internal server error')
         }
@@ -146,17 +407,19 @@ export async function startMcpServer(
       const addr = httpServer.address()
       const port = typeof addr === 'object' ? addr?.port : listenPort
       process.stdout.write(`${JSON.stringify({ port })}\n`)
-      process.stderr.write(`[viyv-browser:mcp] SSE server listening on 127.0.0.1:${port}\n`)
+      process.stderr.write(`[viyv-browser:mcp] ${label} server listening on 127.0.0.1:${port}\n`)
     })
 
-    process.stderr.write(`[viyv-browser:mcp] MCP Server started (SSE), socket: ${socketPath}\n`)
+    process.stderr.write(
+      `[viyv-browser:mcp] MCP Server started (${label}), socket: ${socketPath}\n`,
+    )
 
-    // Graceful shutdown: close SSE sessions async, then sync cleanup
+    // Graceful shutdown: close sessions async, then sync cleanup
     let shuttingDown = false
     const shutdown = async () => {
       if (shuttingDown) return
       shuttingDown = true
-      for (const { server: s } of sessions.values()) {
+      for (const { server: s } of [...sseSessions.values(), ...httpSessions.values()]) {
         await s.close().catch(() => {})
       }
       httpServer.close(() => {})
@@ -197,12 +460,18 @@ export async function startMcpServer(
 async function handleSseRequest(
   req: http.IncomingMessage,
   res: http.ServerResponse,
-  sessions: Map<string, { transport: SSEServerTransport; server: McpServer }>,
+  sessions: Map<string, TransportSession<SSEServerTransport>>,
 ): Promise<void> {
-  if (req.method === 'GET' && req.url === '/sse') {
+  const pathname = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`).pathname
+  if (req.method === 'GET' && pathname === '/sse') {
     // New SSE session
+    const identity = readClientIdentity(req)
+    if (!identity) {
+      res.writeHead(400).end('Invalid agent ID')
+      return
+    }
     const transport = new SSEServerTransport('/message', res)
-    const mcpServer = createConfiguredMcpServer()
+    const mcpServer = createConfiguredMcpServer(identity)
 
     transport.onclose = () => {
       sessions.delete(transport.sessionId)
@@ -236,73 +505,251 @@ async function handleSseRequest(
   }
 }
 
-function createSocketServer(socketPath: string): NetServer {
+/**
+ * Streamable HTTP transport: a single /mcp endpoint handling POST (requests),
+ * GET (server-initiated SSE stream, resumable via Last-Event-ID) and DELETE (session teardown).
+ */
+async function handleStreamableHttpRequest(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  sessions: Map<string, TransportSession<StreamableHTTPServerTransport>>,
+): Promise<void> {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`)
+  if (url.pathname !== '/mcp') {
+    res.writeHead(404).end()
+    return
+  }
+
+  const sessionHeader = req.headers['mcp-session-id']
+  const sessionId = typeof sessionHeader === 'string' ? sessionHeader : undefined
+
+  if (sessionId) {
+    // Existing session: the transport handles POST, GET and DELETE itself
+    const session = sessions.get(sessionId)
+    if (!session) {
+      writeJsonRpcError(res, 404, 'Session not found')
+      return
+    }
+    await session.transport.handleRequest(req, res)
+    return
+  }
+
+  // No session yet: only an initialize POST may create one
+  if (req.method !== 'POST') {
+    writeJsonRpcError(res, 400, 'Missing Mcp-Session-Id header')
+    return
+  }
+
+  let body: unknown
+  try {
+    body = await readJsonBody(req)
+  } catch (error) {
+    writeJsonRpcError(res, 400, (error as Error).message, -32700)
+    return
+  }
+  if (!isInitializeRequest(body)) {
+    writeJsonRpcError(res, 400, 'First request must be initialize')
+    return
+  }
+
+  const identity = readClientIdentity(req)
+  if (!identity) {
+    writeJsonRpcError(res, 400, 'Invalid agent ID')
+    return
+  }
+
+  const mcpServer = createConfiguredMcpServer(identity)
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    eventStore: createEventStore(),
+    // Register session only once the transport has assigned its ID
+    onsessioninitialized: (id) => {
+      sessions.set(id, { transport, server: mcpServer })
+    },
+    onsessionclosed: (id) => {
+      sessions.delete(id)
+      process.stderr.write(`[viyv-browser:mcp] HTTP session closed: ${id}\n`)
+    },
+  })
+
+  transport.onclose = () => {
+    if (transport.sessionId) sessions.delete(transport.sessionId)
+  }
+
+  try {
+    await mcpServer.connect(transport)
+    await transport.handleRequest(req, res, body)
+  } finally {
+    // No session was created (setup threw or initialize was rejected): nothing else will close it
+    if (!transport.sessionId || !sessions.has(transport.sessionId)) {
+      await mcpServer.close().catch(() => {})
+    }
+  }
+}
+
+/**
+ * Reads the client's agent identity from the X-Viyv-Agent-Id / X-Viyv-Agent-Name headers
+ * or the agentId / agentName query params. Returns null if the agent ID is invalid.
+ */
+function readClientIdentity(req: http.IncomingMessage): ClientIdentity | null {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`)
+  const header = (name: string) => {
+    const value = req.headers[name]
+    return typeof value === 'string' ? value : undefined
+  }
+  const agentId = header('x-viyv-agent-id') ?? url.searchParams.get('agentId') ?? undefined
+  const agentName = header('x-viyv-agent-name') ?? url.searchParams.get('agentName') ?? undefined
+
+  const identity: ClientIdentity = {}
+  if (!agentId) return identity
+  try {
+    bindClientIdentity(identity, agentId, agentName)
+  } catch {
+    return null
+  }
+  process.stderr.write(`[viyv-browser:mcp] Client identified as agent: ${agentId}\n`)
+  return identity
+}
+
+function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = []
+    let size = 0
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length
+      if (size > MAX_HTTP_BODY_BYTES) {
+        reject(new Error(`Request body exceeds ${MAX_HTTP_BODY_BYTES} bytes`))
+        req.destroy()
+        return
+      }
+      chunks.push(chunk)
+    })
+    req.on('end', () => {
+      try {
+        resolve(JSON.parse(Buffer.concat(chunks).toString('utf-8')))
+      } catch (error) {
+        reject(new Error(`Invalid JSON body: ${(error as Error).message}`))
+      }
+    })
+    req.on('error', reject)
+  })
+}
+
+function writeJsonRpcError(
+  res: http.ServerResponse,
+  status: number,
+  message: string,
+  code = -32000,
+) {
+  res
+    .writeHead(status, { 'Content-Type': 'application/json' })
+    .end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }))
+}
+
+/** Unix socket server the Native Hosts connect to (also used by `replay`) */
+export function createSocketServer(socketPath: string): NetServer {
   cleanupSocket(socketPath)
+  // Fresh shared secret per run; the Native Host reads it when it connects
+  const secret = createSocketSecret(socketPath)
 
   const server = createServer((socket) => {
-    // FIX #6: Clean up old connection before accepting new one
-    if (extensionSocket && !extensionSocket.destroyed) {
-      process.stderr.write('[viyv-browser:mcp] Replacing existing extension connection\n')
-      extensionSocket.destroy()
-    }
+    // Set once the Native Host completed the handshake; nothing is processed before that
+    let browser: ConnectedBrowser | null = null
+    let serverNonce: string | null = null
+    let hostNonce: string | null = null
+
+    const authTimer = setTimeout(() => {
+      rejectConnection(socket, 'handshake timed out')
+    }, TIMEOUTS.SOCKET_AUTH)
 
-    process.stderr.write('[viyv-browser:mcp] Extension connected via Unix socket\n')
-    extensionSocket = socket
-    setExtensionConnected(true)
-
-    // NM3: Send session_init with protocol version on connection
-    const agentId = getDefaultAgentId()
-    createSession(agentId)
-    const initMsg = {
-      id: randomUUID(),
-      type: 'session_init',
-      agentId,
-      protocolVersion: PROTOCOL_VERSION,
-      timestamp: Date.now(),
+    // Handshake: host nonce -> session_init with server nonce + proof -> host proof
+    const authenticate = (msg: Record<string, unknown>) => {
+      if (msg.type !== 'session_auth') {
+        rejectConnection(socket, `expected session_auth, got ${String(msg.type)}`)
+        return
+      }
+      if (!hostNonce) {
+        if (typeof msg.nonce !== 'string' || !msg.nonce) {
+          rejectConnection(socket, 'missing nonce')
+          return
+        }
+        hostNonce = msg.nonce
+        serverNonce = createNonce()
+
+        // NM3: Send session_init with protocol version on connection
+        const agentId = getDefaultAgentId()
+        createSession(agentId)
+        const initMsg = {
+          id: randomUUID(),
+          type: 'session_init',
+          agentId,
+          protocolVersion: PROTOCOL_VERSION,
+          capabilities: SERVER_CAPABILITIES,
+          settings: getSettings(),
+          toolPolicy: getToolPolicy(),
+          auth: {
+            nonce: serverNonce,
+            proof: computeProof(secret, 'server', hostNonce, serverNonce),
+          },
+          timestamp: Date.now(),
+        }
+        socket.write(`${JSON.stringify(initMsg)}\n`)
+        return
+      }
+      if (!serverNonce || !verifyProof(secret, 'host', serverNonce, hostNonce, msg.proof)) {
+        rejectConnection(socket, 'invalid proof')
+        return
+      }
+
+      clearTimeout(authTimer)
+      // Several browsers may be connected at once; the session_init reply identifies this one
+      // (a reconnect of the same browser replaces its stale connection)
+      process.stderr.write('[viyv-browser:mcp] Extension connected via Unix socket\n')
+      browser = registerBrowser(socket)
     }
-    socket.write(`${JSON.stringify(initMsg)}\n`)
 
     // TCP stream fragmentation fix: line-based buffer
     let lineBuffer = ''
 
     socket.on('data', (data) => {
       lineBuffer += data.toString('utf-8')
+      if (!browser && lineBuffer.length > MAX_HANDSHAKE_BYTES) {
+        rejectConnection(socket, 'handshake message too large')
+        return
+      }
       const lines = lineBuffer.split('\n')
       lineBuffer = lines.pop() ?? '' // Keep incomplete last line
       for (const line of lines) {
-        if (!line) continue
+        if (!line || socket.destroyed) continue
         try {
           let parsed = JSON.parse(line)
+          if (!browser) {
+            authenticate(parsed)
+            continue
+          }
           // NM5: Handle compressed messages from Native Host
           if (parsed.type === 'compressed' && typeof parsed.data === 'string') {
             const decompressed = decompressPayload(parsed.data, true)
             parsed = JSON.parse(decompressed)
           }
-          handleExtensionMessage(parsed)
+          handleExtensionMessage(browser, parsed)
         } catch (error) {
           process.stderr.write(`[viyv-browser:mcp] Parse error: ${(error as Error).message}\n`)
+          if (!browser) rejectConnection(socket, 'malformed handshake message')
         }
       }
     })
 
     socket.on('close', () => {
-      process.stderr.write('[viyv-browser:mcp] Extension disconnected\n')
-      // Only clear if this is still the active socket
-      if (extensionSocket === socket) {
-        extensionSocket = null
-        setExtensionConnected(false)
-      }
+      clearTimeout(authTimer)
+      if (!browser) return
+      const closed = browser
+      process.stderr.write(`[viyv-browser:mcp] Extension disconnected: ${closed.browserId}\n`)
+      unregisterBrowser(closed)
 
-      // Reject all pending requests on disconnect
+      // Requests in flight on this browser wait for it to reconnect (grace window)
       for (const [id, pending] of pendingRequests) {
-        clearTimeout(pending.timer)
-        pendingRequests.delete(id)
-        pending.resolve({
-          error: {
-            code: 'EXTENSION_NOT_CONNECTED',
-            message: 'Extension disconnected while request was pending',
-          },
-        })
+        if (pending.browser === closed) parkPendingRequest(id, pending)
       }
     })
 
@@ -311,15 +758,40 @@ function createSocketServer(socketPath: string): NetServer {
     })
   })
 
+  // Replay requests that were in flight when this browser's previous connection dropped
+  onBrowserConnected((browser) => {
+    for (const [id, pending] of pendingRequests) {
+      if (pending.graceTimer && pending.browser.browserId === browser.browserId) {
+        replayPendingRequest(id, pending, browser)
+      }
+    }
+  })
+
   server.listen(socketPath, () => {
+    restrictSocket(socketPath)
     process.stderr.write(`[viyv-browser:mcp] Unix socket listening on ${socketPath}\n`)
   })
 
   return server
 }
 
+/** Tells the peer why the handshake failed, then closes the connection */
+function rejectConnection(socket: Socket, reason: string) {
+  if (socket.destroyed) return
+  process.stderr.write(`[viyv-browser:mcp] Rejected socket connection: ${reason}\n`)
+  const error = new ViyvBrowserError('AUTH_FAILED', `Socket authentication failed: ${reason}`)
+  const reply = {
+    id: randomUUID(),
+    type: 'session_auth',
+    error: error.toJSON(),
+    timestamp: Date.now(),
+  }
+  socket.write(`${JSON.stringify(reply)}\n`)
+  socket.destroySoon()
+}
+
 // FIX #8: Validate message structure before processing
-function handleExtensionMessage(message: unknown) {
+function handleExtensionMessage(browser: ConnectedBrowser, message: unknown) {
   if (!message || typeof message !== 'object') return
   const msg = message as Record<string, unknown>
 
@@ -332,18 +804,27 @@ function handleExtensionMessage(message: unknown) {
     if (pending) {
       clearTimeout(pending.timer)
       pendingRequests.delete(id)
+      if (pending.trace) pending.trace.page = readPageContext(msg.page)
 
       if (msg.success) {
         pending.resolve((msg.result as Record<string, unknown>) ?? {})
       } else {
-        const err = msg.error as Record<string, unknown> | undefined
-        const code = typeof err?.code === 'string' ? err.code : 'UNKNOWN'
-        const errMsg = typeof err?.message === 'string' ? err.message : 'Unknown error'
-        pending.reject(new Error(`[${code}] ${errMsg}`))
+        // Keep the Extension's code, details and hint intact
+        pending.reject(ViyvBrowserError.fromPayload(msg.error))
       }
     }
+  } else if (type === 'tool_progress') {
+    const requestId = typeof msg.requestId === 'string' ? msg.requestId : null
+    const pending = requestId ? pendingRequests.get(requestId) : undefined
+    if (pending?.onProgress && typeof msg.progress === 'number') {
+      pending.onProgress({
+        progress: msg.progress,
+        total: typeof msg.total === 'number' ? msg.total : undefined,
+        message: typeof msg.message === 'string' ? msg.message : undefined,
+      })
+    }
   } else if (type === 'session_heartbeat') {
-    recordHeartbeat()
+    touchBrowser(browser)
     // NM6: Touch session on heartbeat
     const hbAgentId = typeof msg.agentId === 'string' ? msg.agentId : null
     if (hbAgentId) touchSession(hbAgentId)
@@ -371,6 +852,25 @@ function handleExtensionMessage(message: unknown) {
         `[viyv-browser:mcp] Protocol version mismatch: local=${PROTOCOL_VERSION}, remote=${remoteVersion}\n`,
       )
     }
+    // Older Extensions send no identity and keep a generated browserId
+    const info = msg.browser && typeof msg.browser === 'object' ? msg.browser : {}
+    const capabilities = readCapabilities(msg.capabilities)
+    if (!capabilities) {
+      process.stderr.write(
+        '[viyv-browser:mcp] Extension sent no capabilities; advertising all tools\n',
+      )
+    }
+    identifyBrowser(browser, info as Partial<BrowserInfo>, capabilities)
+  } else if (type === 'resource_updated') {
+    const updateAgentId = typeof msg.agentId === 'string' ? msg.agentId : null
+    const resource = msg.resource as ResourceKind | undefined
+    if (updateAgentId && resource) {
+      processResourceUpdate({
+        agentId: updateAgentId,
+        resource,
+        tabId: typeof msg.tabId === 'number' ? msg.tabId : undefined,
+      })
+    }
   } else if (type === 'browser_event') {
     process.stderr.write(`[viyv-browser:mcp] Browser event: ${String(msg.eventType)}\n`)
     processEvent({
@@ -384,194 +884,355 @@ function handleExtensionMessage(message: unknown) {
   }
 }
 
-async function callExtensionTool(
+function readCapabilities(value: unknown): ProtocolCapabilities | undefined {
+  if (!value || typeof value !== 'object') return undefined
+  const c = value as Record<string, unknown>
+  const strings = (list: unknown) =>
+    Array.isArray(list)
+      ? list.filter((item): item is string => typeof item === 'string')
+      : undefined
+  return {
+    tools: strings(c.tools),
+    chunking: c.chunking === true,
+    compression: c.compression === true,
+    cancellation: c.cancellation === true,
+    progress: c.progress === true,
+    eventTypes: strings(c.eventTypes) as ProtocolCapabilities['eventTypes'],
+  }
+}
+
+function handleAgentIdentify(
+  identity: ClientIdentity,
+  input: Record<string, unknown>,
+): ToolCallResult {
+  const agentId = input.agentId as string
+  const agentName = input.agentName as string | undefined
+  try {
+    bindClientIdentity(identity, agentId, agentName)
+  } catch (error) {
+    return errorResult(error, 'INVALID_PARAMS')
+  }
+  process.stderr.write(`[viyv-browser:mcp] Client identified as agent: ${agentId}\n`)
+  return { content: [jsonContent({ identified: true, agentId, agentName: identity.agentName })] }
+}
+
+function handleEventPoll(agentId: string, input: Record<string, unknown>): ToolCallResult {
+  const cursor = typeof input.cursor === 'number' && input.cursor > 0 ? input.cursor : 0
+  const limit =
+    typeof input.limit === 'number' && input.limit > 0
+      ? Math.min(Math.floor(input.limit), getSettings().limits.eventBuffer)
+      : EVENT_POLL_DEFAULT_LIMIT
+  const subscriptionId = typeof input.subscriptionId === 'string' ? input.subscriptionId : undefined
+  return { content: [jsonContent(pollEvents(agentId, cursor, limit, subscriptionId))] }
+}
+
+/**
+ * Relays Extension tool_progress updates as MCP progress notifications.
+ * Returns undefined when the caller did not ask for progress (no progressToken).
+ */
+function createProgressRelay(extra: ToolCallExtra): ((update: ProgressUpdate) => void) | undefined {
+  const progressToken = extra._meta?.progressToken
+  if (progressToken === undefined) return undefined
+  return (update) => {
+    extra
+      .sendNotification({ method: 'notifications/progress', params: { progressToken, ...update } })
+      .catch(() => {
+        // Ignore send errors (client may have disconnected)
+      })
+  }
+}
+
+/**
+ * Forwards a tool call to the Extension and waits for its result.
+ * When `options.signal` aborts (MCP notifications/cancelled), the pending request is dropped
+ * and a `tool_cancel` message tells the Extension to stop working on it.
+ * Within the reconnect grace window, calls wait for a browser to connect, and calls in flight
+ * when their browser disconnects are replayed (same request ID) once it is back.
+ */
+export async function callExtensionTool(
   tool: string,
   input: Record<string, unknown>,
-): Promise<{ content: Array<{ type: string; text: string }> }> {
-  // switch_browser is handled server-side: disconnect and wait for reconnection
-  if (tool === 'switch_browser') {
-    return handleSwitchBrowser()
-  }
-
-  if (!extensionSocket || extensionSocket.destroyed) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            error: {
-              code: 'EXTENSION_NOT_CONNECTED',
-              message:
-                'Chrome Extension is not connected. Please open Chrome and click the Viyv Browser extension icon.',
-            },
-          }),
-        },
-      ],
+  agentId: string,
+  options: ExtensionCallOptions = {},
+): Promise<ToolCallResult> {
+  const { browserId, signal, onProgress, trace } = options
+  const reconnectGraceMs = getSettings().timeouts.reconnectGrace
+  let browser = getBrowser(browserId)
+  // Wait out a dropped connection; a browser that never connected fails the call at once
+  if (!browser && reconnectGraceMs > 0 && hasBrowserConnected(browserId)) {
+    process.stderr.write(
+      `[viyv-browser:mcp] Waiting up to ${reconnectGraceMs}ms for ${browserId ?? 'a browser'} to reconnect\n`,
+    )
+    browser = (await waitForBrowserConnection(reconnectGraceMs, { browserId, signal })) ?? undefined
+    if (signal?.aborted) {
+      return errorResult(new ViyvBrowserError('CANCELLED', `Tool '${tool}' was cancelled`))
     }
   }
+  if (!browser) {
+    return errorResult(
+      browserId
+        ? new ViyvBrowserError(
+            'EXTENSION_NOT_CONNECTED',
+            `Browser '${browserId}' is not connected.`,
+            { browserId },
+            'Call browser_list to see the connected browsers.',
+          )
+        : new ViyvBrowserError('EXTENSION_NOT_CONNECTED', 'Chrome Extension is not connected.'),
+    )
+  }
+  const target = browser
+  if (trace) trace.browserId = target.browserId
 
   const requestId = randomUUID()
-  const agentId = getDefaultAgentId()
 
   // NM6: Touch session to record activity
   touchSession(agentId)
 
-  // Capture socket reference before entering Promise to avoid null race
-  const sock = extensionSocket
+  // Per-tool timeout: wait_for gets the tool's timeout (or the configured default) + 5s buffer,
+  // batch the time its steps may take, up to the batch limit the Extension enforces
+  const { timeouts } = getSettings()
+  let toolTimeout = timeouts.toolCall
+  if (tool === 'wait_for') {
+    toolTimeout = (typeof input.timeout === 'number' ? input.timeout : timeouts.waitFor) + 5000
+  } else if (tool === 'batch' && Array.isArray(input.steps)) {
+    const duration = batchDuration(input as BatchInput, timeouts)
+    toolTimeout = Math.max(timeouts.toolCall, Math.min(duration, LIMITS.BATCH_MAX_DURATION) + 5000)
+  }
 
-  // Per-tool timeout: wait_for gets the tool's timeout + 5s buffer
-  let toolTimeout = TIMEOUTS.MCP_TOOL
-  if (tool === 'wait_for' && typeof input.timeout === 'number') {
-    toolTimeout = input.timeout + 5000
+  const request = {
+    id: requestId,
+    type: 'tool_call',
+    agentId,
+    tool,
+    input,
+    ...(onProgress && target.capabilities?.progress !== false && { reportProgress: true }),
+    timestamp: Date.now(),
   }
 
   return new Promise((resolve) => {
-    // M3 FIX: Define error listener before timer so removeErrorListener is callable from timeout
-    const onError = () => {
+    const settle = () => {
       const pending = pendingRequests.get(requestId)
-      if (pending) {
-        clearTimeout(pending.timer)
-        pendingRequests.delete(requestId)
-        resolve({
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                error: {
-                  code: 'EXTENSION_NOT_CONNECTED',
-                  message: 'Socket write failed',
-                },
-              }),
-            },
-          ],
-        })
-      }
+      if (!pending) return null
+      clearTimeout(pending.timer)
+      clearTimeout(pending.graceTimer)
+      pendingRequests.delete(requestId)
+      signal?.removeEventListener('abort', onAbort)
+      return pending
     }
 
-    const removeErrorListener = () => {
-      sock.removeListener('error', onError)
+    const onAbort = () => {
+      const pending = settle()
+      if (!pending) return
+      // Nothing to cancel while disconnected; extensions without cancellation ignore tool_cancel
+      if (!pending.graceTimer && pending.browser.capabilities?.cancellation !== false) {
+        cancelExtensionRequest(pending.browser.socket, requestId, agentId)
+      }
+      resolve(errorResult(new ViyvBrowserError('CANCELLED', `Tool '${tool}' was cancelled`)))
     }
 
+    // The tool timeout keeps running while the request waits for a reconnect
     const timer = setTimeout(() => {
-      pendingRequests.delete(requestId)
-      removeErrorListener()
-      resolve({
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              error: {
-                code: 'TIMEOUT',
-                message: `Tool '${tool}' timed out after ${toolTimeout}ms`,
-              },
-            }),
-          },
-        ],
-      })
+      const pending = settle()
+      if (!pending) return
+      // Stop the Extension too, so a timed-out call does not keep holding the tab
+      if (!pending.graceTimer && pending.browser.capabilities?.cancellation !== false) {
+        cancelExtensionRequest(pending.browser.socket, requestId, agentId)
+      }
+      resolve(
+        errorResult(
+          new ViyvBrowserError('TIMEOUT', `Tool '${tool}' timed out after ${toolTimeout}ms`, {
+            tool,
+            timeout: toolTimeout,
+          }),
+        ),
+      )
     }, toolTimeout)
 
     pendingRequests.set(requestId, {
       resolve: (result) => {
-        removeErrorListener()
-        resolve({
-          content: [{ type: 'text', text: JSON.stringify(result) }],
-        })
+        signal?.removeEventListener('abort', onAbort)
+        // Image tools return native MCP image content instead of base64 inside JSON text
+        resolve(shapeToolResult(tool, result))
       },
       reject: (error) => {
-        removeErrorListener()
-        resolve({
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                error: { code: 'CDP_ERROR', message: error.message },
-              }),
-            },
-          ],
-        })
+        signal?.removeEventListener('abort', onAbort)
+        resolve(errorResult(error))
       },
       timer,
+      onProgress,
+      browser: target,
+      request,
+      trace,
     })
 
-    // FIX #7: Handle socket write errors
-    const request = {
-      id: requestId,
-      type: 'tool_call',
-      agentId,
-      tool,
-      input,
-      timestamp: Date.now(),
-    }
-
-    const written = sock.write(`${JSON.stringify(request)}\n`)
-    if (!written) {
-      // Backpressure -- wait for drain but don't block
-      sock.once('drain', () => {
-        // Buffer flushed, nothing to do
-      })
-    }
+    // Write failures close the socket, which parks the request for the grace window
+    writeToBrowser(target, request)
 
-    sock.once('error', onError)
+    if (signal?.aborted) onAbort()
+    else signal?.addEventListener('abort', onAbort, { once: true })
   })
 }
 
-async function handleSwitchBrowser(): Promise<{
-  content: Array<{ type: string; text: string }>
-}> {
-  const SWITCH_TIMEOUT = 60_000
+function writeToBrowser(browser: ConnectedBrowser, message: Record<string, unknown>) {
+  const sock = browser.socket
+  if (sock.destroyed) return
+  const written = sock.write(`${JSON.stringify(message)}\n`)
+  if (!written) {
+    // Backpressure -- wait for drain but don't block
+    sock.once('drain', () => {
+      // Buffer flushed, nothing to do
+    })
+  }
+}
 
-  // Close existing connection gracefully
-  if (extensionSocket && !extensionSocket.destroyed) {
-    process.stderr.write('[viyv-browser:mcp] switch_browser: closing current connection\n')
-    extensionSocket.destroy()
-    extensionSocket = null
-    setExtensionConnected(false)
+/** Keeps a request whose browser disconnected until it reconnects or the grace window ends */
+function parkPendingRequest(requestId: string, pending: PendingRequest) {
+  const { browserId } = pending.browser
+  const reconnectGraceMs = getSettings().timeouts.reconnectGrace
+  const fail = () => {
+    if (pendingRequests.get(requestId) !== pending) return
+    clearTimeout(pending.timer)
+    clearTimeout(pending.graceTimer)
+    pendingRequests.delete(requestId)
+    pending.reject(
+      new ViyvBrowserError(
+        'EXTENSION_NOT_CONNECTED',
+        reconnectGraceMs > 0
+          ? `Extension did not reconnect within ${reconnectGraceMs}ms`
+          : 'Extension disconnected while request was pending',
+        { browserId },
+      ),
+    )
+  }
+  if (reconnectGraceMs <= 0) {
+    fail()
+    return
   }
+  pending.graceTimer = setTimeout(fail, reconnectGraceMs)
 
-  // Wait for a new connection
-  process.stderr.write('[viyv-browser:mcp] switch_browser: waiting for new browser connection...\n')
-  return new Promise((resolve) => {
-    const checkInterval = setInterval(() => {
-      if (extensionSocket && !extensionSocket.destroyed && isExtensionConnected()) {
-        clearInterval(checkInterval)
-        clearTimeout(timer)
-        resolve({
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                switched: true,
-                message: 'Successfully connected to new browser instance.',
-              }),
-            },
-          ],
-        })
-      }
-    }, 500)
+  // The browser may already be back (a reconnect replaces the stale connection first)
+  const current = getBrowser(browserId)
+  if (current && current !== pending.browser) replayPendingRequest(requestId, pending, current)
+}
 
-    const timer = setTimeout(() => {
-      clearInterval(checkInterval)
-      resolve({
-        content: [
-          {
-            type: 'text',
-            text: JSON.stringify({
-              error: {
-                code: 'TIMEOUT',
-                message: `No new browser connected within ${SWITCH_TIMEOUT / 1000}s. Please open Chrome and click the Viyv Browser extension icon.`,
-              },
-            }),
-          },
-        ],
-      })
-    }, SWITCH_TIMEOUT)
+function replayPendingRequest(
+  requestId: string,
+  pending: PendingRequest,
+  browser: ConnectedBrowser,
+) {
+  clearTimeout(pending.graceTimer)
+  pending.graceTimer = undefined
+  pending.browser = browser
+  process.stderr.write(`[viyv-browser:mcp] Replaying request ${requestId} after reconnect\n`)
+  writeToBrowser(browser, { ...pending.request, replay: true })
+}
+
+function cancelExtensionRequest(sock: Socket, requestId: string, agentId: string) {
+  if (sock.destroyed) return
+  process.stderr.write(`[viyv-browser:mcp] Cancelling request: ${requestId}\n`)
+  const cancel = {
+    id: randomUUID(),
+    type: 'tool_cancel',
+    agentId,
+    requestId,
+    timestamp: Date.now(),
+  }
+  sock.write(`${JSON.stringify(cancel)}\n`)
+}
+
+function readPageContext(value: unknown): ToolPageContext | undefined {
+  const page = value as Record<string, unknown> | null | undefined
+  if (!page || typeof page.tabId !== 'number') return undefined
+  return {
+    tabId: page.tabId,
+    urlBefore: typeof page.urlBefore === 'string' ? page.urlBefore : undefined,
+    urlAfter: typeof page.urlAfter === 'string' ? page.urlAfter : undefined,
+  }
+}
+
+/** Recent audit records of the calling agent, newest first */
+function handleAuditRecent(agentId: string, input: Record<string, unknown>): ToolCallResult {
+  const limit =
+    typeof input.limit === 'number' && input.limit > 0
+      ? Math.min(Math.floor(input.limit), LIMITS.AUDIT_RECENT_MAX)
+      : AUDIT_RECENT_DEFAULT_LIMIT
+  const entries = getRecentAuditEntries({
+    agentId,
+    tool: typeof input.tool === 'string' ? input.tool : undefined,
+    errorsOnly: input.errorsOnly === true,
+    limit,
   })
+  return { content: [jsonContent({ entries, count: entries.length })] }
+}
+
+function handleBrowserList(identity: ClientIdentity): ToolCallResult {
+  return {
+    content: [
+      jsonContent({
+        browsers: listBrowsers(),
+        selectedBrowserId: identity.browserId ?? null,
+      }),
+    ],
+  }
+}
+
+/**
+ * Binds the session to a connected browser. Without a browserId, waits for the next browser
+ * to connect and binds to it; other browsers stay connected.
+ */
+async function handleSwitchBrowser(
+  identity: ClientIdentity,
+  input: Record<string, unknown>,
+): Promise<ToolCallResult> {
+  const requestedId = typeof input.browserId === 'string' ? input.browserId : undefined
+  let browser: ConnectedBrowser | null | undefined
+  if (requestedId) {
+    browser = getBrowser(requestedId)
+    if (!browser) {
+      return errorResult(
+        new ViyvBrowserError(
+          'EXTENSION_NOT_CONNECTED',
+          `Browser '${requestedId}' is not connected.`,
+          { browserId: requestedId },
+          'Call browser_list to see the connected browsers.',
+        ),
+      )
+    }
+  } else {
+    process.stderr.write(
+      '[viyv-browser:mcp] switch_browser: waiting for new browser connection...\n',
+    )
+    browser = await waitForBrowserConnection(SWITCH_BROWSER_TIMEOUT)
+    if (!browser) {
+      return errorResult(
+        new ViyvBrowserError(
+          'TIMEOUT',
+          `No new browser connected within ${SWITCH_BROWSER_TIMEOUT / 1000}s. Please open Chrome and click the Viyv Browser extension icon.`,
+        ),
+      )
+    }
+  }
+
+  identity.browserId = browser.browserId
+  process.stderr.write(`[viyv-browser:mcp] switch_browser: session bound to ${browser.browserId}\n`)
+  return {
+    content: [
+      jsonContent({
+        switched: true,
+        browserId: browser.browserId,
+        profileName: browser.profileName,
+        extensionVersion: browser.extensionVersion,
+      }),
+    ],
+  }
 }
 
-function cleanupSocket(socketPath: string) {
-  if (existsSync(socketPath)) {
+/** Removes the socket and its secret file */
+export function cleanupSocket(socketPath: string) {
+  for (const path of [socketPath, `${socketPath}.key`]) {
+    if (!existsSync(path)) continue
     try {
-      unlinkSync(socketPath)
+      unlinkSync(path)
     } catch {
       // Ignore -- may be cleaned up by another process
     }
@@ -0,0 +1,143 @@
+/**
+ * Session recorder: writes the ordered tool_call/tool_result stream of an MCP session to a
+ * portable trace file for `viyv-browser-mcp replay`.
+ *
+ * A trace is JSONL: a `trace` header line, then one `step` line per finished call. Steps are
+ * numbered when the call starts (`seq`), so concurrent calls may be written out of order.
+ * Image results are stored next to the trace in `<name>.assets/` and referenced by relative
+ * path, so the trace directory can be copied elsewhere as a whole.
+ */
+
+import { randomUUID } from 'node:crypto'
+import { appendFileSync, mkdirSync, writeFileSync } from 'node:fs'
+import { basename, join } from 'node:path'
+import { MCP_SERVER } from '@viyv-browser/shared'
+import type { ToolCallResult } from './tool-result.js'
+
+export const TRACE_VERSION = 1
+
+export interface TraceHeader {
+  type: 'trace'
+  version: number
+  createdAt: string
+  agentId: string
+  serverVersion: string
+}
+
+/** Result content as stored in a trace: images are replaced by a file reference */
+export type TraceContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mimeType: string; file: string }
+
+export interface TraceStep {
+  type: 'step'
+  seq: number
+  tool: string
+  input: Record<string, unknown>
+  browserId?: string
+  /** Offset from the first call of the session, used by `replay --realtime` */
+  offsetMs: number
+  durationMs: number
+  isError: boolean
+  content: TraceContent[]
+}
+
+export interface SessionRecorder {
+  /** Reserves the next sequence number; call when the tool call starts */
+  begin(): { seq: number; startedAt: number }
+  record(
+    call: { seq: number; startedAt: number },
+    step: {
+      tool: string
+      input: Record<string, unknown>
+      browserId?: string
+      result: ToolCallResult
+    },
+  ): void
+}
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+}
+
+let recordDir: string | undefined
+
+export function configureRecorder(options: { dir?: string }): void {
+  recordDir = options.dir
+  if (recordDir) mkdirSync(recordDir, { recursive: true, mode: 0o700 })
+}
+
+/**
+ * Creates the recorder of one MCP session, or null when recording is off.
+ * The trace file is created with the first recorded step.
+ */
+export function createSessionRecorder(getAgentId: () => string): SessionRecorder | null {
+  const dir = recordDir
+  if (!dir) return null
+
+  let tracePath: string | undefined
+  let assetsDir: string | undefined
+  let nextSeq = 1
+  let firstStartedAt: number | undefined
+
+  const open = () => {
+    const agentId = getAgentId()
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-')
+    const name = `${stamp}-${agentId.replace(/[^\w.-]/g, '_')}-${randomUUID().slice(0, 8)}`
+    tracePath = join(dir, `${name}.trace.jsonl`)
+    assetsDir = join(dir, `${name}.assets`)
+    const header: TraceHeader = {
+      type: 'trace',
+      version: TRACE_VERSION,
+      createdAt: new Date().toISOString(),
+      agentId,
+      serverVersion: MCP_SERVER.VERSION,
+    }
+    writeFileSync(tracePath, `${JSON.stringify(header)}\n`, { mode: 0o600 })
+    process.stderr.write(`[viyv-browser:mcp] Recording session to ${tracePath}\n`)
+    return { tracePath, assetsDir }
+  }
+
+  return {
+    begin() {
+      const startedAt = Date.now()
+      firstStartedAt ??= startedAt
+      return { seq: nextSeq++, startedAt }
+    },
+    record(call, { tool, input, browserId, result }) {
+      try {
+        const files = tracePath && assetsDir ? { tracePath, assetsDir } : open()
+        const step: TraceStep = {
+          type: 'step',
+          seq: call.seq,
+          tool,
+          input,
+          ...(browserId && { browserId }),
+          offsetMs: call.startedAt - (firstStartedAt ?? call.startedAt),
+          durationMs: Date.now() - call.startedAt,
+          isError: result.isError === true,
+          content: result.content.map((block, index): TraceContent => {
+            if (block.type === 'text') return block
+            // Screenshots are kept as files and referenced from the trace
+            const file = `${call.seq}-${index}.${IMAGE_EXTENSIONS[block.mimeType] ?? 'bin'}`
+            mkdirSync(files.assetsDir, { recursive: true, mode: 0o700 })
+            writeFileSync(join(files.assetsDir, file), Buffer.from(block.data, 'base64'))
+            return {
+              type: 'image',
+              mimeType: block.mimeType,
+              file: `${basename(files.assetsDir)}/${file}`,
+            }
+          }),
+        }
+        appendFileSync(files.tracePath, `${JSON.stringify(step)}\n`)
+      } catch (error) {
+        // Recording must never fail the tool call itself
+        process.stderr.write(
+          `[viyv-browser:mcp] Failed to record tool call: ${(error as Error).message}\n`,
+        )
+      }
+    },
+  }
+}
@@ -1,21 +1,77 @@
 /**
  * Setup command: registers Native Messaging Host manifest.
- * `npx @viyv/browser-mcp setup`
+ * `npx @viyv/browser-mcp setup [--browser <name|all>] [--manifest-dir <dir>]`
+ * `npx @viyv/browser-mcp uninstall` removes what setup created.
+ *
+ * Every Chromium-family browser reads manifests from the NativeMessagingHosts directory in its
+ * own config directory, so the manifest (and its wrapper script) is written once per browser.
  */
 
-import { writeFileSync, mkdirSync, chmodSync, existsSync } from 'node:fs'
-import { resolve, dirname } from 'node:path'
-import { homedir, platform } from 'node:os'
 import { execSync } from 'node:child_process'
+import { chmodSync, existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs'
+import { homedir, platform } from 'node:os'
+import { resolve } from 'node:path'
 import { NATIVE_HOST_NAME } from '@viyv-browser/shared'
 
 interface SetupOptions {
   extensionId?: string
+  /** Browser name, comma-separated names, or 'all' (default: chrome) */
+  browser?: string
+  /** Write to this directory instead of a browser's NativeMessagingHosts directory */
+  manifestDir?: string
+}
+
+interface UninstallOptions {
+  /** Browser name, comma-separated names, or 'all' (default: all) */
+  browser?: string
+  manifestDir?: string
+}
+
+export interface ManifestTarget {
+  /** Browser name from BROWSER_CONFIG_DIRS, or 'custom' for --manifest-dir */
+  browser: string
+  /** NativeMessagingHosts directory the browser reads */
+  dir: string
+}
+
+/** Config directories (relative to home) of Chromium-family browsers, per platform */
+const BROWSER_CONFIG_DIRS: Record<string, Record<string, string>> = {
+  linux: {
+    chrome: '.config/google-chrome',
+    'chrome-beta': '.config/google-chrome-beta',
+    'chrome-dev': '.config/google-chrome-unstable',
+    'chrome-canary': '.config/google-chrome-canary',
+    chromium: '.config/chromium',
+    brave: '.config/BraveSoftware/Brave-Browser',
+    edge: '.config/microsoft-edge',
+    vivaldi: '.config/vivaldi',
+  },
+  darwin: {
+    chrome: 'Library/Application Support/Google/Chrome',
+    'chrome-beta': 'Library/Application Support/Google/Chrome Beta',
+    'chrome-dev': 'Library/Application Support/Google/Chrome Dev',
+    'chrome-canary': 'Library/Application Support/Google/Chrome Canary',
+    chromium: 'Library/Application Support/Chromium',
+    brave: 'Library/Application Support/BraveSoftware/Brave-Browser',
+    edge: 'Library/Application Support/Microsoft Edge',
+    vivaldi: 'Library/Application Support/Vivaldi',
+  },
+  // On Windows, we'd also need to create a registry entry
+  win32: {
+    chrome: 'AppData/Local/Google/Chrome/User Data',
+    chromium: 'AppData/Local/Chromium/User Data',
+    brave: 'AppData/Local/BraveSoftware/Brave-Browser/User Data',
+    edge: 'AppData/Local/Microsoft/Edge/User Data',
+    vivaldi: 'AppData/Local/Vivaldi/User Data',
+  },
 }
 
 export function runSetup(options: SetupOptions = {}): void {
   const os = platform()
   const binaryPath = getBinaryPath()
+  let targets = resolveManifestTargets(os, options.browser ?? 'chrome', options.manifestDir)
+  // Nothing detected for 'all': fall back to Chrome so setup still produces a manifest
+  if (targets.length === 0) targets = resolveManifestTargets(os, 'chrome')
 
   console.log('Viyv Browser MCP - Native Messaging Host Setup')
   console.log('================================================')
@@ -36,40 +92,119 @@ export function runSetup(options: SetupOptions = {}): void {
   if (!options.extensionId) {
     process.stderr.write(
       'WARNING: Using wildcard allowed_origins (chrome-extension://*/). ' +
-      'This allows any Chrome extension to connect. ' +
-      'For production, specify --extension-id to restrict access.\n',
+        'This allows any Chrome extension to connect. ' +
+        'For production, specify --extension-id to restrict access.\n',
     )
   }
 
-  // Chrome Native Messaging Host manifest doesn't support args.
-  // Create a wrapper script that launches the binary with --native-host flag.
-  const wrapperPath = createNativeHostWrapper(os, binaryPath)
+  for (const target of targets) {
+    // Chrome Native Messaging Host manifest doesn't support args.
+    // Create a wrapper script that launches the binary with --native-host flag.
+    const wrapperPath = createNativeHostWrapper(os, target.dir, binaryPath)
 
-  const manifest = {
-    name: NATIVE_HOST_NAME,
-    description: 'Viyv Browser MCP Native Messaging Host',
-    path: wrapperPath,
-    type: 'stdio',
-    allowed_origins: allowedOrigins,
-  }
+    const manifest = {
+      name: NATIVE_HOST_NAME,
+      description: 'Viyv Browser MCP Native Messaging Host',
+      path: wrapperPath,
+      type: 'stdio',
+      allowed_origins: allowedOrigins,
+    }
 
-  const manifestPath = getManifestPath(os)
-  const manifestDir = dirname(manifestPath)
+    const manifestPath = getManifestPath(target.dir)
+    console.log(`\n[${target.browser}]`)
+    console.log(`Wrapper: ${wrapperPath}`)
+    if (process.env.VIYV_BROWSER_SOCKET) console.log(`Socket: ${process.env.VIYV_BROWSER_SOCKET}`)
+    console.log(`Manifest path: ${manifestPath}`)
 
-  console.log(`Wrapper: ${wrapperPath}`)
-  console.log(`Manifest path: ${manifestPath}`)
-
-  mkdirSync(manifestDir, { recursive: true })
-  writeFileSync(manifestPath, JSON.stringify(manifest, null, 2))
-  chmodSync(manifestPath, 0o644)
+    writeFileSync(manifestPath, JSON.stringify(manifest, null, 2))
+    chmodSync(manifestPath, 0o644)
+  }
 
-  console.log('\nNative Messaging Host registered successfully!')
+  console.log(
+    `\nNative Messaging Host registered successfully for ${targets.map((t) => t.browser).join(', ')}!`,
+  )
   console.log('\nNext steps:')
   console.log('1. Start the MCP Server: node <path>/dist/index.js')
   console.log('2. Install the Viyv Browser Chrome Extension')
   console.log('3. Click the extension icon to connect')
 }
 
+/** Removes the manifests and wrapper scripts written by setup */
+export function runUninstall(options: UninstallOptions = {}): void {
+  const os = platform()
+  const targets = resolveManifestTargets(os, options.browser ?? 'all', options.manifestDir)
+
+  console.log('Viyv Browser MCP - Native Messaging Host Uninstall')
+  console.log('==================================================')
+
+  let removed = 0
+  for (const target of targets) {
+    for (const path of [getManifestPath(target.dir), getWrapperPath(os, target.dir)]) {
+      if (!existsSync(path)) continue
+      // Only remove files that setup wrote
+      const marker = path.endsWith('.json') ? NATIVE_HOST_NAME : '--native-host'
+      if (!readFileSync(path, 'utf-8').includes(marker)) {
+        console.log(`Skipped ${path} (not created by viyv-browser-mcp setup)`)
+        continue
+      }
+      rmSync(path)
+      console.log(`Removed ${path} [${target.browser}]`)
+      removed++
+    }
+  }
+
+  console.log(
+    removed > 0
+      ? `\nRemoved ${removed} file(s). Restart the browser to drop the Native Messaging Host.`
+      : '\nNothing to remove.',
+  )
+}
+
+/**
+ * Resolves `--browser` / `--manifest-dir` to NativeMessagingHosts directories.
+ * 'all' means every supported browser with a config directory on this machine.
+ * Exits with a usage error for unknown browsers.
+ */
+export function resolveManifestTargets(
+  os: string,
+  browser: string,
+  manifestDir?: string,
+): ManifestTarget[] {
+  if (manifestDir) return [{ browser: 'custom', dir: resolve(manifestDir) }]
+
+  const configDirs = BROWSER_CONFIG_DIRS[os]
+  if (!configDirs) throw new Error(`Unsupported platform: ${os}`)
+  const home = homedir()
+  const toTarget = (name: string): ManifestTarget => ({
+    browser: name,
+    dir: resolve(home, configDirs[name], 'NativeMessagingHosts'),
+  })
+
+  if (browser === 'all') {
+    return Object.keys(configDirs)
+      .filter((name) => existsSync(resolve(home, configDirs[name])))
+      .map(toTarget)
+  }
+
+  const names = browser.split(',').map((name) => name.trim())
+  const unknown = names.filter((name) => !configDirs[name])
+  if (unknown.length > 0) {
+    console.error(
+      `Unknown browser: ${unknown.join(', ')}. Supported on ${os}: ${Object.keys(configDirs).join(', ')}, all`,
+    )
+    process.exit(1)
+  }
+  return names.map(toTarget)
+}
+
+export function getManifestPath(dir: string): string {
+  return resolve(dir, `${NATIVE_HOST_NAME}.json`)
+}
+
+function getWrapperPath(os: string, dir: string): string {
+  return resolve(dir, `${NATIVE_HOST_NAME}.${os === 'win32' ? 'bat' : 'sh'}`)
+}
+
 function getBinaryPath(): string {
   // Find the actual binary path
   const whichCmd = process.platform === 'win32' ? 'where' : 'which'
@@ -85,31 +220,47 @@ function getBinaryPath(): string {
   return resolve(currentScript)
 }
 
-function createNativeHostWrapper(os: string, binaryPath: string): string {
-  const manifestDir = dirname(getManifestPath(os))
+function createNativeHostWrapper(os: string, manifestDir: string, binaryPath: string): string {
   mkdirSync(manifestDir, { recursive: true })
 
   // Chrome launches native hosts in a clean environment without user's PATH.
   // We must use the absolute path to node, not rely on #!/usr/bin/env node.
   const nodePath = getNodePath()
+  const wrapperPath = getWrapperPath(os, manifestDir)
+
+  // Chrome's environment rarely has the user's VIYV_BROWSER_SOCKET: pin it as the default
+  const socketPath = process.env.VIYV_BROWSER_SOCKET
 
   if (os === 'win32') {
     // Windows: .bat wrapper
-    const wrapperPath = resolve(manifestDir, `${NATIVE_HOST_NAME}.bat`)
-    writeFileSync(wrapperPath, `@echo off\r\n"${nodePath}" "${binaryPath}" --native-host\r\n`)
+    const pin = socketPath
+      ? `if not defined VIYV_BROWSER_SOCKET set "VIYV_BROWSER_SOCKET=${socketPath}"\r\n`
+      : ''
+    writeFileSync(wrapperPath, `@echo off\r\n${pin}"${nodePath}" "${binaryPath}" --native-host\r\n`)
     return wrapperPath
   }
 
   // macOS/Linux: shell wrapper
-  const wrapperPath = resolve(manifestDir, `${NATIVE_HOST_NAME}.sh`)
+  const pin = socketPath
+    ? `export VIYV_BROWSER_SOCKET="\${VIYV_BROWSER_SOCKET:-${socketPath}}"\n`
+    : ''
   writeFileSync(
     wrapperPath,
-    `#!/bin/bash\nexec "${nodePath}" "${binaryPath}" --native-host\n`,
+    `#!/bin/bash\n${pin}exec "${nodePath}" "${binaryPath}" --native-host\n`,
   )
   chmodSync(wrapperPath, 0o755)
   return wrapperPath
 }
 
+/** Socket path setup pinned in a wrapper script (from VIYV_BROWSER_SOCKET), if any */
+export function readWrapperSocket(wrapperPath: string): string | undefined {
+  const script = readFileSync(wrapperPath, 'utf-8')
+  const match =
+    /VIYV_BROWSER_SOCKET:-([^}]+)\}/.exec(script) ??
+    /set "VIYV_BROWSER_SOCKET=([^"]+)"/.exec(script)
+  return match?.[1]
+}
+
 function getNodePath(): string {
   try {
     return execSync('which node', { encoding: 'utf-8' }).trim()
@@ -118,31 +269,3 @@ function getNodePath(): string {
     return process.execPath
   }
 }
-
-function getManifestPath(os: string): string {
-  const home = homedir()
-
-  switch (os) {
-    case 'darwin':
-      return resolve(
-        home,
-        'Library/Application Support/Google/Chrome/NativeMessagingHosts',
-        `${NATIVE_HOST_NAME}.json`,
-      )
-    case 'linux':
-      return resolve(
-        home,
-        '.config/google-chrome/NativeMessagingHosts',
-        `${NATIVE_HOST_NAME}.json`,
-      )
-    case 'win32':
-      // On Windows, we'd also need to create a registry entry
-      return resolve(
-        home,
-        'AppData/Local/Google/Chrome/User Data/NativeMessagingHosts',
-        `${NATIVE_HOST_NAME}.json`,
-      )
-    default:
-      throw new Error(`Unsupported platform: ${os}`)
-  }
-}
@@ -0,0 +1,123 @@
+/**
+ * Per-user socket location and the Native Host ↔ MCP Server challenge handshake.
+ *
+ * The socket lives in a runtime directory only the current user can enter (0700), and the
+ * socket file itself is 0600. On top of that both sides prove knowledge of a shared secret
+ * (written 0600 to `<socket>.key` by the MCP Server) with HMACs over each other's nonces,
+ * so neither a foreign process on the socket nor a fake server sees browser traffic.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto'
+import { chmodSync, mkdirSync, readFileSync, renameSync, statSync, writeFileSync } from 'node:fs'
+import { connect } from 'node:net'
+import { platform, tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { ViyvBrowserError } from '@viyv-browser/shared'
+
+const SOCKET_FILE = 'viyv-browser.sock'
+
+/**
+ * Per-user runtime directory: /tmp/viyv-browser-<uid> (<tmpdir> on Windows). It depends on the
+ * uid alone, not on XDG_RUNTIME_DIR or TMPDIR: Chrome launches the Native Host and the AI client
+ * launches the MCP server, often with different environments, and both must find the socket.
+ * Created 0700; refuses directories owned by another user.
+ */
+export function getRuntimeDir(): string {
+  const uid = process.getuid?.() ?? 0
+  const dir = join(platform() === 'win32' ? tmpdir() : '/tmp', `viyv-browser-${uid}`)
+
+  mkdirSync(dir, { recursive: true, mode: 0o700 })
+  const stat = statSync(dir)
+  if (stat.uid !== uid) {
+    throw new Error(`Runtime directory ${dir} is owned by another user (uid ${stat.uid})`)
+  }
+  if ((stat.mode & 0o077) !== 0) chmodSync(dir, 0o700)
+  return dir
+}
+
+/**
+ * Socket path shared by MCP Server and Native Host. VIYV_BROWSER_SOCKET overrides it; setup
+ * writes the override into the wrapper script so the Native Host uses it too.
+ */
+export function getSocketPath(): string {
+  return process.env.VIYV_BROWSER_SOCKET ?? getDefaultSocketPath()
+}
+
+/** Socket path without the VIYV_BROWSER_SOCKET override */
+export function getDefaultSocketPath(): string {
+  return join(getRuntimeDir(), SOCKET_FILE)
+}
+
+function secretPath(socketPath: string): string {
+  return `${socketPath}.key`
+}
+
+/** Generates a fresh secret for this server run (atomic write, 0600) */
+export function createSocketSecret(socketPath: string): Buffer {
+  const secret = randomBytes(32)
+  const path = secretPath(socketPath)
+  const tmpPath = `${path}.${process.pid}`
+  writeFileSync(tmpPath, secret.toString('hex'), { mode: 0o600 })
+  renameSync(tmpPath, path)
+  return secret
+}
+
+/** Reads the running server's secret; the Native Host re-reads it on every connect */
+export function readSocketSecret(socketPath: string): Buffer {
+  const path = secretPath(socketPath)
+  const stat = statSync(path)
+  if (stat.uid !== (process.getuid?.() ?? 0) || (stat.mode & 0o077) !== 0) {
+    throw new ViyvBrowserError(
+      'AUTH_FAILED',
+      `Refusing to use ${path}: it must be owned by the current user with mode 0600`,
+    )
+  }
+  return Buffer.from(readFileSync(path, 'utf-8').trim(), 'hex')
+}
+
+export function createNonce(): string {
+  return randomBytes(16).toString('hex')
+}
+
+/**
+ * Proof that `role` knows the secret, bound to both nonces so it cannot be replayed
+ * in another handshake or reflected back by the other side.
+ */
+export function computeProof(
+  secret: Buffer,
+  role: 'server' | 'host',
+  challenge: string,
+  ownNonce: string,
+): string {
+  return createHmac('sha256', secret).update(`${role}:${challenge}:${ownNonce}`).digest('hex')
+}
+
+export function verifyProof(
+  secret: Buffer,
+  role: 'server' | 'host',
+  challenge: string,
+  ownNonce: string,
+  proof: unknown,
+): boolean {
+  if (typeof proof !== 'string') return false
+  const expected = Buffer.from(computeProof(secret, role, challenge, ownNonce), 'hex')
+  const actual = Buffer.from(proof, 'hex')
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+/** Restricts the socket file to the current user once the server is listening */
+export function restrictSocket(socketPath: string): void {
+  chmodSync(socketPath, 0o600)
+}
+
+/** True when a server (an MCP server or a replay) is already listening on the socket */
+export function isSocketInUse(socketPath: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const probe = connect(socketPath)
+    probe.once('connect', () => {
+      probe.destroy()
+      resolve(true)
+    })
+    probe.once('error', () => resolve(false))
+  })
+}
@@ -0,0 +1,78 @@
+/**
+ * Tool profiles: which tools the server exposes (`--tools`, `--exclude-tools`).
+ *
+ *   read-only    reads pages, takes screenshots, opens and switches tabs
+ *   interactive  read-only + clicking, typing, forms, dialogs and closing tabs
+ *   full         interactive + javascript_exec, upload_image and shortcuts_execute (default)
+ *
+ * `--tools` takes a profile, tool names, or both (`read-only,click`); `--exclude-tools` removes
+ * tools from the result. Excluded tools are not registered with MCP, and the allowed list is sent
+ * to the Extension in session_init so it refuses them as well.
+ */
+
+import type { ToolPolicy } from '@viyv-browser/shared'
+import { type ToolProfile, allTools } from './tools/index.js'
+
+export interface ToolPolicyOptions {
+  /** Comma-separated profiles and tool names (default: full) */
+  tools?: string
+  /** Comma-separated tool names */
+  excludeTools?: string
+}
+
+const PROFILE_ORDER: ToolProfile[] = ['read-only', 'interactive', 'full']
+
+let allowedTools: Set<string> = new Set(allTools.map((tool) => tool.name))
+let policy: ToolPolicy = { profile: 'full', tools: [...allowedTools] }
+
+export function isToolAllowed(name: string): boolean {
+  return allowedTools.has(name)
+}
+
+/** Sent to the Extension in session_init */
+export function getToolPolicy(): ToolPolicy {
+  return policy
+}
+
+/**
+ * Resolves the flags and makes the result the effective policy.
+ * Throws for unknown profiles or tool names.
+ */
+export function loadToolPolicy(options: ToolPolicyOptions = {}): ToolPolicy {
+  const include = splitList(options.tools ?? 'full')
+  const exclude = splitList(options.excludeTools ?? '')
+  if (include.length === 0) throw new Error('--tools needs a profile or at least one tool name')
+
+  const allowed = new Set<string>()
+  for (const entry of include) {
+    for (const name of expandEntry(entry, '--tools')) allowed.add(name)
+  }
+  for (const entry of exclude) {
+    for (const name of expandEntry(entry, '--exclude-tools')) allowed.delete(name)
+  }
+
+  allowedTools = allowed
+  const profile = [include.join(','), ...exclude.map((name) => `-${name}`)].join(',')
+  policy = { profile, tools: allTools.map((tool) => tool.name).filter((name) => allowed.has(name)) }
+  return policy
+}
+
+function expandEntry(entry: string, flag: string): string[] {
+  const level = PROFILE_ORDER.indexOf(entry as ToolProfile)
+  if (level >= 0) {
+    return allTools
+      .filter((tool) => PROFILE_ORDER.indexOf(tool.profile) <= level)
+      .map((tool) => tool.name)
+  }
+  if (allTools.some((tool) => tool.name === entry)) return [entry]
+  throw new Error(
+    `Unknown profile or tool "${entry}" in ${flag}. Profiles: ${PROFILE_ORDER.join(', ')}`,
+  )
+}
+
+function splitList(value: string): string[] {
+  return value
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+}
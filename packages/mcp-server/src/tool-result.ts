@@ -0,0 +1,110 @@
+/**
+ * Result shaping: converts raw Extension tool results into MCP content blocks.
+ * Image-producing tools return a native `image` block plus a small JSON metadata block,
+ * so vision-capable clients can see the image instead of a base64 string in text.
+ * Failures become `isError: true` results carrying the structured error payload.
+ */
+
+import { type ErrorCode, ViyvBrowserError } from '@viyv-browser/shared'
+
+export type ToolContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string }
+
+export type ToolCallResult = {
+  content: ToolContent[]
+  isError?: boolean
+}
+
+type ImageDimensions = { width: number; height: number } | Record<string, never>
+
+type ResultShaper = (result: Record<string, unknown>) => ToolContent[]
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+}
+
+const resultShapers: Record<string, ResultShaper> = {
+  screenshot: (result) => shapeImageResult(result, 'jpeg'),
+  artifact_from_page: (result) =>
+    result.type === 'screenshot' ? shapeImageResult(result, 'png') : [jsonContent(result)],
+  gif_creator: (result) => shapeImageResult(result, 'gif'),
+}
+
+export function jsonContent(value: unknown): ToolContent {
+  return { type: 'text', text: JSON.stringify(value) }
+}
+
+/**
+ * Builds an MCP error result: `{ error: { code, message, details?, hint? } }` with isError set,
+ * so agents can branch on the code instead of parsing messages.
+ */
+export function errorResult(
+  error: unknown,
+  fallbackCode: ErrorCode = 'INTERNAL_ERROR',
+): ToolCallResult {
+  const viyvError =
+    error instanceof ViyvBrowserError
+      ? error
+      : new ViyvBrowserError(fallbackCode, error instanceof Error ? error.message : String(error))
+  return { content: [jsonContent({ error: viyvError.toJSON() })], isError: true }
+}
+
+export function shapeToolResult(tool: string, result: Record<string, unknown>): ToolCallResult {
+  const shaper = resultShapers[tool]
+  return { content: shaper ? shaper(result) : [jsonContent(result)] }
+}
+
+function shapeImageResult(result: Record<string, unknown>, defaultFormat: string): ToolContent[] {
+  const { data, ...metadata } = result
+  // Non-image results (e.g. gif_creator start_recording) fall back to plain JSON
+  if (typeof data !== 'string' || data.length === 0) return [jsonContent(result)]
+
+  const format = typeof result.format === 'string' ? result.format : defaultFormat
+  const mimeType = IMAGE_MIME_TYPES[format] ?? `image/${format}`
+  const dimensions = readImageDimensions(data, format)
+
+  return [{ type: 'image', data, mimeType }, jsonContent({ ...metadata, format, ...dimensions })]
+}
+
+/**
+ * Reads width/height from the image header without decoding the image.
+ * Returns an empty object when the header cannot be parsed.
+ */
+function readImageDimensions(base64: string, format: string): ImageDimensions {
+  // Headers live in the first few KB; avoid decoding multi-MB payloads
+  const header = Buffer.from(base64.slice(0, 96 * 1024), 'base64')
+
+  try {
+    if (format === 'png' && header.length >= 24) {
+      return { width: header.readUInt32BE(16), height: header.readUInt32BE(20) }
+    }
+    if (format === 'gif' && header.length >= 10) {
+      return { width: header.readUInt16LE(6), height: header.readUInt16LE(8) }
+    }
+    if (format === 'jpeg' || format === 'jpg') {
+      return readJpegDimensions(header)
+    }
+  } catch {
+    // Truncated or malformed header
+  }
+  return {}
+}
+
+function readJpegDimensions(buf: Buffer): ImageDimensions {
+  let offset = 2 // Skip SOI marker
+  while (offset + 9 < buf.length) {
+    if (buf[offset] !== 0xff) return {}
+    const marker = buf[offset + 1]
+    const segmentLength = buf.readUInt16BE(offset + 2)
+    // SOF0-SOF15 carry the frame size (excluding DHT, JPG and DAC markers)
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return { height: buf.readUInt16BE(offset + 5), width: buf.readUInt16BE(offset + 7) }
+    }
+    offset += 2 + segmentLength
+  }
+  return {}
+}
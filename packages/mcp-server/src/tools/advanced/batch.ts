@@ -0,0 +1,10 @@
+export const BATCH_DESCRIPTION = `Run several actions on one tab in a single round trip.
+
+Steps run in order, each as { tool, input, waitAfter? }; tabId comes from the batch.
+Step tools: navigate, click, type, key, scroll, hover, drag, form_input, find,
+read_page, get_page_text, screenshot, wait_for, handle_dialog, javascript_exec,
+page_data_extract. Stops at the first failed step unless continueOnError is set.
+Returns one { tool, success, result | error } entry per step that ran.
+A batch may take at most 5 minutes, counting 10s per step plus its waitAfter and how
+long it may wait (wait_for: its timeout; navigate: the page load timeout; click, hover:
+the actionability timeout); longer batches fail with INVALID_PARAMS.`
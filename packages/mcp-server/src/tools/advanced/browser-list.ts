@@ -0,0 +1,7 @@
+export const BROWSER_LIST_DESCRIPTION = `List the Chrome browsers connected to this server.
+
+Each Chrome profile running the Viyv Browser extension connects separately.
+Returns their browserId, profile name, extension version and connection
+time, which browser is the default, and which one this session selected
+with switch_browser. Pass a browserId to any browser tool to route a single
+call, or to switch_browser to route all calls of this session.`
@@ -1,5 +1,6 @@
-export const SWITCH_BROWSER_DESCRIPTION = `Switch to a different Chrome browser instance.
+export const SWITCH_BROWSER_DESCRIPTION = `Switch this session to a different Chrome browser.
 
-Disconnects the current Extension connection and waits for a new
-Chrome browser to connect (up to 60s). The user should click
-"Connect" in the desired browser's extension.`
+With browserId (see browser_list), routes all following tool calls of this
+session to that browser. Without browserId, waits for another Chrome browser
+to connect (up to 60s) and switches to it; the user should click "Connect"
+in the desired browser's extension. Other connected browsers stay connected.`
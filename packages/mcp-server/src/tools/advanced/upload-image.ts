@@ -1,4 +1,5 @@
 export const UPLOAD_IMAGE_DESCRIPTION = `Upload an image to a file input element on the page.
 Accepts a local file path or base64-encoded image data and
-programmatically sets it on the target file input. Supports
+programmatically sets it on the target file input (ref or locator,
+e.g. css=input[type=file]), or drops it at a coordinate. Supports
 common image formats including PNG, JPEG, GIF, and WebP.`
@@ -1,5 +1,9 @@
 export const CLICK_DESCRIPTION = `Click at coordinates or on a referenced element.
 
-Provide either coordinate [x, y] or ref (element reference from read_page/find).
+Provide coordinate [x, y], ref (element reference from read_page/find), or locator
+(e.g. role=button[name="Save"], text=Sign in, label=Email; resolved in the page at call time).
+A ref or locator click scrolls the element into view, waits until it is visible, enabled, stable and
+not covered by another element, then clicks its center; if it never is, the call fails with
+ELEMENT_NOT_ACTIONABLE naming the covering element.
 Actions: left_click (default), right_click, double_click, triple_click.
 Supports modifier keys: ctrl, shift, alt, cmd (e.g., "ctrl+shift").`
@@ -1,4 +1,5 @@
-export const FORM_INPUT_DESCRIPTION = `Set a value in a form element identified by its ref.
+export const FORM_INPUT_DESCRIPTION = `Set a value in a form element identified by its ref or a locator.
 Supports text inputs, textareas, selects, checkboxes, and radio buttons.
 The ref must be obtained from a prior find or snapshot operation
-to ensure the correct element is targeted.`
+to ensure the correct element is targeted. Well-known fields can be
+targeted in one step with a locator instead, e.g. label=Email or placeholder=Search.`
@@ -1,3 +1,6 @@
 export const HOVER_DESCRIPTION = `Move mouse to coordinates or element without clicking.
 
+Provide coordinate [x, y], ref, or locator (e.g. text=Account). For a ref or locator the mouse
+moves to the element's center once it is visible, stable and not covered.
+
 Useful for revealing tooltips, dropdown menus, or triggering hover states.`
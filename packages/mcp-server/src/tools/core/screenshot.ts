@@ -1,6 +1,6 @@
 export const SCREENSHOT_DESCRIPTION = `Take a screenshot of a tab.
 
-Returns base64-encoded image data.
+Returns the image as MCP image content, plus JSON metadata (imageId, format, width, height).
 Default format is JPEG with quality 80 (optimized for Native Messaging 1MB limit).
 Use PNG for lossless screenshots when needed.
 Optionally capture a specific region [x0, y0, x1, y1].`
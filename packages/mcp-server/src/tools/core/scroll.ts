@@ -2,4 +2,4 @@ export const SCROLL_DESCRIPTION = `Scroll in a direction at given coordinates, o
 
 Two modes:
 1. Directional scroll: provide coordinate + direction (+ optional amount 1-10, default 3).
-2. Scroll to element: provide ref (element reference ID from read_page/find). Scrolls the element into view using smooth scrolling.`
+2. Scroll to element: provide ref (element reference ID from read_page/find) or locator (e.g. css=#footer). Scrolls the element into view using smooth scrolling.`
@@ -1,4 +1,4 @@
 export const WAIT_FOR_DESCRIPTION = `Wait for a specified condition before proceeding.
-Supports waiting for a CSS selector to appear in the DOM,
+Supports waiting for a CSS selector or a locator (e.g. text=Saved) to appear in the DOM,
 for a navigation event to complete, or for a fixed timeout duration.
 Useful for synchronizing with asynchronous page updates.`
@@ -1,9 +1,55 @@
 /**
- * Tool registry: defines all MCP tools and their schemas.
+ * Tool registry: defines all MCP tools. Input schemas live in @viyv-browser/shared (tool-schemas.ts)
+ * so the Extension and the client package use the same definitions.
  */
 
-import { z } from 'zod'
-
+import type { ToolAnnotations } from '@modelcontextprotocol/sdk/types.js'
+import {
+  agentIdentifyInputSchema,
+  agentTabAssignInputSchema,
+  agentTabListInputSchema,
+  artifactFromPageInputSchema,
+  auditRecentInputSchema,
+  batchInputSchema,
+  browserEventPollInputSchema,
+  browserEventSubscribeInputSchema,
+  browserEventUnsubscribeInputSchema,
+  browserHealthInputSchema,
+  browserListInputSchema,
+  clickInputSchema,
+  dragInputSchema,
+  findInputSchema,
+  formInputInputSchema,
+  getPageTextInputSchema,
+  gifCreatorInputSchema,
+  handleDialogInputSchema,
+  hoverInputSchema,
+  javascriptExecInputSchema,
+  keyInputSchema,
+  navigateInputSchema,
+  pageDataExtractInputSchema,
+  readConsoleMessagesInputSchema,
+  readNetworkRequestsInputSchema,
+  readPageInputSchema,
+  resizeWindowInputSchema,
+  screenshotInputSchema,
+  scrollInputSchema,
+  selectTabInputSchema,
+  shortcutsExecuteInputSchema,
+  shortcutsListInputSchema,
+  switchBrowserInputSchema,
+  tabCloseInputSchema,
+  tabsContextInputSchema,
+  tabsCreateInputSchema,
+  typeInputSchema,
+  updatePlanInputSchema,
+  uploadImageInputSchema,
+  waitForInputSchema,
+} from '@viyv-browser/shared'
+import type { z } from 'zod'
+
+import { BATCH_DESCRIPTION } from './advanced/batch.js'
+import { BROWSER_LIST_DESCRIPTION } from './advanced/browser-list.js'
 import { GIF_CREATOR_DESCRIPTION } from './advanced/gif-creator.js'
 import { RESIZE_WINDOW_DESCRIPTION } from './advanced/resize-window.js'
 import { SHORTCUTS_EXECUTE_DESCRIPTION } from './advanced/shortcuts-execute.js'
@@ -32,190 +78,157 @@ import { SELECT_TAB_DESCRIPTION } from './tabs/select-tab.js'
 import { TAB_CLOSE_DESCRIPTION } from './tabs/tab-close.js'
 import { TABS_CONTEXT_DESCRIPTION } from './tabs/tabs-context.js'
 import { TABS_CREATE_DESCRIPTION } from './tabs/tabs-create.js'
+import { AGENT_IDENTIFY_DESCRIPTION } from './viyv/agent-identify.js'
 import { AGENT_TAB_ASSIGN_DESCRIPTION } from './viyv/agent-tab-assign.js'
 import { AGENT_TAB_LIST_DESCRIPTION } from './viyv/agent-tab-list.js'
 import { ARTIFACT_FROM_PAGE_DESCRIPTION } from './viyv/artifact-from-page.js'
+import { AUDIT_RECENT_DESCRIPTION } from './viyv/audit-recent.js'
+import { BROWSER_EVENT_POLL_DESCRIPTION } from './viyv/browser-event-poll.js'
 import { BROWSER_EVENT_SUBSCRIBE_DESCRIPTION } from './viyv/browser-event-subscribe.js'
 import { BROWSER_EVENT_UNSUBSCRIBE_DESCRIPTION } from './viyv/browser-event-unsubscribe.js'
 import { BROWSER_HEALTH_DESCRIPTION } from './viyv/browser-health.js'
 import { PAGE_DATA_EXTRACT_DESCRIPTION } from './viyv/page-data-extract.js'
 
+/** Tool profiles from least to most privileged (see tool-profiles.ts) */
+export type ToolProfile = 'read-only' | 'interactive' | 'full'
+
 export interface ToolDefinition {
   name: string
   description: string
   inputSchema: z.ZodType
+  /** MCP hints telling clients whether the tool changes the page or browser */
+  annotations: ToolAnnotations
+  /** Least privileged profile that includes the tool */
+  profile: ToolProfile
 }
 
+// Observes the page or browser without changing it
+const READ_ONLY: ToolAnnotations = { readOnlyHint: true }
+// Changes browser state (opens tabs, navigates, subscribes) without destroying anything
+const ADDITIVE: ToolAnnotations = { readOnlyHint: false, destructiveHint: false }
+// Acts on the page as the user would (submits forms, closes tabs, runs code)
+const DESTRUCTIVE: ToolAnnotations = { readOnlyHint: false, destructiveHint: true }
+
 // ── Core Browser Tools ──
 
 export const navigateTool: ToolDefinition = {
   name: 'navigate',
   description: NAVIGATE_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID to navigate'),
-    url: z.string().describe('URL to navigate to, or "back"/"forward" for history'),
-  }),
+  annotations: ADDITIVE,
+  profile: 'read-only',
+  inputSchema: navigateInputSchema,
 }
 
 export const screenshotTool: ToolDefinition = {
   name: 'screenshot',
   description: SCREENSHOT_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID to capture'),
-    format: z.enum(['jpeg', 'png']).optional().describe('Image format (default: jpeg)'),
-    quality: z.number().min(1).max(100).optional().describe('JPEG quality (default: 80)'),
-    region: z
-      .tuple([z.number(), z.number(), z.number(), z.number()])
-      .optional()
-      .describe('Capture region [x0, y0, x1, y1]'),
-  }),
+  annotations: READ_ONLY,
+  profile: 'read-only',
+  inputSchema: screenshotInputSchema,
 }
 
 export const clickTool: ToolDefinition = {
   name: 'click',
   description: CLICK_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID'),
-    coordinate: z
-      .tuple([z.number(), z.number()])
-      .optional()
-      .describe('Click position [x, y]'),
-    ref: z.string().optional().describe('Element reference ID'),
-    action: z
-      .enum(['left_click', 'right_click', 'double_click', 'triple_click'])
-      .optional()
-      .describe('Click type (default: left_click)'),
-    modifiers: z.string().optional().describe('Modifier keys (e.g., "ctrl+shift")'),
-  }),
+  annotations: DESTRUCTIVE,
+  profile: 'interactive',
+  inputSchema: clickInputSchema,
 }
 
 export const typeTool: ToolDefinition = {
   name: 'type',
   description: TYPE_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID'),
-    text: z.string().describe('Text to type'),
-  }),
+  annotations: DESTRUCTIVE,
+  profile: 'interactive',
+  inputSchema: typeInputSchema,
 }
 
 export const keyTool: ToolDefinition = {
   name: 'key',
   description: KEY_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID'),
-    keys: z.string().describe('Space-separated keys (e.g., "Enter", "ctrl+a")'),
-    repeat: z.number().min(1).max(100).optional().describe('Repeat count'),
-  }),
+  annotations: DESTRUCTIVE,
+  profile: 'interactive',
+  inputSchema: keyInputSchema,
 }
 
 export const scrollTool: ToolDefinition = {
   name: 'scroll',
   description: SCROLL_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID'),
-    coordinate: z
-      .tuple([z.number(), z.number()])
-      .optional()
-      .describe('Scroll position [x, y] (required for directional scroll)'),
-    direction: z
-      .enum(['up', 'down', 'left', 'right'])
-      .optional()
-      .describe('Scroll direction (required for directional scroll)'),
-    amount: z.number().min(1).max(10).optional().describe('Scroll amount (default: 3)'),
-    ref: z.string().optional().describe('Element reference ID to scroll into view'),
-  }),
+  annotations: READ_ONLY,
+  profile: 'read-only',
+  inputSchema: scrollInputSchema,
 }
 
 export const hoverTool: ToolDefinition = {
   name: 'hover',
   description: HOVER_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID'),
-    coordinate: z.tuple([z.number(), z.number()]).optional().describe('Hover position [x, y]'),
-    ref: z.string().optional().describe('Element reference ID'),
-  }),
+  annotations: ADDITIVE,
+  profile: 'interactive',
+  inputSchema: hoverInputSchema,
 }
 
 export const dragTool: ToolDefinition = {
   name: 'drag',
   description: DRAG_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID'),
-    startCoordinate: z.tuple([z.number(), z.number()]).describe('Start position [x, y]'),
-    endCoordinate: z.tuple([z.number(), z.number()]).describe('End position [x, y]'),
-  }),
+  annotations: DESTRUCTIVE,
+  profile: 'interactive',
+  inputSchema: dragInputSchema,
 }
 
 export const readPageTool: ToolDefinition = {
   name: 'read_page',
   description: READ_PAGE_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID'),
-    filter: z
-      .enum(['interactive', 'all'])
-      .optional()
-      .describe('Filter: "interactive" for buttons/links/inputs, "all" for everything'),
-    depth: z.number().min(1).max(20).optional().describe('Max tree depth (default: 8)'),
-    refId: z.string().optional().describe('Focus on a specific element by ref'),
-    maxChars: z.number().optional().describe('Max output characters (default: 50000)'),
-  }),
+  annotations: READ_ONLY,
+  profile: 'read-only',
+  inputSchema: readPageInputSchema,
 }
 
 export const findTool: ToolDefinition = {
   name: 'find',
   description: FIND_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID'),
-    query: z.string().describe('Natural language description of what to find'),
-  }),
+  annotations: READ_ONLY,
+  profile: 'read-only',
+  inputSchema: findInputSchema,
 }
 
 export const formInputTool: ToolDefinition = {
   name: 'form_input',
   description: FORM_INPUT_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID'),
-    ref: z.string().describe('Element reference ID'),
-    value: z.union([z.string(), z.boolean(), z.number()]).describe('Value to set'),
-  }),
+  annotations: DESTRUCTIVE,
+  profile: 'interactive',
+  inputSchema: formInputInputSchema,
 }
 
 export const javascriptExecTool: ToolDefinition = {
   name: 'javascript_exec',
   description: JAVASCRIPT_EXEC_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID'),
-    code: z.string().describe('JavaScript code to execute'),
-  }),
+  annotations: DESTRUCTIVE,
+  profile: 'full',
+  inputSchema: javascriptExecInputSchema,
 }
 
 export const waitForTool: ToolDefinition = {
   name: 'wait_for',
   description: WAIT_FOR_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID'),
-    selector: z.string().optional().describe('CSS selector to wait for'),
-    navigation: z.boolean().optional().describe('Wait for navigation to complete'),
-    timeout: z.number().optional().describe('Timeout in ms (default: 30000)'),
-  }),
+  annotations: READ_ONLY,
+  profile: 'read-only',
+  inputSchema: waitForInputSchema,
 }
 
 export const getPageTextTool: ToolDefinition = {
   name: 'get_page_text',
   description: GET_PAGE_TEXT_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID'),
-  }),
+  annotations: READ_ONLY,
+  profile: 'read-only',
+  inputSchema: getPageTextInputSchema,
 }
 
 export const handleDialogTool: ToolDefinition = {
   name: 'handle_dialog',
   description: HANDLE_DIALOG_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID'),
-    action: z.enum(['accept', 'dismiss']).describe('Dialog action'),
-    text: z.string().optional().describe('Text for prompt dialog'),
-  }),
+  annotations: DESTRUCTIVE,
+  profile: 'interactive',
+  inputSchema: handleDialogInputSchema,
 }
 
 // ── Tab Management Tools ──
@@ -223,36 +236,33 @@ export const handleDialogTool: ToolDefinition = {
 export const tabsContextTool: ToolDefinition = {
   name: 'tabs_context',
   description: TABS_CONTEXT_DESCRIPTION,
-  inputSchema: z.object({
-    createIfEmpty: z
-      .boolean()
-      .optional()
-      .describe('Create a new tab group if none exists'),
-  }),
+  annotations: ADDITIVE,
+  profile: 'read-only',
+  inputSchema: tabsContextInputSchema,
 }
 
 export const tabsCreateTool: ToolDefinition = {
   name: 'tabs_create',
   description: TABS_CREATE_DESCRIPTION,
-  inputSchema: z.object({
-    url: z.string().optional().describe('URL to open in the new tab'),
-  }),
+  annotations: ADDITIVE,
+  profile: 'read-only',
+  inputSchema: tabsCreateInputSchema,
 }
 
 export const tabCloseTool: ToolDefinition = {
   name: 'tab_close',
   description: TAB_CLOSE_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID to close'),
-  }),
+  annotations: DESTRUCTIVE,
+  profile: 'interactive',
+  inputSchema: tabCloseInputSchema,
 }
 
 export const selectTabTool: ToolDefinition = {
   name: 'select_tab',
   description: SELECT_TAB_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID to focus'),
-  }),
+  annotations: ADDITIVE,
+  profile: 'read-only',
+  inputSchema: selectTabInputSchema,
 }
 
 // ── Debug Tools ──
@@ -260,24 +270,17 @@ export const selectTabTool: ToolDefinition = {
 export const readConsoleMessagesTool: ToolDefinition = {
   name: 'read_console_messages',
   description: READ_CONSOLE_MESSAGES_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID'),
-    pattern: z.string().optional().describe('Regex pattern to filter messages'),
-    onlyErrors: z.boolean().optional().describe('Only return errors'),
-    limit: z.number().optional().describe('Max messages to return (default: 100)'),
-    clear: z.boolean().optional().describe('Clear messages after reading'),
-  }),
+  annotations: READ_ONLY,
+  profile: 'read-only',
+  inputSchema: readConsoleMessagesInputSchema,
 }
 
 export const readNetworkRequestsTool: ToolDefinition = {
   name: 'read_network_requests',
   description: READ_NETWORK_REQUESTS_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID'),
-    urlPattern: z.string().optional().describe('URL pattern to filter requests'),
-    limit: z.number().optional().describe('Max requests to return (default: 100)'),
-    clear: z.boolean().optional().describe('Clear requests after reading'),
-  }),
+  annotations: READ_ONLY,
+  profile: 'read-only',
+  inputSchema: readNetworkRequestsInputSchema,
 }
 
 // ── Advanced Tools ──
@@ -285,147 +288,155 @@ export const readNetworkRequestsTool: ToolDefinition = {
 export const gifCreatorTool: ToolDefinition = {
   name: 'gif_creator',
   description: GIF_CREATOR_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID'),
-    action: z
-      .enum(['start_recording', 'stop_recording', 'export', 'clear'])
-      .describe('GIF action'),
-    filename: z.string().optional().describe('Filename for export'),
-    options: z
-      .object({
-        showClickIndicators: z.boolean().optional(),
-        showDragPaths: z.boolean().optional(),
-        showActionLabels: z.boolean().optional(),
-        showProgressBar: z.boolean().optional(),
-        showWatermark: z.boolean().optional(),
-        quality: z.number().min(1).max(30).optional(),
-      })
-      .optional()
-      .describe('GIF rendering options'),
-    download: z.boolean().optional().describe('Download the GIF'),
-  }),
+  annotations: ADDITIVE,
+  profile: 'interactive',
+  inputSchema: gifCreatorInputSchema,
 }
 
 export const uploadImageTool: ToolDefinition = {
   name: 'upload_image',
   description: UPLOAD_IMAGE_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID'),
-    imageId: z.string().describe('Image ID from a previous screenshot'),
-    ref: z.string().optional().describe('Element reference for file input'),
-    coordinate: z
-      .tuple([z.number(), z.number()])
-      .optional()
-      .describe('Coordinates for drag & drop'),
-  }),
+  annotations: DESTRUCTIVE,
+  profile: 'full',
+  inputSchema: uploadImageInputSchema,
 }
 
 export const updatePlanTool: ToolDefinition = {
   name: 'update_plan',
   description: UPDATE_PLAN_DESCRIPTION,
-  inputSchema: z.object({
-    domains: z.array(z.string()).describe('Domains to visit'),
-    approach: z.array(z.string()).describe('Steps in the plan'),
-  }),
+  annotations: ADDITIVE,
+  profile: 'read-only',
+  inputSchema: updatePlanInputSchema,
 }
 
 export const resizeWindowTool: ToolDefinition = {
   name: 'resize_window',
   description: RESIZE_WINDOW_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID'),
-    width: z.number().describe('Window width in pixels'),
-    height: z.number().describe('Window height in pixels'),
-  }),
+  annotations: ADDITIVE,
+  profile: 'interactive',
+  inputSchema: resizeWindowInputSchema,
 }
 
 export const shortcutsListTool: ToolDefinition = {
   name: 'shortcuts_list',
   description: SHORTCUTS_LIST_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z
-      .number()
-      .optional()
-      .describe('Tab ID (used to identify the tab group context)'),
-  }),
+  annotations: READ_ONLY,
+  profile: 'read-only',
+  inputSchema: shortcutsListInputSchema,
 }
 
 export const shortcutsExecuteTool: ToolDefinition = {
   name: 'shortcuts_execute',
   description: SHORTCUTS_EXECUTE_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID to execute the shortcut on'),
-    command: z.string().optional().describe('Command name of the shortcut'),
-    shortcutId: z.string().optional().describe('ID of the shortcut'),
-  }),
+  annotations: DESTRUCTIVE,
+  profile: 'full',
+  inputSchema: shortcutsExecuteInputSchema,
+}
+
+export const batchTool: ToolDefinition = {
+  name: 'batch',
+  description: BATCH_DESCRIPTION,
+  annotations: DESTRUCTIVE,
+  profile: 'interactive',
+  inputSchema: batchInputSchema,
 }
 
 export const switchBrowserTool: ToolDefinition = {
   name: 'switch_browser',
   description: SWITCH_BROWSER_DESCRIPTION,
-  inputSchema: z.object({}),
+  annotations: ADDITIVE,
+  profile: 'read-only',
+  inputSchema: switchBrowserInputSchema,
+}
+
+export const browserListTool: ToolDefinition = {
+  name: 'browser_list',
+  description: BROWSER_LIST_DESCRIPTION,
+  annotations: READ_ONLY,
+  profile: 'read-only',
+  inputSchema: browserListInputSchema,
 }
 
 // ── viyv Integration Tools ──
 
+export const agentIdentifyTool: ToolDefinition = {
+  name: 'agent_identify',
+  description: AGENT_IDENTIFY_DESCRIPTION,
+  annotations: ADDITIVE,
+  profile: 'read-only',
+  inputSchema: agentIdentifyInputSchema,
+}
+
 export const agentTabAssignTool: ToolDefinition = {
   name: 'agent_tab_assign',
   description: AGENT_TAB_ASSIGN_DESCRIPTION,
-  inputSchema: z.object({
-    agentId: z.string().describe('Agent ID'),
-    agentName: z.string().describe('Display name'),
-    color: z.string().optional().describe('Tab group color'),
-  }),
+  annotations: ADDITIVE,
+  profile: 'read-only',
+  inputSchema: agentTabAssignInputSchema,
 }
 
 export const agentTabListTool: ToolDefinition = {
   name: 'agent_tab_list',
   description: AGENT_TAB_LIST_DESCRIPTION,
-  inputSchema: z.object({}),
+  annotations: READ_ONLY,
+  profile: 'read-only',
+  inputSchema: agentTabListInputSchema,
 }
 
 export const browserEventSubscribeTool: ToolDefinition = {
   name: 'browser_event_subscribe',
   description: BROWSER_EVENT_SUBSCRIBE_DESCRIPTION,
-  inputSchema: z.object({
-    eventTypes: z.array(z.string()).describe('Event types to subscribe to'),
-    urlPattern: z.string().optional().describe('URL pattern filter'),
-    conditions: z.record(z.unknown()).optional().describe('Additional conditions'),
-  }),
+  annotations: ADDITIVE,
+  profile: 'read-only',
+  inputSchema: browserEventSubscribeInputSchema,
 }
 
 export const browserEventUnsubscribeTool: ToolDefinition = {
   name: 'browser_event_unsubscribe',
   description: BROWSER_EVENT_UNSUBSCRIBE_DESCRIPTION,
-  inputSchema: z.object({
-    subscriptionId: z.string().describe('Subscription ID'),
-  }),
+  annotations: ADDITIVE,
+  profile: 'read-only',
+  inputSchema: browserEventUnsubscribeInputSchema,
+}
+
+export const browserEventPollTool: ToolDefinition = {
+  name: 'browser_event_poll',
+  description: BROWSER_EVENT_POLL_DESCRIPTION,
+  annotations: READ_ONLY,
+  profile: 'read-only',
+  inputSchema: browserEventPollInputSchema,
 }
 
 export const artifactFromPageTool: ToolDefinition = {
   name: 'artifact_from_page',
   description: ARTIFACT_FROM_PAGE_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID'),
-    type: z.string().describe('Artifact type (text, html, screenshot)'),
-    title: z.string().optional().describe('Artifact title'),
-  }),
+  annotations: ADDITIVE,
+  profile: 'read-only',
+  inputSchema: artifactFromPageInputSchema,
 }
 
 export const pageDataExtractTool: ToolDefinition = {
   name: 'page_data_extract',
   description: PAGE_DATA_EXTRACT_DESCRIPTION,
-  inputSchema: z.object({
-    tabId: z.number().describe('Tab ID'),
-    schema: z.record(z.unknown()).describe('Data extraction schema'),
-    selector: z.string().optional().describe('CSS selector to scope extraction'),
-  }),
+  annotations: READ_ONLY,
+  profile: 'read-only',
+  inputSchema: pageDataExtractInputSchema,
 }
 
 export const browserHealthTool: ToolDefinition = {
   name: 'browser_health',
   description: BROWSER_HEALTH_DESCRIPTION,
-  inputSchema: z.object({}),
+  annotations: READ_ONLY,
+  profile: 'read-only',
+  inputSchema: browserHealthInputSchema,
+}
+
+export const auditRecentTool: ToolDefinition = {
+  name: 'audit_recent',
+  description: AUDIT_RECENT_DESCRIPTION,
+  annotations: READ_ONLY,
+  profile: 'read-only',
+  inputSchema: auditRecentInputSchema,
 }
 
 // ── All Tools ──
@@ -455,20 +466,25 @@ export const allTools: ToolDefinition[] = [
   // Debug (2)
   readConsoleMessagesTool,
   readNetworkRequestsTool,
-  // Advanced (7)
+  // Advanced (9)
   gifCreatorTool,
   uploadImageTool,
   updatePlanTool,
   resizeWindowTool,
   shortcutsListTool,
   shortcutsExecuteTool,
+  batchTool,
   switchBrowserTool,
-  // viyv Integration (7)
+  browserListTool,
+  // viyv Integration (10)
+  agentIdentifyTool,
   agentTabAssignTool,
   agentTabListTool,
   browserEventSubscribeTool,
   browserEventUnsubscribeTool,
+  browserEventPollTool,
   artifactFromPageTool,
   pageDataExtractTool,
   browserHealthTool,
+  auditRecentTool,
 ]
@@ -0,0 +1,5 @@
+export const AGENT_IDENTIFY_DESCRIPTION = `Identify the calling agent for this MCP session.
+Binds the session to an agent ID so tool calls, tab groups and event
+subscriptions are isolated from other clients sharing the same server.
+Call this first when connecting over SSE/HTTP without an
+X-Viyv-Agent-Id header or agentId query parameter.`
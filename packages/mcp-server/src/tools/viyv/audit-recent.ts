@@ -0,0 +1,4 @@
+export const AUDIT_RECENT_DESCRIPTION = `List this agent's most recent tool calls from the audit trail, newest first.
+Each entry has the tool, redacted input, a result summary or error code,
+the tab with its URL before and after the call, and the duration. Filter by
+tool name or pass errorsOnly to review failed calls.`
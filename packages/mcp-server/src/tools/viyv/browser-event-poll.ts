@@ -0,0 +1,5 @@
+export const BROWSER_EVENT_POLL_DESCRIPTION = `Poll buffered browser events for this agent's subscriptions.
+Returns events with a sequence number greater than the cursor, oldest first,
+plus the cursor to pass on the next call. Use this to catch up on events
+emitted while no client was listening; missedEvents is true when some were
+already evicted from the buffer.`
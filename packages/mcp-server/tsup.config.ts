@@ -1,12 +1,19 @@
 import { defineConfig } from 'tsup'
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: ['src/index.ts', 'src/direct.ts'],
   format: ['esm'],
   target: 'node20',
   outDir: 'dist',
   clean: true,
-  dts: true,
+  // The viyv-browser-mcp/direct typings reference shared types; bundle them like its code
+  dts: {
+    resolve: ['@viyv-browser/shared'],
+    compilerOptions: {
+      rootDir: '..',
+      paths: { '@viyv-browser/shared': ['../shared/src/index.ts'] },
+    },
+  },
   sourcemap: true,
   noExternal: ['@viyv-browser/shared'],
   banner: {
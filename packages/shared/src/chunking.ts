@@ -0,0 +1,133 @@
+/**
+ * Chunked transfer for messages over the 1MB Native Messaging limit.
+ * Both directions (Extension → Native Host and Native Host → Extension) split the serialized
+ * message into `chunk` messages and join them again on the other side.
+ */
+
+import { LIMITS } from './constants.js'
+import { ViyvBrowserError } from './types/errors.js'
+import type { ChunkedMessage } from './types/protocol.js'
+
+/** UTF-8 size of a string (the encoding Native Messaging uses on the wire) */
+export function utf8ByteLength(text: string): number {
+  let bytes = 0
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    if (code < 0x80) bytes += 1
+    else if (code < 0x800) bytes += 2
+    else if (code >= 0xd800 && code <= 0xdbff && i + 1 < text.length) {
+      // Surrogate pair: one 4-byte code point
+      bytes += 4
+      i++
+    } else bytes += 3
+  }
+  return bytes
+}
+
+export function isChunkedMessage(message: unknown): message is ChunkedMessage {
+  const m = message as Record<string, unknown> | null
+  return (
+    !!m &&
+    m.type === 'chunk' &&
+    typeof m.requestId === 'string' &&
+    typeof m.chunkIndex === 'number' &&
+    typeof m.totalChunks === 'number' &&
+    typeof m.data === 'string'
+  )
+}
+
+/**
+ * Splits a serialized message into chunk messages whose whole encoding, envelope included,
+ * stays within LIMITS.CHUNK_SIZE. Returns null when the message fits into a single Native
+ * Messaging message.
+ */
+export function chunkMessage(
+  json: string,
+  requestId: string,
+  agentId: string,
+): ChunkedMessage[] | null {
+  const totalSize = utf8ByteLength(json)
+  if (totalSize <= LIMITS.CHUNK_SIZE) return null
+
+  const envelope = { type: 'chunk' as const, requestId, agentId, totalSize, compressed: false }
+  // Measured once, with room for the largest chunk index and count
+  const overhead = utf8ByteLength(
+    JSON.stringify({
+      ...envelope,
+      chunkIndex: Number.MAX_SAFE_INTEGER,
+      totalChunks: Number.MAX_SAFE_INTEGER,
+      data: '',
+    }),
+  )
+  const budget = LIMITS.CHUNK_SIZE - overhead
+
+  const parts: string[] = []
+  let start = 0
+  let bytes = 0
+  for (let i = 0; i < json.length; ) {
+    const [size, width] = escapedSize(json, i)
+    if (bytes + size > budget && i > start) {
+      parts.push(json.slice(start, i))
+      start = i
+      bytes = 0
+    }
+    bytes += size
+    i += width
+  }
+  parts.push(json.slice(start))
+
+  return parts.map((data, chunkIndex) => ({
+    ...envelope,
+    chunkIndex,
+    totalChunks: parts.length,
+    data,
+  }))
+}
+
+/**
+ * UTF-8 size of the character at `index` inside a JSON string, as JSON.stringify escapes it,
+ * and how many UTF-16 units it spans (a surrogate pair stays in one chunk).
+ */
+function escapedSize(text: string, index: number): [bytes: number, width: number] {
+  const code = text.charCodeAt(index)
+  if (code === 0x22 || code === 0x5c) return [2, 1]
+  if (code < 0x20) return [[0x08, 0x09, 0x0a, 0x0c, 0x0d].includes(code) ? 2 : 6, 1]
+  if (code < 0x80) return [1, 1]
+  if (code < 0x800) return [2, 1]
+  if (code >= 0xd800 && code <= 0xdfff) {
+    const next = text.charCodeAt(index + 1)
+    if (code <= 0xdbff && next >= 0xdc00 && next <= 0xdfff) return [4, 2]
+    return [6, 1] // Lone surrogate: written as \uXXXX
+  }
+  return [3, 1]
+}
+
+/**
+ * Joins a complete, index-ordered set of chunks and parses the original message.
+ * Throws CHUNK_REASSEMBLY_FAILED when chunks are missing or the result is corrupt.
+ */
+export function joinChunks(chunks: ChunkedMessage[]): unknown {
+  const first = chunks[0]
+  const fail = (reason: string) =>
+    new ViyvBrowserError(
+      'CHUNK_REASSEMBLY_FAILED',
+      `Cannot reassemble message ${first?.requestId ?? '(unknown)'}: ${reason}`,
+      first && { requestId: first.requestId, totalChunks: first.totalChunks },
+    )
+
+  if (!first) throw fail('no chunks received')
+  if (first.compressed) throw fail('compressed chunks are not supported')
+  if (chunks.length !== first.totalChunks || chunks.some((c, i) => c?.chunkIndex !== i)) {
+    throw fail(`got ${chunks.filter(Boolean).length} of ${first.totalChunks} chunks`)
+  }
+
+  const json = chunks.map((c) => c.data).join('')
+  if (utf8ByteLength(json) !== first.totalSize) {
+    throw fail(`size mismatch (expected ${first.totalSize} bytes)`)
+  }
+  try {
+    return JSON.parse(json)
+  } catch (error) {
+    throw fail(`invalid JSON (${(error as Error).message})`)
+  }
+}
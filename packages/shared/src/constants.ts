@@ -1,3 +1,5 @@
+import type { RuntimeSettings } from './types/settings.js'
+
 /** Protocol version for compatibility checks */
 export const PROTOCOL_VERSION = '1.0.0'
 
@@ -30,6 +32,14 @@ export const TIMEOUTS = {
   CDP_IDLE_DETACH: 5_000,
   /** Tab lock TTL (deadlock prevention) */
   TAB_LOCK_TTL: 60_000,
+  /** Native Host ↔ MCP Server socket handshake */
+  SOCKET_AUTH: 5_000,
+  /** How long tool calls wait for a dropped Extension connection to come back before failing */
+  RECONNECT_GRACE: 15_000,
+  /** How long a ref click waits for its element to become visible, stable and clickable */
+  ACTIONABILITY: 5_000,
+  /** Time allowed per batch step on top of its waits */
+  BATCH_STEP: 10_000,
 } as const
 
 // ── Limits ──
@@ -54,11 +64,54 @@ export const LIMITS = {
   /** Default screenshot JPEG quality */
   SCREENSHOT_JPEG_QUALITY: 80,
   /** Console buffer per tab */
-  CONSOLE_BUFFER_MAX: 1000,
+  CONSOLE_BUFFER_MAX: 500,
   /** Network buffer per tab */
-  NETWORK_BUFFER_MAX: 1000,
+  NETWORK_BUFFER_MAX: 500,
+  /** Console or network entries across all tabs */
+  BUFFER_TOTAL_MAX: 5000,
+  /** Screenshots kept in the Extension for upload_image */
+  STORED_SCREENSHOTS_MAX: 10,
+  /** Audit log file size before it is rotated */
+  AUDIT_LOG_MAX_BYTES: 10 * 1024 * 1024,
+  /** Rotated audit log files kept (audit.jsonl.1 … .N) */
+  AUDIT_LOG_MAX_FILES: 5,
+  /** Recent audit entries kept in memory for audit_recent */
+  AUDIT_RECENT_MAX: 500,
+  /** Steps in one batch call */
+  BATCH_MAX_STEPS: 50,
+  /** Longest a batch may take by batchDuration (5 min); longer ones are rejected */
+  BATCH_MAX_DURATION: 300_000,
 } as const
 
+// ── Runtime settings ──
+
+/** Values used when the user config does not override them */
+export const DEFAULT_SETTINGS: RuntimeSettings = {
+  timeouts: {
+    toolCall: TIMEOUTS.MCP_TOOL,
+    cdpCommand: TIMEOUTS.CDP_COMMAND,
+    cdpIdleDetach: TIMEOUTS.CDP_IDLE_DETACH,
+    navigation: TIMEOUTS.NAVIGATION,
+    waitFor: TIMEOUTS.WAIT_FOR,
+    tabLock: TIMEOUTS.TAB_LOCK_TTL,
+    reconnectGrace: TIMEOUTS.RECONNECT_GRACE,
+    actionability: TIMEOUTS.ACTIONABILITY,
+  },
+  limits: {
+    eventBuffer: LIMITS.EVENT_BUFFER_MAX,
+    eventBufferBytes: LIMITS.EVENT_BUFFER_MAX_BYTES,
+    consoleBufferPerTab: LIMITS.CONSOLE_BUFFER_MAX,
+    networkBufferPerTab: LIMITS.NETWORK_BUFFER_MAX,
+    bufferTotal: LIMITS.BUFFER_TOTAL_MAX,
+    storedScreenshots: LIMITS.STORED_SCREENSHOTS_MAX,
+    auditLogBytes: LIMITS.AUDIT_LOG_MAX_BYTES,
+    auditLogFiles: LIMITS.AUDIT_LOG_MAX_FILES,
+  },
+  screenshot: {
+    jpegQuality: LIMITS.SCREENSHOT_JPEG_QUALITY,
+  },
+}
+
 // ── Reconnection ──
 
 export const RECONNECT = {
@@ -4,4 +4,8 @@ export * from './types/session.js'
 export * from './types/events.js'
 export * from './types/tab-group.js'
 export * from './types/mcp-tools.js'
+export * from './types/settings.js'
 export * from './constants.js'
+export * from './chunking.js'
+export * from './locator.js'
+export * from './tool-schemas.js'
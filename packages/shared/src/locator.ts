@@ -0,0 +1,144 @@
+/**
+ * Locator strings: target elements without a prior read_page/find call.
+ *
+ *   css=form.login button      xpath=//button[@type="submit"]
+ *   text=Sign in               text="Sign in"  (quoted: exact, else case-insensitive substring)
+ *   role=button[name="Save"]   label=Email     placeholder=Search
+ *
+ * Parts joined with ` >> ` search within the previous part's matches, and `nth=N` picks one
+ * match (0-based, negative from the end): `role=dialog >> role=button[name="OK"]`,
+ * `css=li >> nth=2`. A part without a prefix is CSS, or XPath when it starts with `/` or `(`;
+ * XPath after ` >> ` is made relative to the previous part.
+ * Parsed here so both the Extension and the mock browser reject malformed locators the same way;
+ * the Extension resolves them in the page at call time.
+ */
+
+import { ViyvBrowserError } from './types/errors.js'
+
+export type LocatorStep =
+  | { engine: 'css' | 'xpath'; selector: string }
+  | { engine: 'text' | 'label' | 'placeholder'; text: string; exact: boolean }
+  | { engine: 'role'; role: string; name?: string; exact: boolean }
+  | { engine: 'nth'; index: number }
+
+const ENGINES = new Set(['css', 'xpath', 'text', 'label', 'placeholder', 'role', 'nth'])
+
+/** Description shared by the `locator` input of element-targeting tools */
+export const LOCATOR_DESCRIPTION =
+  'Locator instead of ref: css=, xpath=, text=, role=button[name="Save"], label=, placeholder=; ' +
+  'chain with " >> " (within) and "nth=N"'
+
+/** Parses a locator string into steps. Throws INVALID_PARAMS when it is malformed. */
+export function parseLocator(locator: string): LocatorStep[] {
+  const parts = splitParts(locator)
+  if (parts.length === 0) throw locatorError(locator, 'locator is empty')
+  const steps = parts.map((part, index) => {
+    const step = parsePart(locator, part)
+    return index > 0 && step.engine === 'xpath'
+      ? { ...step, selector: scopeXPath(locator, step.selector) }
+      : step
+  })
+  if (steps[0].engine === 'nth') throw locatorError(locator, 'nth= needs a part before it')
+  return steps
+}
+
+function parsePart(locator: string, part: string): LocatorStep {
+  const match = /^([a-z]+)=(.*)$/s.exec(part)
+  if (!match || !ENGINES.has(match[1])) {
+    return /^[/(]/.test(part)
+      ? { engine: 'xpath', selector: part }
+      : { engine: 'css', selector: part }
+  }
+
+  const [, engine, rawBody] = match
+  const body = rawBody.trim()
+  if (!body) throw locatorError(locator, `${engine}= needs a value`)
+  switch (engine) {
+    case 'css':
+    case 'xpath':
+      return { engine, selector: body }
+    case 'text':
+    case 'label':
+    case 'placeholder':
+      return { engine, ...parseText(body) }
+    case 'nth': {
+      if (!/^-?\d+$/.test(body)) throw locatorError(locator, `nth= needs an integer, got "${body}"`)
+      return { engine: 'nth', index: Number(body) }
+    }
+    default: {
+      const role = /^([a-z]+)\s*(?:\[\s*name\s*=\s*(.+?)\s*\])?$/i.exec(body)
+      if (!role) {
+        throw locatorError(locator, `role= expects role or role[name="…"], got "${body}"`)
+      }
+      const name = role[2] === undefined ? undefined : parseText(role[2])
+      return { engine: 'role', role: role[1].toLowerCase(), name: name?.text, exact: !!name?.exact }
+    }
+  }
+}
+
+function parseText(body: string): { text: string; exact: boolean } {
+  const quoted = /^(["'])(.*)\1$/s.exec(body)
+  return quoted ? { text: quoted[2], exact: true } : { text: body, exact: false }
+}
+
+/**
+ * Scopes an xpath part after `>>` to the previous matches, like Playwright: `//a` and `(//a)[2]`
+ * become `.//a` and `(.//a)[2]`. Any other absolute path (`//a | //b`) would search the whole
+ * page, so it is rejected instead.
+ */
+function scopeXPath(locator: string, selector: string): string {
+  const scoped = selector.replace(/^[\s(]*\//, (prefix) => `${prefix.slice(0, -1)}./`)
+  let quote = ''
+  let depth = 0
+  let previous = ''
+  for (const char of scoped) {
+    if (quote) {
+      if (char === quote) quote = ''
+      continue
+    }
+    if (char === '"' || char === "'") quote = char
+    else if (char === '[') depth++
+    else if (char === ']') depth--
+    else if (char === '/' && depth === 0 && (previous === '|' || previous === '(')) {
+      throw locatorError(
+        locator,
+        `xpath after " >> " must be relative to the previous part, got "${selector}"`,
+      )
+    }
+    if (!/\s/.test(char)) previous = char
+  }
+  return scoped
+}
+
+/** Splits on `>>` outside quotes and brackets */
+function splitParts(locator: string): string[] {
+  const parts: string[] = []
+  let quote = ''
+  let depth = 0
+  let start = 0
+  for (let i = 0; i < locator.length; i++) {
+    const char = locator[i]
+    if (quote) {
+      if (char === '\\') i++
+      else if (char === quote) quote = ''
+    } else if (char === '"' || char === "'") {
+      quote = char
+    } else if (char === '[' || char === '(') {
+      depth++
+    } else if (char === ']' || char === ')') {
+      depth--
+    } else if (char === '>' && locator[i + 1] === '>' && depth === 0) {
+      parts.push(locator.slice(start, i))
+      start = i + 2
+      i++
+    }
+  }
+  parts.push(locator.slice(start))
+  return parts.map((part) => part.trim()).filter(Boolean)
+}
+
+function locatorError(locator: string, reason: string): ViyvBrowserError {
+  return new ViyvBrowserError('INVALID_PARAMS', `Invalid locator "${locator}": ${reason}`, {
+    locator,
+  })
+}
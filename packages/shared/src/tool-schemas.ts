@@ -0,0 +1,430 @@
+/**
+ * Input schemas of all MCP tools — the single source of truth for tool inputs.
+ *
+ * The MCP server registers tools with these schemas, the Extension validates tool calls against
+ * them, and the input types in types/mcp-tools.ts and the @viyv-browser/client API are inferred
+ * from them, so adding a field here updates every side.
+ */
+
+import { z } from 'zod'
+import { LIMITS, TIMEOUTS } from './constants.js'
+import { LOCATOR_DESCRIPTION } from './locator.js'
+import { ViyvBrowserError } from './types/errors.js'
+import type { RuntimeSettings } from './types/settings.js'
+
+// ── Core Browser Tools ──
+
+/** Resolved in the page at call time; takes precedence over ref */
+const locatorSchema = z.string().optional().describe(LOCATOR_DESCRIPTION)
+
+export const navigateInputSchema = z.object({
+  tabId: z.number().describe('Tab ID to navigate'),
+  url: z.string().describe('URL to navigate to, or "back"/"forward" for history'),
+})
+
+export const screenshotInputSchema = z.object({
+  tabId: z.number().describe('Tab ID to capture'),
+  format: z.enum(['jpeg', 'png']).optional().describe('Image format (default: jpeg)'),
+  quality: z.number().min(1).max(100).optional().describe('JPEG quality (default: 80)'),
+  region: z
+    .tuple([z.number(), z.number(), z.number(), z.number()])
+    .optional()
+    .describe('Capture region [x0, y0, x1, y1]'),
+})
+
+export const clickInputSchema = z.object({
+  tabId: z.number().describe('Tab ID'),
+  coordinate: z.tuple([z.number(), z.number()]).optional().describe('Click position [x, y]'),
+  ref: z.string().optional().describe('Element reference ID'),
+  locator: locatorSchema,
+  action: z
+    .enum(['left_click', 'right_click', 'double_click', 'triple_click'])
+    .optional()
+    .describe('Click type (default: left_click)'),
+  modifiers: z.string().optional().describe('Modifier keys (e.g., "ctrl+shift")'),
+})
+
+export const typeInputSchema = z.object({
+  tabId: z.number().describe('Tab ID'),
+  text: z.string().describe('Text to type'),
+})
+
+export const keyInputSchema = z.object({
+  tabId: z.number().describe('Tab ID'),
+  keys: z.string().describe('Space-separated keys (e.g., "Enter", "ctrl+a")'),
+  repeat: z.number().min(1).max(100).optional().describe('Repeat count'),
+})
+
+export const scrollInputSchema = z.object({
+  tabId: z.number().describe('Tab ID'),
+  coordinate: z
+    .tuple([z.number(), z.number()])
+    .optional()
+    .describe('Scroll position [x, y] (required for directional scroll)'),
+  direction: z
+    .enum(['up', 'down', 'left', 'right'])
+    .optional()
+    .describe('Scroll direction (required for directional scroll)'),
+  amount: z.number().min(1).max(10).optional().describe('Scroll amount (default: 3)'),
+  ref: z.string().optional().describe('Element reference ID to scroll into view'),
+  locator: locatorSchema,
+})
+
+export const hoverInputSchema = z.object({
+  tabId: z.number().describe('Tab ID'),
+  coordinate: z.tuple([z.number(), z.number()]).optional().describe('Hover position [x, y]'),
+  ref: z.string().optional().describe('Element reference ID'),
+  locator: locatorSchema,
+})
+
+export const dragInputSchema = z.object({
+  tabId: z.number().describe('Tab ID'),
+  startCoordinate: z.tuple([z.number(), z.number()]).describe('Start position [x, y]'),
+  endCoordinate: z.tuple([z.number(), z.number()]).describe('End position [x, y]'),
+})
+
+export const readPageInputSchema = z.object({
+  tabId: z.number().describe('Tab ID'),
+  filter: z
+    .enum(['interactive', 'all'])
+    .optional()
+    .describe('Filter: "interactive" for buttons/links/inputs, "all" for everything'),
+  depth: z.number().min(1).max(20).optional().describe('Max tree depth (default: 8)'),
+  refId: z.string().optional().describe('Focus on a specific element by ref'),
+  maxChars: z.number().optional().describe('Max output characters (default: 50000)'),
+})
+
+export const findInputSchema = z.object({
+  tabId: z.number().describe('Tab ID'),
+  query: z.string().describe('Natural language description of what to find'),
+})
+
+export const formInputInputSchema = z.object({
+  tabId: z.number().describe('Tab ID'),
+  ref: z.string().optional().describe('Element reference ID (or locator)'),
+  locator: locatorSchema,
+  value: z.union([z.string(), z.boolean(), z.number()]).describe('Value to set'),
+})
+
+export const javascriptExecInputSchema = z.object({
+  tabId: z.number().describe('Tab ID'),
+  code: z.string().describe('JavaScript code to execute'),
+})
+
+export const waitForInputSchema = z.object({
+  tabId: z.number().describe('Tab ID'),
+  selector: z.string().optional().describe('CSS selector to wait for'),
+  locator: z.string().optional().describe(`${LOCATOR_DESCRIPTION}; waits until it matches`),
+  navigation: z.boolean().optional().describe('Wait for navigation to complete'),
+  timeout: z.number().optional().describe('Timeout in ms (default: 30000)'),
+})
+
+export const getPageTextInputSchema = z.object({
+  tabId: z.number().describe('Tab ID'),
+})
+
+export const handleDialogInputSchema = z.object({
+  tabId: z.number().describe('Tab ID'),
+  action: z.enum(['accept', 'dismiss']).describe('Dialog action'),
+  text: z.string().optional().describe('Text for prompt dialog'),
+})
+
+// ── Tab Management Tools ──
+
+export const tabsContextInputSchema = z.object({
+  createIfEmpty: z.boolean().optional().describe('Create a new tab group if none exists'),
+})
+
+export const tabsCreateInputSchema = z.object({
+  url: z.string().optional().describe('URL to open in the new tab'),
+})
+
+export const tabCloseInputSchema = z.object({
+  tabId: z.number().describe('Tab ID to close'),
+})
+
+export const selectTabInputSchema = z.object({
+  tabId: z.number().describe('Tab ID to focus'),
+})
+
+// ── Debug Tools ──
+
+export const readConsoleMessagesInputSchema = z.object({
+  tabId: z.number().describe('Tab ID'),
+  pattern: z.string().optional().describe('Regex pattern to filter messages'),
+  onlyErrors: z.boolean().optional().describe('Only return errors'),
+  limit: z.number().optional().describe('Max messages to return (default: 100)'),
+  clear: z.boolean().optional().describe('Clear messages after reading'),
+})
+
+export const readNetworkRequestsInputSchema = z.object({
+  tabId: z.number().describe('Tab ID'),
+  urlPattern: z.string().optional().describe('URL pattern to filter requests'),
+  limit: z.number().optional().describe('Max requests to return (default: 100)'),
+  clear: z.boolean().optional().describe('Clear requests after reading'),
+})
+
+// ── Advanced Tools ──
+
+export const gifCreatorInputSchema = z.object({
+  tabId: z.number().describe('Tab ID'),
+  action: z.enum(['start_recording', 'stop_recording', 'export', 'clear']).describe('GIF action'),
+  filename: z.string().optional().describe('Filename for export'),
+  options: z
+    .object({
+      showClickIndicators: z.boolean().optional(),
+      showDragPaths: z.boolean().optional(),
+      showActionLabels: z.boolean().optional(),
+      showProgressBar: z.boolean().optional(),
+      showWatermark: z.boolean().optional(),
+      quality: z.number().min(1).max(30).optional(),
+    })
+    .optional()
+    .describe('GIF rendering options'),
+  download: z.boolean().optional().describe('Download the GIF'),
+})
+
+export const uploadImageInputSchema = z.object({
+  tabId: z.number().describe('Tab ID'),
+  imageId: z.string().describe('Image ID from a previous screenshot'),
+  ref: z.string().optional().describe('Element reference for file input'),
+  locator: locatorSchema,
+  coordinate: z.tuple([z.number(), z.number()]).optional().describe('Coordinates for drag & drop'),
+  filename: z
+    .string()
+    .optional()
+    .describe('File name for the upload (default: image.png); .jpg/.jpeg uploads as JPEG'),
+})
+
+export const updatePlanInputSchema = z.object({
+  domains: z.array(z.string()).describe('Domains to visit'),
+  approach: z.array(z.string()).describe('Steps in the plan'),
+})
+
+export const resizeWindowInputSchema = z.object({
+  tabId: z.number().describe('Tab ID'),
+  width: z.number().describe('Window width in pixels'),
+  height: z.number().describe('Window height in pixels'),
+})
+
+export const shortcutsListInputSchema = z.object({
+  tabId: z.number().optional().describe('Tab ID (used to identify the tab group context)'),
+})
+
+export const shortcutsExecuteInputSchema = z.object({
+  tabId: z.number().describe('Tab ID to execute the shortcut on'),
+  command: z.string().optional().describe('Command name of the shortcut'),
+  shortcutId: z.string().optional().describe('ID of the shortcut'),
+})
+
+/** Tools a batch step can run: those that act on one tab */
+export const BATCH_STEP_TOOLS = [
+  'navigate',
+  'click',
+  'type',
+  'key',
+  'scroll',
+  'hover',
+  'drag',
+  'form_input',
+  'find',
+  'read_page',
+  'get_page_text',
+  'screenshot',
+  'wait_for',
+  'handle_dialog',
+  'javascript_exec',
+  'page_data_extract',
+] as const
+
+export const batchInputSchema = z.object({
+  tabId: z.number().describe('Tab ID every step runs in'),
+  steps: z
+    .array(
+      z.object({
+        tool: z.enum(BATCH_STEP_TOOLS).describe('Tool to run'),
+        input: z
+          .record(z.unknown())
+          .optional()
+          .describe("The tool's input; tabId is taken from the batch"),
+        waitAfter: z
+          .number()
+          .min(0)
+          .max(30_000)
+          .optional()
+          .describe('Milliseconds to wait after the step'),
+      }),
+    )
+    .min(1)
+    .max(LIMITS.BATCH_MAX_STEPS)
+    .describe('Steps, run in order'),
+  continueOnError: z
+    .boolean()
+    .optional()
+    .describe('Run the remaining steps after a step fails (default: stop at the first failure)'),
+})
+
+/**
+ * Longest a batch can take: per step TIMEOUTS.BATCH_STEP, its waitAfter, and how long the step
+ * itself may wait (a wait_for step's timeout, navigate's page load, a click or hover's
+ * actionability wait). The MCP server's call timeout and the Extension's tab lock both last this long.
+ */
+export function batchDuration(
+  input: z.infer<typeof batchInputSchema>,
+  timeouts: Pick<RuntimeSettings['timeouts'], 'navigation' | 'waitFor' | 'actionability'>,
+): number {
+  let duration = 0
+  for (const step of input.steps) {
+    duration += TIMEOUTS.BATCH_STEP + (step.waitAfter ?? 0)
+    switch (step.tool) {
+      case 'wait_for': {
+        const timeout = step.input?.timeout
+        duration += typeof timeout === 'number' ? timeout : timeouts.waitFor
+        break
+      }
+      case 'navigate':
+        duration += timeouts.navigation
+        break
+      case 'click':
+      case 'hover':
+        duration += timeouts.actionability
+        break
+    }
+  }
+  return duration
+}
+
+export const switchBrowserInputSchema = z.object({
+  browserId: z
+    .string()
+    .optional()
+    .describe('Browser to switch to (from browser_list). Omit to wait for a new browser'),
+})
+
+export const browserListInputSchema = z.object({})
+
+// ── viyv Integration Tools ──
+
+export const agentIdentifyInputSchema = z.object({
+  agentId: z.string().describe('Agent ID (1-64 chars: letters, digits, . _ : -)'),
+  agentName: z.string().optional().describe('Display name (default: agentId)'),
+})
+
+export const agentTabAssignInputSchema = z.object({
+  agentId: z.string().describe('Agent ID'),
+  agentName: z.string().describe('Display name'),
+  color: z.string().optional().describe('Tab group color'),
+})
+
+export const agentTabListInputSchema = z.object({})
+
+export const browserEventSubscribeInputSchema = z.object({
+  eventTypes: z.array(z.string()).describe('Event types to subscribe to'),
+  urlPattern: z.string().optional().describe('URL pattern filter'),
+  conditions: z.record(z.unknown()).optional().describe('Additional conditions'),
+})
+
+export const browserEventUnsubscribeInputSchema = z.object({
+  subscriptionId: z.string().describe('Subscription ID'),
+})
+
+export const browserEventPollInputSchema = z.object({
+  cursor: z
+    .number()
+    .optional()
+    .describe('Sequence number of the last event already seen (default: 0, all buffered)'),
+  limit: z.number().optional().describe('Max events to return (default: 100, max: 1000)'),
+  subscriptionId: z.string().optional().describe('Only return events of this subscription'),
+})
+
+export const artifactFromPageInputSchema = z.object({
+  tabId: z.number().describe('Tab ID'),
+  type: z.string().describe('Artifact type (text, html, screenshot)'),
+  title: z.string().optional().describe('Artifact title'),
+})
+
+export const pageDataExtractInputSchema = z.object({
+  tabId: z.number().describe('Tab ID'),
+  schema: z.record(z.unknown()).describe('Data extraction schema'),
+  selector: z.string().optional().describe('CSS selector to scope extraction'),
+})
+
+export const browserHealthInputSchema = z.object({})
+
+export const auditRecentInputSchema = z.object({
+  limit: z.number().optional().describe('Max entries to return (default: 50, max: 500)'),
+  tool: z.string().optional().describe('Only return calls of this tool'),
+  errorsOnly: z.boolean().optional().describe('Only return failed calls'),
+})
+
+// ── Registry ──
+
+/** Input schema of every tool, by tool name */
+export const TOOL_INPUT_SCHEMAS = {
+  navigate: navigateInputSchema,
+  screenshot: screenshotInputSchema,
+  click: clickInputSchema,
+  type: typeInputSchema,
+  key: keyInputSchema,
+  scroll: scrollInputSchema,
+  hover: hoverInputSchema,
+  drag: dragInputSchema,
+  read_page: readPageInputSchema,
+  find: findInputSchema,
+  form_input: formInputInputSchema,
+  javascript_exec: javascriptExecInputSchema,
+  wait_for: waitForInputSchema,
+  get_page_text: getPageTextInputSchema,
+  handle_dialog: handleDialogInputSchema,
+  tabs_context: tabsContextInputSchema,
+  tabs_create: tabsCreateInputSchema,
+  tab_close: tabCloseInputSchema,
+  select_tab: selectTabInputSchema,
+  read_console_messages: readConsoleMessagesInputSchema,
+  read_network_requests: readNetworkRequestsInputSchema,
+  gif_creator: gifCreatorInputSchema,
+  upload_image: uploadImageInputSchema,
+  update_plan: updatePlanInputSchema,
+  resize_window: resizeWindowInputSchema,
+  shortcuts_list: shortcutsListInputSchema,
+  shortcuts_execute: shortcutsExecuteInputSchema,
+  batch: batchInputSchema,
+  switch_browser: switchBrowserInputSchema,
+  browser_list: browserListInputSchema,
+  agent_identify: agentIdentifyInputSchema,
+  agent_tab_assign: agentTabAssignInputSchema,
+  agent_tab_list: agentTabListInputSchema,
+  browser_event_subscribe: browserEventSubscribeInputSchema,
+  browser_event_unsubscribe: browserEventUnsubscribeInputSchema,
+  browser_event_poll: browserEventPollInputSchema,
+  artifact_from_page: artifactFromPageInputSchema,
+  page_data_extract: pageDataExtractInputSchema,
+  browser_health: browserHealthInputSchema,
+  audit_recent: auditRecentInputSchema,
+}
+
+export type ToolName = keyof typeof TOOL_INPUT_SCHEMAS
+
+/** Input of every tool, by tool name */
+export type ToolInputs = { [K in ToolName]: z.infer<(typeof TOOL_INPUT_SCHEMAS)[K]> }
+
+/**
+ * Validates a tool call's input against its schema and returns the parsed input (unknown keys
+ * dropped). Throws INVALID_PARAMS listing each invalid field; tools without a schema pass through.
+ */
+export function parseToolInput(tool: string, input: unknown): Record<string, unknown> {
+  const schema = TOOL_INPUT_SCHEMAS[tool as ToolName] as z.ZodTypeAny | undefined
+  if (!schema) return (input ?? {}) as Record<string, unknown>
+  const parsed = schema.safeParse(input ?? {})
+  if (parsed.success) return parsed.data
+
+  const issues = parsed.error.issues.map((issue) => ({
+    field: issue.path.join('.') || '(input)',
+    message: issue.message,
+  }))
+  throw new ViyvBrowserError(
+    'INVALID_PARAMS',
+    `Invalid input for '${tool}': ${issues.map((issue) => `${issue.field}: ${issue.message}`).join('; ')}`,
+    { tool, issues },
+  )
+}
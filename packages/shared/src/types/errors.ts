@@ -1,35 +1,106 @@
-export type ErrorCode =
-  | 'EXTENSION_NOT_CONNECTED'
-  | 'TAB_NOT_FOUND'
-  | 'TAB_ACCESS_DENIED'
-  | 'DEBUGGER_ATTACH_FAILED'
-  | 'DEBUGGER_IN_USE'
-  | 'CDP_ERROR'
-  | 'TIMEOUT'
-  | 'MESSAGE_TOO_LARGE'
-  | 'CHUNK_REASSEMBLY_FAILED'
-  | 'SESSION_EXPIRED'
-  | 'EXTENSION_SUSPENDED'
-  | 'DIALOG_BLOCKING'
-  | 'INVALID_PARAMS'
-  | 'UNKNOWN_TOOL'
-  | 'INTERNAL_ERROR'
+export const ERROR_CODES = [
+  'EXTENSION_NOT_CONNECTED',
+  'TAB_NOT_FOUND',
+  'TAB_ACCESS_DENIED',
+  'TAB_LOCKED',
+  'PERMISSION_DENIED',
+  'DEBUGGER_ATTACH_FAILED',
+  'DEBUGGER_IN_USE',
+  'CDP_ERROR',
+  'ELEMENT_NOT_FOUND',
+  'ELEMENT_NOT_ACTIONABLE',
+  'SCRIPT_ERROR',
+  'TIMEOUT',
+  'CANCELLED',
+  'MESSAGE_TOO_LARGE',
+  'CHUNK_REASSEMBLY_FAILED',
+  'SESSION_EXPIRED',
+  'AUTH_FAILED',
+  'EXTENSION_SUSPENDED',
+  'DIALOG_BLOCKING',
+  'INVALID_PARAMS',
+  'UNKNOWN_TOOL',
+  'INTERNAL_ERROR',
+] as const
+
+export type ErrorCode = (typeof ERROR_CODES)[number]
+
+/** Default recovery hints, returned with errors so agents know what to try next */
+export const RECOVERY_HINTS: Partial<Record<ErrorCode, string>> = {
+  EXTENSION_NOT_CONNECTED: 'Open Chrome and click the Viyv Browser extension icon, then retry.',
+  TAB_NOT_FOUND: 'Call tabs_context to get the current tab IDs.',
+  TAB_ACCESS_DENIED: 'Use a tab from your own group (tabs_context) or create one with tabs_create.',
+  TAB_LOCKED: 'Another agent is using this tab; retry shortly or use a different tab.',
+  PERMISSION_DENIED:
+    'Ask the user to allow this tool in the extension, or choose another approach.',
+  DEBUGGER_ATTACH_FAILED: 'Close DevTools or other debuggers attached to the tab and retry.',
+  DEBUGGER_IN_USE: 'Close DevTools or other debuggers attached to the tab and retry.',
+  CDP_ERROR: 'The page may have navigated or crashed; check it with screenshot and retry.',
+  ELEMENT_NOT_FOUND: 'Refs expire on navigation and re-render; call read_page or find again.',
+  ELEMENT_NOT_ACTIONABLE:
+    'Close whatever covers the element (see details.interceptedBy) or wait for it to be enabled, then retry.',
+  SCRIPT_ERROR: 'Fix the JavaScript error reported in the message and retry.',
+  TIMEOUT: 'Retry with a longer timeout, or check the page state with screenshot.',
+  MESSAGE_TOO_LARGE: 'Request less data (lower maxChars/depth, or a smaller screenshot).',
+  CHUNK_REASSEMBLY_FAILED: 'Retry the call; a large payload transfer was interrupted.',
+  SESSION_EXPIRED: 'Reconnect or call agent_identify to start a new session.',
+  AUTH_FAILED:
+    'Run the MCP server and the Native Host as the same user (check VIYV_BROWSER_SOCKET).',
+  EXTENSION_SUSPENDED: 'Retry; the extension service worker is restarting.',
+  DIALOG_BLOCKING: 'Handle the open JavaScript dialog with handle_dialog first.',
+  INVALID_PARAMS: 'Fix the input according to the tool schema and retry.',
+  UNKNOWN_TOOL: 'Check the tool name against tools/list.',
+}
+
+/** Error shape carried over the native protocol and returned in MCP error results */
+export interface ErrorPayload {
+  code: ErrorCode
+  message: string
+  details?: Record<string, unknown>
+  hint?: string
+}
+
+export function isErrorCode(value: unknown): value is ErrorCode {
+  return typeof value === 'string' && (ERROR_CODES as readonly string[]).includes(value)
+}
 
 export class ViyvBrowserError extends Error {
+  public readonly hint?: string
+
   constructor(
     public readonly code: ErrorCode,
     message: string,
     public readonly details?: Record<string, unknown>,
+    hint?: string,
   ) {
     super(message)
     this.name = 'ViyvBrowserError'
+    this.hint = hint ?? RECOVERY_HINTS[code]
   }
 
-  toJSON() {
+  toJSON(): ErrorPayload {
     return {
       code: this.code,
       message: this.message,
       details: this.details,
+      hint: this.hint,
     }
   }
+
+  /** Rebuilds an error received over the wire; unknown codes become INTERNAL_ERROR */
+  static fromPayload(payload: unknown): ViyvBrowserError {
+    const p = (payload ?? {}) as Record<string, unknown>
+    const code = isErrorCode(p.code) ? p.code : 'INTERNAL_ERROR'
+    const message = typeof p.message === 'string' ? p.message : 'Unknown error'
+    const details =
+      p.details && typeof p.details === 'object'
+        ? (p.details as Record<string, unknown>)
+        : undefined
+    return new ViyvBrowserError(
+      code,
+      message,
+      details,
+      typeof p.hint === 'string' ? p.hint : undefined,
+    )
+  }
 }
@@ -1,210 +1,117 @@
+/**
+ * Tool input types, inferred from the Zod schemas in tool-schemas.ts (do not write them by hand).
+ */
+
+import type { z } from 'zod'
+import type {
+  agentIdentifyInputSchema,
+  agentTabAssignInputSchema,
+  agentTabListInputSchema,
+  artifactFromPageInputSchema,
+  auditRecentInputSchema,
+  batchInputSchema,
+  browserEventPollInputSchema,
+  browserEventSubscribeInputSchema,
+  browserEventUnsubscribeInputSchema,
+  browserHealthInputSchema,
+  browserListInputSchema,
+  clickInputSchema,
+  dragInputSchema,
+  findInputSchema,
+  formInputInputSchema,
+  getPageTextInputSchema,
+  gifCreatorInputSchema,
+  handleDialogInputSchema,
+  hoverInputSchema,
+  javascriptExecInputSchema,
+  keyInputSchema,
+  navigateInputSchema,
+  pageDataExtractInputSchema,
+  readConsoleMessagesInputSchema,
+  readNetworkRequestsInputSchema,
+  readPageInputSchema,
+  resizeWindowInputSchema,
+  screenshotInputSchema,
+  scrollInputSchema,
+  selectTabInputSchema,
+  shortcutsExecuteInputSchema,
+  shortcutsListInputSchema,
+  switchBrowserInputSchema,
+  tabCloseInputSchema,
+  tabsContextInputSchema,
+  tabsCreateInputSchema,
+  typeInputSchema,
+  updatePlanInputSchema,
+  uploadImageInputSchema,
+  waitForInputSchema,
+} from '../tool-schemas.js'
+
 /** Click action types */
-export type ClickAction = 'left_click' | 'right_click' | 'double_click' | 'triple_click'
+export type ClickAction = NonNullable<ClickInput['action']>
 
 /** Scroll directions */
-export type ScrollDirection = 'up' | 'down' | 'left' | 'right'
+export type ScrollDirection = NonNullable<ScrollInput['direction']>
 
 /** Screenshot format */
-export type ScreenshotFormat = 'jpeg' | 'png'
+export type ScreenshotFormat = NonNullable<ScreenshotInput['format']>
 
 /** GIF creator actions */
-export type GifAction = 'start_recording' | 'stop_recording' | 'export' | 'clear'
+export type GifAction = GifCreatorInput['action']
 
 /** Dialog actions */
-export type DialogAction = 'accept' | 'dismiss'
+export type DialogAction = HandleDialogInput['action']
 
 /** Page filter */
-export type PageFilter = 'interactive' | 'all'
-
-// ── Core Tool Inputs ──
-
-export interface NavigateInput {
-  tabId: number
-  url: string
-}
-
-export interface ScreenshotInput {
-  tabId: number
-  format?: ScreenshotFormat
-  quality?: number
-  region?: [number, number, number, number]
-}
-
-export interface ClickInput {
-  tabId: number
-  coordinate?: [number, number]
-  ref?: string
-  action?: ClickAction
-  modifiers?: string
-}
-
-export interface TypeInput {
-  tabId: number
-  text: string
-}
-
-export interface KeyInput {
-  tabId: number
-  keys: string
-  repeat?: number
-}
-
-export interface ScrollInput {
-  tabId: number
-  coordinate: [number, number]
-  direction: ScrollDirection
-  amount?: number
-}
-
-export interface HoverInput {
-  tabId: number
-  coordinate?: [number, number]
-  ref?: string
-}
-
-export interface DragInput {
-  tabId: number
-  startCoordinate: [number, number]
-  endCoordinate: [number, number]
-}
-
-export interface ReadPageInput {
-  tabId: number
-  filter?: PageFilter
-  depth?: number
-  refId?: string
-  maxChars?: number
-}
-
-export interface FindInput {
-  tabId: number
-  query: string
-}
-
-export interface FormInputInput {
-  tabId: number
-  ref: string
-  value: string | boolean | number
-}
-
-export interface JavaScriptExecInput {
-  tabId: number
-  code: string
-}
-
-export interface WaitForInput {
-  tabId: number
-  selector?: string
-  navigation?: boolean
-  timeout?: number
-}
-
-export interface GetPageTextInput {
-  tabId: number
-}
-
-export interface HandleDialogInput {
-  tabId: number
-  action: DialogAction
-  text?: string
-}
-
-// ── Tab Tool Inputs ──
-
-export interface TabsContextInput {
-  createIfEmpty?: boolean
-}
-
-export interface TabsCreateInput {
-  url?: string
-}
-
-export interface TabCloseInput {
-  tabId: number
-}
-
-export interface SelectTabInput {
-  tabId: number
-}
-
+export type PageFilter = NonNullable<ReadPageInput['filter']>
+
+// ── Core Browser Tool Inputs ──
+
+export type NavigateInput = z.infer<typeof navigateInputSchema>
+export type ScreenshotInput = z.infer<typeof screenshotInputSchema>
+export type ClickInput = z.infer<typeof clickInputSchema>
+export type TypeInput = z.infer<typeof typeInputSchema>
+export type KeyInput = z.infer<typeof keyInputSchema>
+export type ScrollInput = z.infer<typeof scrollInputSchema>
+export type HoverInput = z.infer<typeof hoverInputSchema>
+export type DragInput = z.infer<typeof dragInputSchema>
+export type ReadPageInput = z.infer<typeof readPageInputSchema>
+export type FindInput = z.infer<typeof findInputSchema>
+export type FormInputInput = z.infer<typeof formInputInputSchema>
+export type JavaScriptExecInput = z.infer<typeof javascriptExecInputSchema>
+export type WaitForInput = z.infer<typeof waitForInputSchema>
+export type GetPageTextInput = z.infer<typeof getPageTextInputSchema>
+export type HandleDialogInput = z.infer<typeof handleDialogInputSchema>
+// ── Tab Management Tool Inputs ──
+
+export type TabsContextInput = z.infer<typeof tabsContextInputSchema>
+export type TabsCreateInput = z.infer<typeof tabsCreateInputSchema>
+export type TabCloseInput = z.infer<typeof tabCloseInputSchema>
+export type SelectTabInput = z.infer<typeof selectTabInputSchema>
 // ── Debug Tool Inputs ──
 
-export interface ReadConsoleMessagesInput {
-  tabId: number
-  pattern?: string
-  onlyErrors?: boolean
-  limit?: number
-  clear?: boolean
-}
-
-export interface ReadNetworkRequestsInput {
-  tabId: number
-  urlPattern?: string
-  limit?: number
-  clear?: boolean
-}
-
+export type ReadConsoleMessagesInput = z.infer<typeof readConsoleMessagesInputSchema>
+export type ReadNetworkRequestsInput = z.infer<typeof readNetworkRequestsInputSchema>
 // ── Advanced Tool Inputs ──
 
-export interface GifCreatorInput {
-  tabId: number
-  action: GifAction
-  filename?: string
-  options?: {
-    showClickIndicators?: boolean
-    showDragPaths?: boolean
-    showActionLabels?: boolean
-    showProgressBar?: boolean
-    showWatermark?: boolean
-    quality?: number
-  }
-  download?: boolean
-}
-
-export interface UploadImageInput {
-  tabId: number
-  imageId: string
-  ref?: string
-  coordinate?: [number, number]
-}
-
-export interface UpdatePlanInput {
-  domains: string[]
-  approach: string[]
-}
-
-export interface ResizeWindowInput {
-  tabId: number
-  width: number
-  height: number
-}
-
+export type GifCreatorInput = z.infer<typeof gifCreatorInputSchema>
+export type UploadImageInput = z.infer<typeof uploadImageInputSchema>
+export type UpdatePlanInput = z.infer<typeof updatePlanInputSchema>
+export type ResizeWindowInput = z.infer<typeof resizeWindowInputSchema>
+export type ShortcutsListInput = z.infer<typeof shortcutsListInputSchema>
+export type ShortcutsExecuteInput = z.infer<typeof shortcutsExecuteInputSchema>
+export type BatchInput = z.infer<typeof batchInputSchema>
+export type BatchStep = BatchInput['steps'][number]
+export type SwitchBrowserInput = z.infer<typeof switchBrowserInputSchema>
+export type BrowserListInput = z.infer<typeof browserListInputSchema>
 // ── viyv Integration Tool Inputs ──
 
-export interface AgentTabAssignInput {
-  agentId: string
-  agentName: string
-  color?: string
-}
-
-export interface BrowserEventSubscribeInput {
-  eventTypes: string[]
-  urlPattern?: string
-  conditions?: Record<string, unknown>
-}
-
-export interface BrowserEventUnsubscribeInput {
-  subscriptionId: string
-}
-
-export interface ArtifactFromPageInput {
-  tabId: number
-  type: string
-  title?: string
-}
-
-export interface PageDataExtractInput {
-  tabId: number
-  schema: Record<string, unknown>
-  selector?: string
-}
+export type AgentIdentifyInput = z.infer<typeof agentIdentifyInputSchema>
+export type AgentTabAssignInput = z.infer<typeof agentTabAssignInputSchema>
+export type AgentTabListInput = z.infer<typeof agentTabListInputSchema>
+export type BrowserEventSubscribeInput = z.infer<typeof browserEventSubscribeInputSchema>
+export type BrowserEventUnsubscribeInput = z.infer<typeof browserEventUnsubscribeInputSchema>
+export type BrowserEventPollInput = z.infer<typeof browserEventPollInputSchema>
+export type ArtifactFromPageInput = z.infer<typeof artifactFromPageInputSchema>
+export type PageDataExtractInput = z.infer<typeof pageDataExtractInputSchema>
+export type BrowserHealthInput = z.infer<typeof browserHealthInputSchema>
+export type AuditRecentInput = z.infer<typeof auditRecentInputSchema>
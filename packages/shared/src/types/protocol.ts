@@ -1,4 +1,5 @@
-import type { ErrorCode } from './errors.js'
+import type { ErrorPayload } from './errors.js'
+import type { RuntimeSettings } from './settings.js'
 
 /** Tool call request from MCP Server to Extension */
 export interface NativeRequest {
@@ -7,6 +8,37 @@ export interface NativeRequest {
   agentId: string
   tool: string
   input: Record<string, unknown>
+  /** Set when the MCP caller supplied a progressToken; the Extension then sends tool_progress */
+  reportProgress?: boolean
+  /**
+   * Re-sent after the Extension reconnected. The Extension dedupes by `id`: a call that is
+   * still running or already finished is not executed again.
+   */
+  replay?: boolean
+  timestamp: number
+}
+
+/** Intermediate progress of a long-running tool call (Extension → MCP Server) */
+export interface ToolProgressMessage {
+  id: string
+  type: 'tool_progress'
+  agentId: string
+  /** ID of the tool_call this progress belongs to */
+  requestId: string
+  /** Increases with every message for the same request */
+  progress: number
+  total?: number
+  message?: string
+  timestamp: number
+}
+
+/** Cancels an in-flight tool call (MCP Server → Extension) */
+export interface ToolCancelMessage {
+  id: string
+  type: 'tool_cancel'
+  agentId: string
+  /** ID of the tool_call to cancel */
+  requestId: string
   timestamp: number
 }
 
@@ -17,10 +49,18 @@ export interface NativeResponse {
   agentId: string
   success: boolean
   result?: Record<string, unknown>
-  error?: { code: ErrorCode; message: string }
+  error?: ErrorPayload
+  /** Tab the call acted on, with its URL before and after the call (for the audit trail) */
+  page?: ToolPageContext
   timestamp: number
 }
 
+export interface ToolPageContext {
+  tabId: number
+  urlBefore?: string
+  urlAfter?: string
+}
+
 /** Browser event notification (Extension → MCP Server, async) */
 export interface NativeEvent {
   id: string
@@ -34,6 +74,45 @@ export interface NativeEvent {
   sequenceNumber: number
 }
 
+/** Browser identity sent by the Extension in its session_init reply */
+export interface BrowserInfo {
+  /** Stable per-profile ID, persisted by the Extension */
+  browserId: string
+  /** User-chosen label for the Chrome profile (e.g. "work") */
+  profileName?: string
+  extensionVersion: string
+}
+
+/**
+ * Capability set exchanged in session_init (MCP Server → Extension and back).
+ * A peer that sends none predates negotiation and is treated as supporting everything.
+ */
+export interface ProtocolCapabilities {
+  /** Tools the Extension can execute; the server advertises only these over MCP */
+  tools?: string[]
+  /** Understands `chunk` messages for payloads over the 1MB Native Messaging limit */
+  chunking: boolean
+  /** Sends gzip-compressed socket messages (Native Host ↔ MCP Server) */
+  compression: boolean
+  /** Handles tool_cancel */
+  cancellation: boolean
+  /** Sends tool_progress when asked to */
+  progress: boolean
+  /** Browser event types the Extension can observe */
+  eventTypes?: BrowserEventType[]
+}
+
+/**
+ * Tool profile of the MCP Server (`--tools` / `--exclude-tools`), sent in session_init.
+ * The Extension refuses tool calls outside `tools`, whoever sends them.
+ */
+export interface ToolPolicy {
+  /** Profile or tool list the server was started with, for error messages */
+  profile: string
+  /** Browser-bound tools the profile allows */
+  tools: string[]
+}
+
 /** Session management messages */
 export interface SessionMessage {
   id: string
@@ -45,6 +124,46 @@ export interface SessionMessage {
     agentName?: string
     agentColor?: string
   }
+  /** Set in the Extension's session_init reply */
+  browser?: BrowserInfo
+  /** Features of the sender; each side only uses what the other advertises */
+  capabilities?: ProtocolCapabilities
+  /** Set in the MCP Server's session_init: effective timeouts and limits from the user config */
+  settings?: RuntimeSettings
+  /** Set in the MCP Server's session_init; absent means every tool is allowed */
+  toolPolicy?: ToolPolicy
+  /**
+   * Set in the MCP Server's session_init: the server's challenge for the Native Host and its
+   * proof for the host's challenge. The Native Host strips it before forwarding to Chrome.
+   */
+  auth?: { nonce: string; proof: string }
+  timestamp: number
+}
+
+/**
+ * Socket handshake between Native Host and MCP Server (never forwarded to Chrome).
+ * The host opens with its nonce, then answers the server's nonce with a proof;
+ * the server replies with `error` and closes the socket when verification fails.
+ */
+export interface SessionAuthMessage {
+  id: string
+  type: 'session_auth'
+  nonce?: string
+  proof?: string
+  error?: ErrorPayload
+  timestamp: number
+}
+
+/** Tab-scoped data exposed as MCP resources */
+export type ResourceKind = 'tabs' | 'console' | 'network' | 'a11y'
+
+/** Resource change notification (Extension → MCP Server, async, throttled) */
+export interface ResourceUpdateMessage {
+  id: string
+  type: 'resource_updated'
+  agentId: string
+  resource: ResourceKind
+  tabId?: number
   timestamp: number
 }
 
@@ -60,16 +179,27 @@ export interface ChunkedMessage {
   data: string
 }
 
-export type NativeMessage = NativeRequest | NativeResponse | NativeEvent | SessionMessage | ChunkedMessage
-
-export type BrowserEventType =
-  | 'browser.page_load'
-  | 'browser.page_navigate'
-  | 'browser.dom_mutation'
-  | 'browser.network_request'
-  | 'browser.network_response'
-  | 'browser.tab_created'
-  | 'browser.tab_closed'
-  | 'browser.tab_updated'
-  | 'browser.console_error'
-  | 'browser.form_submitted'
+export type NativeMessage =
+  | NativeRequest
+  | ToolCancelMessage
+  | NativeResponse
+  | ToolProgressMessage
+  | NativeEvent
+  | SessionMessage
+  | ResourceUpdateMessage
+  | ChunkedMessage
+
+export const BROWSER_EVENT_TYPES = [
+  'browser.page_load',
+  'browser.page_navigate',
+  'browser.dom_mutation',
+  'browser.network_request',
+  'browser.network_response',
+  'browser.tab_created',
+  'browser.tab_closed',
+  'browser.tab_updated',
+  'browser.console_error',
+  'browser.form_submitted',
+] as const
+
+export type BrowserEventType = (typeof BROWSER_EVENT_TYPES)[number]
@@ -0,0 +1,48 @@
+/**
+ * Tunable runtime settings. The MCP Server loads them from the user config file
+ * (~/.config/viyv-browser/config.json, env and CLI overrides) and sends the effective values
+ * to the Extension in session_init, so both sides use the same timeouts and buffer sizes.
+ * Defaults: DEFAULT_SETTINGS in constants.ts.
+ */
+export interface RuntimeSettings {
+  /** Milliseconds */
+  timeouts: {
+    /** Overall MCP tool timeout */
+    toolCall: number
+    /** CDP command timeout */
+    cdpCommand: number
+    /** Delay before an idle debugger is detached */
+    cdpIdleDetach: number
+    /** How long navigate waits for the page to load */
+    navigation: number
+    /** Default wait_for timeout */
+    waitFor: number
+    /** Tab lock TTL (deadlock prevention) */
+    tabLock: number
+    /** How long tool calls wait for a dropped Extension connection to come back before failing */
+    reconnectGrace: number
+    /** How long a ref click waits for its element to become visible, stable and clickable */
+    actionability: number
+  }
+  limits: {
+    /** Browser events buffered by the MCP Server for browser_event_poll */
+    eventBuffer: number
+    eventBufferBytes: number
+    /** Console messages kept per tab */
+    consoleBufferPerTab: number
+    /** Network requests kept per tab */
+    networkBufferPerTab: number
+    /** Console or network entries kept across all tabs */
+    bufferTotal: number
+    /** Screenshots kept for upload_image */
+    storedScreenshots: number
+    /** Audit log file size before it is rotated */
+    auditLogBytes: number
+    /** Rotated audit log files kept */
+    auditLogFiles: number
+  }
+  screenshot: {
+    /** JPEG quality (1-100) when the tool call does not set one */
+    jpegQuality: number
+  }
+}